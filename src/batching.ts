@@ -0,0 +1,177 @@
+/**
+ * Client-side request batching for the Drip SDK.
+ *
+ * A {@link RequestBatcher} collects individual calls for a short window and
+ * sends them as one batch request. Each caller still gets a promise that
+ * resolves (or rejects) with its own item's result, so batching is invisible
+ * to calling code apart from the reduced number of HTTP requests.
+ *
+ * A batch is sent when either limit is reached:
+ * - `maxBatchSize` items have been collected, or
+ * - `maxWaitMs` has elapsed since the first item in the batch.
+ *
+ * @example
+ * ```typescript
+ * const drip = new Drip({
+ *   apiKey: process.env.DRIP_API_KEY!,
+ *   batching: { maxBatchSize: 200, maxWaitMs: 25 },
+ * });
+ *
+ * // These 3 calls are sent as a single POST /usage/internal/batch
+ * await Promise.all([
+ *   drip.trackUsage({ customerId: 'a', meter: 'rpc_calls', quantity: 1 }),
+ *   drip.trackUsage({ customerId: 'b', meter: 'rpc_calls', quantity: 1 }),
+ *   drip.trackUsage({ customerId: 'c', meter: 'rpc_calls', quantity: 1 }),
+ * ]);
+ *
+ * // Before exiting
+ * await drip.flushBatches();
+ * ```
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Configuration for client-side batching.
+ */
+export interface BatchingConfig {
+  /**
+   * Maximum number of items per batch request.
+   * @default 100
+   */
+  maxBatchSize?: number;
+
+  /**
+   * Maximum time an item waits for more items before the batch is sent, in ms.
+   * @default 50
+   */
+  maxWaitMs?: number;
+}
+
+/**
+ * Outcome for a single item in a batch.
+ */
+export type BatchItemOutcome<TResult> =
+  | { ok: true; value: TResult }
+  | { ok: false; error: Error };
+
+/**
+ * Sends one batch and returns one outcome per item, in the same order.
+ * Throwing rejects every item in the batch with the thrown error.
+ */
+export type BatchSendFn<TItem, TResult> = (
+  items: TItem[],
+) => Promise<Array<BatchItemOutcome<TResult>>>;
+
+interface QueuedItem<TItem, TResult> {
+  item: TItem;
+  resolve: (value: TResult) => void;
+  reject: (error: Error) => void;
+}
+
+// =============================================================================
+// Request Batcher
+// =============================================================================
+
+/**
+ * Coalesces individual calls into batch requests.
+ */
+export class RequestBatcher<TItem, TResult> {
+  private readonly send: BatchSendFn<TItem, TResult>;
+  private readonly maxBatchSize: number;
+  private readonly maxWaitMs: number;
+  private queue: Array<QueuedItem<TItem, TResult>> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly inFlight = new Set<Promise<void>>();
+
+  /**
+   * @param send - Sends a batch of items
+   * @param config - Batch size and wait limits
+   */
+  constructor(send: BatchSendFn<TItem, TResult>, config: BatchingConfig = {}) {
+    this.send = send;
+    this.maxBatchSize = Math.max(1, config.maxBatchSize ?? 100);
+    this.maxWaitMs = Math.max(0, config.maxWaitMs ?? 50);
+  }
+
+  /**
+   * Add an item to the current batch.
+   *
+   * @returns Promise resolving with this item's result once its batch is sent
+   */
+  add(item: TItem): Promise<TResult> {
+    return new Promise<TResult>((resolve, reject) => {
+      this.queue.push({ item, resolve, reject });
+
+      if (this.queue.length >= this.maxBatchSize) {
+        this.dispatch();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.dispatch(), this.maxWaitMs);
+      }
+    });
+  }
+
+  /**
+   * Send any queued items immediately and wait for all batches in flight.
+   */
+  async flush(): Promise<void> {
+    this.dispatch();
+    while (this.inFlight.size > 0) {
+      await Promise.all(this.inFlight);
+    }
+  }
+
+  /**
+   * Number of items waiting to be sent.
+   */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of batch requests sent that have not completed yet.
+   */
+  get pendingBatches(): number {
+    return this.inFlight.size;
+  }
+
+  private dispatch(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.maxBatchSize);
+      const sending = this.sendBatch(batch);
+      this.inFlight.add(sending);
+      void sending.finally(() => this.inFlight.delete(sending));
+    }
+  }
+
+  private async sendBatch(batch: Array<QueuedItem<TItem, TResult>>): Promise<void> {
+    let outcomes: Array<BatchItemOutcome<TResult>>;
+    try {
+      outcomes = await this.send(batch.map((queued) => queued.item));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      for (const queued of batch) {
+        queued.reject(err);
+      }
+      return;
+    }
+
+    batch.forEach((queued, i) => {
+      const outcome = outcomes[i];
+      if (!outcome) {
+        queued.reject(new Error('Batch response did not include a result for this item'));
+      } else if (outcome.ok) {
+        queued.resolve(outcome.value);
+      } else {
+        queued.reject(outcome.error);
+      }
+    });
+  }
+}
@@ -12,6 +12,9 @@
  */
 
 import { deterministicIdempotencyKey } from './idempotency.js';
+import { fetchTransport, type DripTransport } from './transport.js';
+import { InterceptorChain, type DripInterceptorConfig, type DripRequestContext } from './interceptors.js';
+import { DripError, DripResponseParseError, createDripErrorFromResponse, toDripError } from './errors.js';
 
 // ============================================================================
 // Configuration Types
@@ -24,7 +27,7 @@ import { deterministicIdempotencyKey } from './idempotency.js';
  * - `DRIP_API_KEY` - Your Drip API key
  * - `DRIP_BASE_URL` - Override API base URL (optional)
  */
-export interface DripConfig {
+export interface DripConfig extends DripInterceptorConfig {
   /**
    * Your Drip API key. Obtain this from the Drip dashboard.
    * Falls back to `DRIP_API_KEY` environment variable if not provided.
@@ -50,6 +53,22 @@ export interface DripConfig {
    * @default 30000
    */
   timeout?: number;
+
+  /**
+   * Custom HTTP transport used for every API call.
+   * Defaults to the global `fetch`. See `DripTransport`.
+   */
+  transport?: DripTransport;
+}
+
+/**
+ * Options for an internal API request.
+ * @internal
+ */
+interface RequestOptions {
+  method?: string;
+  body?: string;
+  headers?: Record<string, string>;
 }
 
 // ============================================================================
@@ -543,25 +562,6 @@ interface CreateWorkflowParams {
   metadata?: Record<string, unknown>;
 }
 
-// ============================================================================
-// Error Types
-// ============================================================================
-
-/**
- * Error thrown by Drip SDK operations.
- */
-export class DripError extends Error {
-  constructor(
-    message: string,
-    public statusCode: number,
-    public code?: string,
-  ) {
-    super(message);
-    this.name = 'DripError';
-    Object.setPrototypeOf(this, DripError.prototype);
-  }
-}
-
 // ============================================================================
 // Core SDK Class
 // ============================================================================
@@ -614,6 +614,8 @@ export class Drip {
   private readonly apiKey: string;
   private readonly baseUrl: string;
   private readonly timeout: number;
+  private readonly transport: DripTransport;
+  private readonly interceptors: InterceptorChain;
 
   /**
    * The type of API key being used.
@@ -657,6 +659,8 @@ export class Drip {
     this.apiKey = apiKey;
     this.baseUrl = baseUrl || 'https://drip-app-hlunj.ondigitalocean.app/v1';
     this.timeout = config.timeout || 30000;
+    this.transport = config.transport ?? fetchTransport;
+    this.interceptors = new InterceptorChain(config);
 
     // Detect key type from prefix
     if (apiKey.startsWith('sk_')) {
@@ -674,49 +678,114 @@ export class Drip {
    */
   private async request<T>(
     path: string,
-    options: RequestInit = {},
+    options: RequestOptions = {},
   ): Promise<T> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    return this.rawRequest<T>(path, options);
+  }
+
+  /**
+   * Execute the actual HTTP request, running interceptors around the transport.
+   * @internal
+   */
+  private async rawRequest<T>(
+    path: string,
+    options: RequestOptions = {},
+    retryCount = 0,
+  ): Promise<T> {
+    // Interceptors see the parsed body; skip the parse when none are registered
+    const intercepted = this.interceptors.hasInterceptors;
+    let request: DripRequestContext = {
+      method: (options.method ?? 'GET').toUpperCase(),
+      path,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+        ...options.headers,
+      },
+      body: intercepted && options.body !== undefined ? JSON.parse(options.body) : undefined,
+      retryCount,
+    };
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let start = Date.now();
+    let status: number | null = null;
 
     try {
-      const res = await fetch(`${this.baseUrl}${path}`, {
-        ...options,
+      try {
+        request = await this.interceptors.runRequest(request);
+      } catch (error) {
+        // Not a transport failure: don't let it be retried or queued
+        throw error instanceof DripError
+          ? error
+          : new DripError(
+            error instanceof Error ? error.message : 'Request interceptor failed',
+            0,
+            'INTERCEPTOR_ERROR',
+            { cause: error },
+          );
+      }
+
+      const controller = new AbortController();
+      timeoutId = setTimeout(() => controller.abort(), this.timeout);
+      start = Date.now();
+
+      const res = await this.transport({
+        method: request.method,
+        url: `${this.baseUrl}${request.path}`,
+        path: request.path,
+        headers: request.headers,
+        body: intercepted
+          ? (request.body !== undefined ? JSON.stringify(request.body) : undefined)
+          : options.body,
         signal: controller.signal,
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.apiKey}`,
-          ...options.headers,
-        },
       });
-
-      if (res.status === 204) {
-        return { success: true } as T;
+      status = res.status;
+
+      if (res.status < 200 || res.status >= 300) {
+        let errorBody: unknown = {};
+        try {
+          errorBody = JSON.parse(res.body);
+        } catch {
+          // Non-JSON error page (e.g. from a proxy) - fall back to the status code
+        }
+        throw createDripErrorFromResponse(res.status, errorBody, res.headers);
       }
 
-      const data = await res.json();
-
-      if (!res.ok) {
-        throw new DripError(
-          data.message || data.error || 'Request failed',
-          res.status,
-          data.code,
-        );
+      // Handle 204 No Content
+      let data: unknown = { success: true };
+      if (res.status !== 204) {
+        try {
+          data = JSON.parse(res.body);
+        } catch (error) {
+          throw new DripResponseParseError(res.status, res.body, {
+            requestId: res.headers['x-request-id'] ?? res.headers['request-id'],
+            cause: error,
+          });
+        }
       }
 
-      return data as T;
+      const response = await this.interceptors.runResponse({
+        request,
+        status: res.status,
+        headers: res.headers,
+        body: data,
+        latencyMs: Date.now() - start,
+        retryCount,
+      });
+
+      return response.body as T;
     } catch (error) {
-      if (error instanceof DripError) {
-        throw error;
-      }
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new DripError('Request timed out', 408, 'TIMEOUT');
-      }
-      throw new DripError(
-        error instanceof Error ? error.message : 'Unknown error',
-        0,
-        'UNKNOWN',
-      );
+      const dripError = toDripError(error, this.timeout);
+
+      await this.interceptors.runError({
+        request,
+        error: dripError,
+        status,
+        latencyMs: Date.now() - start,
+        retryCount,
+      });
+
+      throw dripError;
     } finally {
       clearTimeout(timeoutId);
     }
@@ -762,19 +831,23 @@ export class Drip {
     const start = Date.now();
 
     try {
-      const response = await fetch(`${healthBaseUrl}/health`, {
-        signal: controller.signal,
+      const response = await this.transport({
+        method: 'GET',
+        url: `${healthBaseUrl}/health`,
+        path: '/health',
         headers: {
           Authorization: `Bearer ${this.apiKey}`,
         },
+        signal: controller.signal,
       });
       const latencyMs = Date.now() - start;
+      const responseOk = response.status >= 200 && response.status < 300;
 
       let status = 'unknown';
       let timestamp = Date.now();
 
       try {
-        const data = await response.json() as { status?: string; timestamp?: number };
+        const data = JSON.parse(response.body) as { status?: string; timestamp?: number };
         if (typeof data.status === 'string') {
           status = data.status;
         }
@@ -782,28 +855,21 @@ export class Drip {
           timestamp = data.timestamp;
         }
       } catch {
-        status = response.ok ? 'healthy' : `error:${response.status}`;
+        status = responseOk ? 'healthy' : `error:${response.status}`;
       }
 
-      if (!response.ok && status === 'unknown') {
+      if (!responseOk && status === 'unknown') {
         status = `error:${response.status}`;
       }
 
       return {
-        ok: response.ok && status === 'healthy',
+        ok: responseOk && status === 'healthy',
         status,
         latencyMs,
         timestamp,
       };
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new DripError('Request timed out', 408, 'TIMEOUT');
-      }
-      throw new DripError(
-        error instanceof Error ? error.message : 'Unknown error',
-        0,
-        'UNKNOWN',
-      );
+      throw toDripError(error, this.timeout);
     } finally {
       clearTimeout(timeoutId);
     }
@@ -1231,6 +1297,44 @@ export class Drip {
   }
 }
 
+// Re-export Error types
+export {
+  DripError,
+  DripAuthenticationError,
+  DripPermissionError,
+  DripInsufficientBalanceError,
+  DripValidationError,
+  DripRateLimitError,
+  DripResponseParseError,
+  DripTimeoutError,
+  DripNetworkError,
+} from './errors.js';
+export type {
+  DripErrorOptions,
+  DripValidationIssue,
+  InsufficientBalanceDetails,
+} from './errors.js';
+
+// Re-export Interceptor types
+export type {
+  DripRequestContext,
+  DripResponseContext,
+  DripErrorContext,
+  DripRequestInterceptor,
+  DripResponseInterceptor,
+  DripErrorInterceptor,
+  DripInterceptorConfig,
+} from './interceptors.js';
+
+// Re-export Transport types and utilities
+export { createFetchTransport, fetchTransport } from './transport.js';
+export type {
+  DripTransport,
+  DripTransportRequest,
+  DripTransportResponse,
+  FetchLike,
+} from './transport.js';
+
 // Default export for convenience
 export default Drip;
 
@@ -0,0 +1,66 @@
+/**
+ * Drip SDK - Edge Adapter
+ *
+ * Web-standard `Request`/`Response` wrapper and Hono middleware for
+ * Cloudflare Workers, Bun, Deno and other edge runtimes.
+ *
+ * @example
+ * ```typescript
+ * import { withDrip } from '@drip-sdk/node/edge';
+ *
+ * export default {
+ *   fetch: withDrip({ meter: 'api_calls', quantity: 1 }, async (request, { charge }) => {
+ *     return Response.json({ charged: charge.charge.amountUsdc });
+ *   }),
+ * };
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// Re-export edge specific
+export {
+  withDrip,
+  createWithDrip,
+  dripMiddleware,
+  hasPaymentProofHeaders,
+} from './middleware/edge.js';
+
+export type {
+  DripFetchHandler,
+  HonoContext,
+  HonoNext,
+  HonoMiddleware,
+  EdgeDripConfig,
+} from './middleware/edge.js';
+
+// Re-export shared types
+export type {
+  WithDripConfig,
+  ChargeTiming,
+  RequireBalanceOptions,
+  DripContext,
+  X402PaymentProof,
+  X402PaymentRequest,
+  PaymentProofVerifier,
+  PaymentVerificationContext,
+  PaymentNonceStore,
+  IssuedPaymentRequest,
+} from './middleware/types.js';
+
+export { DripMiddlewareError } from './middleware/types.js';
+export { MemoryPaymentNonceStore } from './middleware/x402.js';
+
+// Re-export core SDK for convenience
+export {
+  Drip,
+  DripError,
+} from './index.js';
+
+export type {
+  DripConfig,
+  Customer,
+  ChargeParams,
+  ChargeResult,
+  ChargeStatus,
+} from './index.js';
@@ -0,0 +1,489 @@
+/**
+ * Error types for the Drip SDK.
+ *
+ * Every API failure is a {@link DripError}. Failures with a well-known cause
+ * use a subclass so callers can branch with `instanceof` instead of checking
+ * status codes or parsing messages:
+ *
+ * | Class                          | When                                  |
+ * |--------------------------------|---------------------------------------|
+ * | `DripAuthenticationError`      | 401 - missing or invalid API key      |
+ * | `DripPermissionError`          | 403 - key not allowed for the endpoint|
+ * | `DripInsufficientBalanceError` | 402 - customer cannot pay             |
+ * | `DripValidationError`          | 400 / 422 - invalid request fields    |
+ * | `DripRateLimitError`           | 429 - too many requests               |
+ * | `DripChargeFailedError`        | charge settled with status `FAILED`   |
+ * | `DripResponseParseError`       | 2xx response body is not valid JSON   |
+ * | `DripTimeoutError`             | request exceeded the SDK timeout      |
+ * | `DripNetworkError`             | no response (DNS, connection reset)   |
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await drip.charge({ customerId, meter: 'api_calls', quantity: 1 });
+ * } catch (error) {
+ *   if (error instanceof DripInsufficientBalanceError) {
+ *     console.log(`Needs ${error.requiredAmount} USDC`);
+ *   } else if (error instanceof DripRateLimitError) {
+ *     await sleep(error.retryAfterMs ?? 1000);
+ *   }
+ * }
+ * ```
+ */
+
+// =============================================================================
+// Base Error
+// =============================================================================
+
+/**
+ * Additional context attached to a DripError.
+ */
+export interface DripErrorOptions {
+  /** Server-assigned request ID, useful when contacting support */
+  requestId?: string;
+
+  /** Underlying error that caused this one */
+  cause?: unknown;
+}
+
+/**
+ * Error thrown by Drip SDK operations.
+ */
+export class DripError extends Error {
+  /**
+   * Server-assigned request ID (from the `X-Request-Id` header or response body).
+   */
+  readonly requestId?: string;
+
+  /**
+   * Creates a new DripError.
+   * @param message - Human-readable error message
+   * @param statusCode - HTTP status code from the API (0 if no response)
+   * @param code - Machine-readable error code
+   * @param options - Request ID and underlying cause
+   */
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code?: string,
+    options: DripErrorOptions = {},
+  ) {
+    super(message);
+    this.name = 'DripError';
+    this.requestId = options.requestId;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+    Object.setPrototypeOf(this, DripError.prototype);
+  }
+}
+
+// =============================================================================
+// HTTP Error Subclasses
+// =============================================================================
+
+/**
+ * The API key is missing, malformed, or revoked (HTTP 401).
+ */
+export class DripAuthenticationError extends DripError {
+  constructor(message: string, code = 'UNAUTHORIZED', options: DripErrorOptions = {}) {
+    super(message, 401, code, options);
+    this.name = 'DripAuthenticationError';
+    Object.setPrototypeOf(this, DripAuthenticationError.prototype);
+  }
+}
+
+/**
+ * The API key is valid but not allowed to perform this operation (HTTP 403).
+ */
+export class DripPermissionError extends DripError {
+  constructor(message: string, code = 'FORBIDDEN', options: DripErrorOptions = {}) {
+    super(message, 403, code, options);
+    this.name = 'DripPermissionError';
+    Object.setPrototypeOf(this, DripPermissionError.prototype);
+  }
+}
+
+/**
+ * Structured details of an insufficient balance failure.
+ */
+export interface InsufficientBalanceDetails {
+  /** Amount required to complete the charge, in USDC */
+  requiredAmount?: string;
+
+  /**
+   * Where `requiredAmount` came from: a structured field in the response
+   * body, or parsed out of the error message text
+   */
+  requiredAmountSource?: 'body' | 'message';
+
+  /** Balance available to the customer, in USDC */
+  availableBalance?: string;
+
+  /** Difference between required and available, in USDC */
+  shortfall?: string;
+}
+
+/**
+ * The customer does not have enough balance to pay for the charge (HTTP 402).
+ */
+export class DripInsufficientBalanceError extends DripError {
+  /** Amount required to complete the charge, in USDC (if reported) */
+  readonly requiredAmount?: string;
+
+  /** Whether `requiredAmount` came from a structured field or the message text */
+  readonly requiredAmountSource?: 'body' | 'message';
+
+  /** Balance available to the customer, in USDC (if reported) */
+  readonly availableBalance?: string;
+
+  /** Difference between required and available, in USDC (if reported) */
+  readonly shortfall?: string;
+
+  constructor(
+    message: string,
+    details: InsufficientBalanceDetails = {},
+    code = 'INSUFFICIENT_BALANCE',
+    options: DripErrorOptions = {},
+  ) {
+    super(message, 402, code, options);
+    this.name = 'DripInsufficientBalanceError';
+    this.requiredAmount = details.requiredAmount;
+    this.requiredAmountSource = details.requiredAmountSource;
+    this.availableBalance = details.availableBalance;
+    this.shortfall = details.shortfall;
+    Object.setPrototypeOf(this, DripInsufficientBalanceError.prototype);
+  }
+}
+
+/**
+ * A single field-level validation problem.
+ */
+export interface DripValidationIssue {
+  /** Dotted path of the offending field (e.g. `metadata.model`), or empty for the whole request */
+  field: string;
+
+  /** Human-readable description of the problem */
+  message: string;
+
+  /** Machine-readable issue code, if provided by the API */
+  code?: string;
+}
+
+/**
+ * The request was rejected because one or more fields are invalid (HTTP 400 / 422).
+ */
+export class DripValidationError extends DripError {
+  /** Per-field validation issues (may be empty if the API gave none) */
+  readonly issues: DripValidationIssue[];
+
+  constructor(
+    message: string,
+    issues: DripValidationIssue[] = [],
+    statusCode = 400,
+    code = 'VALIDATION_ERROR',
+    options: DripErrorOptions = {},
+  ) {
+    super(message, statusCode, code, options);
+    this.name = 'DripValidationError';
+    this.issues = issues;
+    Object.setPrototypeOf(this, DripValidationError.prototype);
+  }
+}
+
+/**
+ * Too many requests were sent (HTTP 429).
+ */
+export class DripRateLimitError extends DripError {
+  /** How long the server asked us to wait before retrying, in ms (null if not provided) */
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    message: string,
+    retryAfterMs: number | null = null,
+    code = 'RATE_LIMITED',
+    options: DripErrorOptions = {},
+  ) {
+    super(message, 429, code, options);
+    this.name = 'DripRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+    Object.setPrototypeOf(this, DripRateLimitError.prototype);
+  }
+}
+
+// =============================================================================
+// Settlement Error Subclasses
+// =============================================================================
+
+/**
+ * A charge reached the `FAILED` status while waiting for settlement.
+ */
+export class DripChargeFailedError extends DripError {
+  /** ID of the failed charge */
+  readonly chargeId: string;
+
+  /** Failure reason reported by the API, if any */
+  readonly failureReason: string | null;
+
+  constructor(chargeId: string, failureReason: string | null, options: DripErrorOptions = {}) {
+    super(
+      `Charge ${chargeId} failed${failureReason ? `: ${failureReason}` : ''}`,
+      402,
+      'CHARGE_FAILED',
+      options,
+    );
+    this.name = 'DripChargeFailedError';
+    this.chargeId = chargeId;
+    this.failureReason = failureReason;
+    Object.setPrototypeOf(this, DripChargeFailedError.prototype);
+  }
+}
+
+// =============================================================================
+// Webhook Error Subclasses
+// =============================================================================
+
+/**
+ * Why a webhook delivery failed verification.
+ */
+export type WebhookSignatureErrorReason =
+  | 'missing_signature'
+  | 'invalid_format'
+  | 'timestamp_expired'
+  | 'signature_mismatch'
+  | 'replayed';
+
+/**
+ * A webhook delivery could not be verified (HTTP 400).
+ *
+ * Thrown by `Drip.constructWebhookEvent()`. Respond with a 4xx status and do
+ * not process the payload.
+ */
+export class WebhookSignatureError extends DripError {
+  /** Why verification failed */
+  readonly reason: WebhookSignatureErrorReason;
+
+  constructor(reason: WebhookSignatureErrorReason, message: string) {
+    super(message, 400, 'WEBHOOK_SIGNATURE_INVALID');
+    this.name = 'WebhookSignatureError';
+    this.reason = reason;
+    Object.setPrototypeOf(this, WebhookSignatureError.prototype);
+  }
+}
+
+// =============================================================================
+// Response Error Subclasses
+// =============================================================================
+
+/**
+ * A successful response had a body that is not valid JSON, e.g. an HTML page
+ * from a proxy. Not retried: the request may have been processed.
+ */
+export class DripResponseParseError extends DripError {
+  /** Start of the unparseable body, for debugging */
+  readonly bodySnippet: string;
+
+  constructor(statusCode: number, body: string, options: DripErrorOptions = {}) {
+    super('Response body is not valid JSON', statusCode, 'INVALID_RESPONSE', options);
+    this.name = 'DripResponseParseError';
+    this.bodySnippet = body.slice(0, 200);
+    Object.setPrototypeOf(this, DripResponseParseError.prototype);
+  }
+}
+
+// =============================================================================
+// Transport Error Subclasses
+// =============================================================================
+
+/**
+ * The request did not complete within the configured timeout.
+ */
+export class DripTimeoutError extends DripError {
+  /** The timeout that elapsed, in ms */
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, message = 'Request timed out', options: DripErrorOptions = {}) {
+    super(message, 408, 'TIMEOUT', options);
+    this.name = 'DripTimeoutError';
+    this.timeoutMs = timeoutMs;
+    Object.setPrototypeOf(this, DripTimeoutError.prototype);
+  }
+}
+
+/**
+ * No response was received (DNS failure, connection refused/reset, TLS error).
+ */
+export class DripNetworkError extends DripError {
+  constructor(message: string, options: DripErrorOptions = {}) {
+    super(message, 0, 'NETWORK_ERROR', options);
+    this.name = 'DripNetworkError';
+    Object.setPrototypeOf(this, DripNetworkError.prototype);
+  }
+}
+
+// =============================================================================
+// Error Factory
+// =============================================================================
+
+/**
+ * Parse a `Retry-After` value (delta-seconds or HTTP-date) into milliseconds.
+ *
+ * @returns Milliseconds to wait, or null if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | number | undefined | null): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const seconds = typeof value === 'number' ? value : Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string' && value !== '') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Extract validation issues from common API error body shapes:
+ * `issues: [{ path, message }]`, `errors: [{ field, message }]`,
+ * and `details.fieldErrors: { field: [message] }`.
+ */
+function parseValidationIssues(data: Record<string, unknown>): DripValidationIssue[] {
+  const list = Array.isArray(data.issues) ? data.issues : Array.isArray(data.errors) ? data.errors : null;
+
+  if (list) {
+    return list
+      .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+      .map((item) => {
+        const path = item.path ?? item.field ?? '';
+        return {
+          field: Array.isArray(path) ? path.join('.') : String(path),
+          message: asString(item.message) ?? 'Invalid value',
+          code: asString(item.code),
+        };
+      });
+  }
+
+  const details = data.details as { fieldErrors?: Record<string, unknown> } | undefined;
+  if (details && typeof details.fieldErrors === 'object' && details.fieldErrors !== null) {
+    const issues: DripValidationIssue[] = [];
+    for (const [field, messages] of Object.entries(details.fieldErrors)) {
+      for (const message of Array.isArray(messages) ? messages : [messages]) {
+        issues.push({ field, message: String(message) });
+      }
+    }
+    return issues;
+  }
+
+  return [];
+}
+
+/**
+ * Extract insufficient balance details from the response body, falling back
+ * to an `amount: X` pattern in the message for older API versions.
+ */
+function parseInsufficientBalance(
+  data: Record<string, unknown>,
+  message: string,
+): InsufficientBalanceDetails {
+  const details = (typeof data.details === 'object' && data.details !== null
+    ? data.details
+    : {}) as Record<string, unknown>;
+
+  let requiredAmount = asString(data.required ?? data.requiredAmount ?? data.amount)
+    ?? asString(details.required ?? details.requiredAmount ?? details.amount);
+  let requiredAmountSource: InsufficientBalanceDetails['requiredAmountSource'] =
+    requiredAmount === undefined ? undefined : 'body';
+
+  if (requiredAmount === undefined) {
+    const match = message.match(/amount[:\s]+([0-9.]+)/i);
+    if (match) {
+      requiredAmount = match[1];
+      requiredAmountSource = 'message';
+    }
+  }
+
+  return {
+    requiredAmount,
+    requiredAmountSource,
+    availableBalance: asString(data.balance ?? data.availableUsdc ?? details.balance ?? details.availableUsdc),
+    shortfall: asString(data.shortfall ?? details.shortfall),
+  };
+}
+
+/**
+ * Build the most specific DripError for a non-2xx API response.
+ *
+ * @param status - HTTP status code
+ * @param body - Parsed JSON response body
+ * @param headers - Response headers with lower-cased names
+ * @internal
+ */
+export function createDripErrorFromResponse(
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): DripError {
+  const data = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const message = asString(data.message) ?? asString(data.error) ?? 'Request failed';
+  const code = asString(data.code);
+  const options: DripErrorOptions = {
+    requestId: headers['x-request-id'] ?? headers['request-id'] ?? asString(data.requestId),
+  };
+
+  switch (status) {
+    case 400:
+    case 422:
+      return new DripValidationError(message, parseValidationIssues(data), status, code, options);
+    case 401:
+      return new DripAuthenticationError(message, code, options);
+    case 402:
+      return new DripInsufficientBalanceError(message, parseInsufficientBalance(data, message), code, options);
+    case 403:
+      return new DripPermissionError(message, code, options);
+    case 429:
+      return new DripRateLimitError(
+        message,
+        parseRetryAfter(headers['retry-after'] ?? (data.retryAfter as string | number | undefined)),
+        code,
+        options,
+      );
+    default:
+      return new DripError(message, status, code, options);
+  }
+}
+
+/**
+ * Convert an error thrown by a transport into a DripError.
+ *
+ * @param error - The thrown value
+ * @param timeoutMs - The configured request timeout
+ * @internal
+ */
+export function toDripError(error: unknown, timeoutMs: number): DripError {
+  if (error instanceof DripError) {
+    return error;
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new DripTimeoutError(timeoutMs, 'Request timed out', { cause: error });
+  }
+  return new DripNetworkError(
+    error instanceof Error ? error.message : 'Unknown error',
+    { cause: error },
+  );
+}
@@ -31,6 +31,7 @@ export {
   hasPaymentProofHeaders,
   hasDripContext,
   getDripContext,
+  dripWebhookHandler,
 } from './middleware/express.js';
 
 export type {
@@ -40,20 +41,43 @@ export type {
   ExpressMiddleware,
   DripExpressRequest,
   ExpressDripConfig,
+  ExpressDripRoute,
+  ExpressDripRoutesConfig,
+  ExpressWebhookRequest,
 } from './middleware/express.js';
 
 // Re-export shared types
 export type {
   WithDripConfig,
+  ChargeTiming,
+  RequireBalanceOptions,
   DripContext,
   X402PaymentProof,
   X402PaymentRequest,
+  PaymentProofVerifier,
+  PaymentVerificationContext,
+  PaymentNonceStore,
+  IssuedPaymentRequest,
 } from './middleware/types.js';
 
 export { DripMiddlewareError } from './middleware/types.js';
+export { MemoryPaymentNonceStore } from './middleware/x402.js';
+
+// Re-export webhook receiver types
+export type {
+  DripWebhookHandlerConfig,
+  WebhookEventHandlers,
+} from './middleware/webhooks.js';
 
 // Re-export core SDK for convenience
-export { Drip, DripError } from './index.js';
+export {
+  Drip,
+  DripError,
+  WebhookSignatureError,
+  WebhookReplayGuard,
+  MemoryWebhookReplayStore,
+  RedisWebhookReplayStore,
+} from './index.js';
 
 export type {
   DripConfig,
@@ -61,4 +85,6 @@ export type {
   ChargeParams,
   ChargeResult,
   ChargeStatus,
+  WebhookEvent,
+  WebhookEventType,
 } from './index.js';
@@ -0,0 +1,74 @@
+/**
+ * Drip SDK - Fastify Adapter
+ *
+ * Plugin for Fastify applications.
+ *
+ * @example
+ * ```typescript
+ * import Fastify from 'fastify';
+ * import { dripPlugin } from '@drip-sdk/node/fastify';
+ *
+ * const app = Fastify();
+ * await app.register(dripPlugin);
+ *
+ * app.post('/api/paid/generate', {
+ *   config: { drip: { meter: 'api_calls', quantity: 1 } },
+ * }, async (request) => {
+ *   console.log(`Charged: ${request.drip.charge.charge.amountUsdc} USDC`);
+ *   return { success: true };
+ * });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// Re-export Fastify specific
+export {
+  dripPlugin,
+  hasPaymentProofHeaders,
+  hasDripContext,
+  getDripContext,
+} from './middleware/fastify.js';
+
+export type {
+  FastifyRequest,
+  FastifyReply,
+  FastifyHook,
+  FastifyPayloadHook,
+  FastifyInstance,
+  DripFastifyRequest,
+  FastifyDripConfig,
+  FastifyDripPluginOptions,
+  FastifyDripRouteConfig,
+} from './middleware/fastify.js';
+
+// Re-export shared types
+export type {
+  WithDripConfig,
+  ChargeTiming,
+  RequireBalanceOptions,
+  DripContext,
+  X402PaymentProof,
+  X402PaymentRequest,
+  PaymentProofVerifier,
+  PaymentVerificationContext,
+  PaymentNonceStore,
+  IssuedPaymentRequest,
+} from './middleware/types.js';
+
+export { DripMiddlewareError } from './middleware/types.js';
+export { MemoryPaymentNonceStore } from './middleware/x402.js';
+
+// Re-export core SDK for convenience
+export {
+  Drip,
+  DripError,
+} from './index.js';
+
+export type {
+  DripConfig,
+  Customer,
+  ChargeParams,
+  ChargeResult,
+  ChargeStatus,
+} from './index.js';
@@ -0,0 +1,77 @@
+/**
+ * Drip SDK - GraphQL Adapter
+ *
+ * Plugins for GraphQL Yoga (and other envelop-based servers) and Apollo
+ * Server that bill per operation and per field. Requires `graphql`.
+ *
+ * @example
+ * ```typescript
+ * import { createYoga } from 'graphql-yoga';
+ * import { useDrip } from '@drip-sdk/node/graphql';
+ *
+ * const yoga = createYoga({
+ *   schema,
+ *   plugins: [useDrip({
+ *     meter: 'api_calls',
+ *     fields: {
+ *       'Query.search': 1,
+ *       'Query.generate': 50,
+ *     },
+ *   })],
+ * });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// Re-export GraphQL specific
+export {
+  useDrip,
+  dripApolloPlugin,
+  getDripContext,
+} from './middleware/graphql.js';
+
+export type {
+  EnvelopPlugin,
+  EnvelopExecutePayload,
+  EnvelopExecuteDonePayload,
+  ApolloPlugin,
+  ApolloRequestContext,
+  ApolloFieldResolverParams,
+  GraphQLDripConfig,
+} from './middleware/graphql.js';
+
+export type {
+  OperationCost,
+  OperationDripConfig,
+} from './middleware/operations.js';
+
+// Re-export shared types
+export type {
+  WithDripConfig,
+  RequireBalanceOptions,
+  DripContext,
+  X402PaymentProof,
+  X402PaymentRequest,
+  PaymentProofVerifier,
+  PaymentVerificationContext,
+  PaymentNonceStore,
+  IssuedPaymentRequest,
+} from './middleware/types.js';
+
+export { DripMiddlewareError } from './middleware/types.js';
+export { MemoryPaymentNonceStore } from './middleware/x402.js';
+
+// Re-export core SDK for convenience
+export {
+  Drip,
+  DripError,
+} from './index.js';
+
+export type {
+  DripConfig,
+  Customer,
+  ChargeParams,
+  ChargeResult,
+  ChargeStatus,
+} from './index.js';
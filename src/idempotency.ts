@@ -11,7 +11,7 @@
  *
  * @internal
  */
-import { createHash } from 'crypto';
+import { sha256Hex } from './runtime.js';
 
 let _callCounter = 0;
 
@@ -29,7 +29,7 @@ export function deterministicIdempotencyKey(
   const seq = ++_callCounter;
   const parts = components.filter((c) => c !== undefined).map(String);
   parts.push(String(seq));
-  const hash = createHash('sha256').update(parts.join('|')).digest('hex').slice(0, 24);
+  const hash = sha256Hex(parts.join('|')).slice(0, 24);
   return `${prefix}_${hash}`;
 }
 
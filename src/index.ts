@@ -8,6 +8,7 @@
  * @packageDocumentation
  */
 
+import { AsyncLocalStorage, sha256Hex } from './runtime.js';
 import { StreamMeter, type StreamMeterOptions } from './stream-meter.js';
 import { deterministicIdempotencyKey } from './idempotency.js';
 import {
@@ -19,6 +20,39 @@ import {
   createDisabledResilienceConfig,
   createHighThroughputResilienceConfig,
 } from './resilience.js';
+import { fetchTransport, type DripTransport } from './transport.js';
+import { InterceptorChain, type DripInterceptorConfig, type DripRequestContext } from './interceptors.js';
+import { RequestBatcher, type BatchingConfig, type BatchItemOutcome } from './batching.js';
+import type { ShutdownOptions, ShutdownReport, UnflushedMeter } from './shutdown.js';
+import { paginateByCursor, paginateByOffset, type PaginationOptions } from './pagination.js';
+import {
+  Outbox,
+  isTransientFailure,
+  type OutboxConfig,
+  type OutboxEntry,
+  type OutboxEntryKind,
+} from './outbox.js';
+import {
+  checkWebhookSignature,
+  checkWebhookSignatureSync,
+  constructWebhookEvent,
+  signWebhookPayload,
+  toVerifyOptions,
+  type WebhookEvent,
+  type WebhookVerificationResult,
+  type WebhookVerifyOptions,
+} from './webhooks.js';
+import type { WebhookReplayGuard } from './webhook-replay.js';
+import {
+  DripChargeFailedError,
+  DripError,
+  DripNetworkError,
+  DripPermissionError,
+  DripResponseParseError,
+  DripTimeoutError,
+  createDripErrorFromResponse,
+  toDripError,
+} from './errors.js';
 
 // ============================================================================
 // Retry Utility
@@ -66,21 +100,40 @@ export interface RetryOptions {
  * Default function to determine if an error is retryable.
  */
 function defaultIsRetryable(error: unknown): boolean {
-  // Retry on network errors
-  if (error instanceof Error) {
-    if (error.message.includes('fetch') || error.message.includes('network')) {
-      return true;
-    }
+  // Retry when no response was received
+  if (error instanceof DripNetworkError || error instanceof DripTimeoutError) {
+    return true;
   }
 
-  // Retry on 5xx errors and timeouts
+  // Retry on 5xx errors and rate limits
   if (error instanceof DripError) {
-    return error.statusCode >= 500 || error.statusCode === 408 || error.statusCode === 429;
+    return error.statusCode >= 500 || error.statusCode === 429;
   }
 
   return false;
 }
 
+/**
+ * Charge statuses after which a charge will not change again.
+ */
+const TERMINAL_CHARGE_STATUSES: readonly ChargeStatus[] = ['CONFIRMED', 'FAILED', 'REFUNDED'];
+
+/**
+ * Sleeps for `ms`, resolving early if `signal` aborts.
+ */
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
 /**
  * Executes a function with exponential backoff retry.
  * @internal
@@ -132,7 +185,7 @@ async function retryWithBackoff<T>(
  * - `DRIP_API_KEY` - Your Drip API key
  * - `DRIP_BASE_URL` - Override API base URL (optional)
  */
-export interface DripConfig {
+export interface DripConfig extends DripInterceptorConfig {
   /**
    * Your Drip API key. Obtain this from the Drip dashboard.
    * Falls back to `DRIP_API_KEY` environment variable if not provided.
@@ -190,6 +243,80 @@ export interface DripConfig {
    * ```
    */
   resilience?: boolean | 'high-throughput' | Partial<ResilienceConfig>;
+
+  /**
+   * Custom HTTP transport used for every API call.
+   *
+   * Receives a normalized request (method, URL, path, headers, body, abort signal)
+   * and returns a normalized response. Defaults to the global `fetch`.
+   * Use this to route billing traffic through a proxy, a keep-alive agent,
+   * mTLS, or a recording transport in tests.
+   *
+   * @example
+   * ```typescript
+   * const drip = new Drip({
+   *   apiKey: '...',
+   *   transport: createFetchTransport(myProxiedFetch),
+   * });
+   * ```
+   */
+  transport?: DripTransport;
+
+  /**
+   * Store `charge()`, `trackUsage()` and `emitEvent()` requests in a durable
+   * outbox when the API is unreachable, and replay them in the background once
+   * it recovers. Calls that were stored resolve with `queued: true`.
+   *
+   * - `true`: In-memory outbox with default settings
+   * - `OutboxConfig`: Custom storage (e.g. `FileOutboxStorage`) and retry settings
+   * - `undefined`/`false`: Disabled (default) - failures are thrown
+   *
+   * @example
+   * ```typescript
+   * const drip = new Drip({
+   *   apiKey: '...',
+   *   outbox: { storage: new FileOutboxStorage('./.drip/outbox.json') },
+   * });
+   * ```
+   */
+  outbox?: boolean | OutboxConfig;
+
+  /**
+   * Coalesce `charge()` and `trackUsage()` calls into batch requests
+   * (`POST /usage/batch` and `POST /usage/internal/batch`). Each caller's
+   * promise still resolves with its own result.
+   *
+   * - `true`: Batch with defaults (up to 100 items, 50ms window)
+   * - `BatchingConfig`: Custom `maxBatchSize` / `maxWaitMs`
+   * - `undefined`/`false`: Disabled (default) - one request per call
+   *
+   * Call `flushBatches()` before the process exits.
+   *
+   * @example
+   * ```typescript
+   * const drip = new Drip({ apiKey: '...', batching: { maxBatchSize: 500, maxWaitMs: 20 } });
+   * ```
+   */
+  batching?: boolean | BatchingConfig;
+}
+
+/**
+ * Per-item result in a usage batch response. Failed items carry an error
+ * message and the status code the item would have received on its own.
+ * @internal
+ */
+type UsageBatchItemResult<T> =
+  | (T & { error?: undefined })
+  | { success: false; error: string; code?: string; statusCode?: number };
+
+/**
+ * Options for an internal API request.
+ * @internal
+ */
+interface RequestOptions {
+  method?: string;
+  body?: string;
+  headers?: Record<string, string>;
 }
 
 // ============================================================================
@@ -272,6 +399,13 @@ export interface ListCustomersOptions {
    * Filter by customer status.
    */
   status?: 'ACTIVE' | 'LOW_BALANCE' | 'PAUSED';
+
+  /**
+   * Number of customers to skip (for pagination). Servers that don't support
+   * it return the first page again, and `customers.iterate()` stops there.
+   * @default 0
+   */
+  offset?: number;
 }
 
 /**
@@ -345,6 +479,47 @@ export interface ChargeParams {
    * Additional metadata to attach to this usage event.
    */
   metadata?: Record<string, unknown>;
+
+  /**
+   * Wait for the charge to settle before resolving (see `waitForCharge()`).
+   * Pass options to control the timeout and polling interval.
+   * Throws `DripChargeFailedError` if the charge fails, including when the
+   * API reports it failed straight away.
+   *
+   * A charge stored in the outbox (`queued: true`) is not waited for: it
+   * resolves with `success: false` and placeholder charge details, and settles
+   * after the outbox delivers it.
+   * @default false
+   */
+  waitForConfirmation?: boolean | WaitForChargeOptions;
+}
+
+/**
+ * Options for `waitForCharge()`.
+ */
+export interface WaitForChargeOptions {
+  /**
+   * Maximum time to wait for settlement, in ms.
+   * @default 60000
+   */
+  timeoutMs?: number;
+
+  /**
+   * Delay before the first status poll, in ms. Grows by 1.5x per poll.
+   * @default 1000
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Upper bound for the delay between polls, in ms.
+   * @default 10000
+   */
+  maxPollIntervalMs?: number;
+
+  /**
+   * Abort signal to stop waiting early.
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -376,7 +551,17 @@ export interface ChargeResult {
 
     /** Current status of the charge */
     status: ChargeStatus;
+
+    /** Block number, set once the charge is confirmed (when `waitForConfirmation` is used) */
+    blockNumber?: string | null;
   };
+
+  /**
+   * True if the API was unavailable and the request was stored in the outbox
+   * for later delivery. `success` is false and the charge details are
+   * placeholders in that case, even with `waitForConfirmation`.
+   */
+  queued?: boolean;
 }
 
 /**
@@ -455,6 +640,12 @@ export interface TrackUsageResult {
 
   /** Confirmation message */
   message: string;
+
+  /**
+   * True if the API was unavailable and the request was stored in the outbox
+   * for later delivery.
+   */
+  queued?: boolean;
 }
 
 /**
@@ -548,6 +739,61 @@ export interface ListChargesResponse {
   count: number;
 }
 
+// ============================================================================
+// Pagination Types
+// ============================================================================
+
+/**
+ * Options for `drip.charges.iterate()`.
+ */
+export interface IterateChargesOptions extends Omit<ListChargesOptions, 'limit'>, PaginationOptions {}
+
+/**
+ * Options for `drip.customers.iterate()`.
+ */
+export interface IterateCustomersOptions extends Omit<ListCustomersOptions, 'limit'>, PaginationOptions {}
+
+/**
+ * Options for `drip.runs.iterateTimeline()`.
+ */
+export interface IterateTimelineOptions extends PaginationOptions {
+  /** Include anomalies in each timeline page */
+  includeAnomalies?: boolean;
+
+  /** Collapse retried events into their final attempt */
+  collapseRetries?: boolean;
+}
+
+/**
+ * Charge helpers available as `drip.charges`.
+ */
+export interface ChargesNamespace {
+  /**
+   * Iterate over every matching charge, fetching pages on demand.
+   */
+  iterate(options?: IterateChargesOptions): AsyncIterable<Charge>;
+}
+
+/**
+ * Customer helpers available as `drip.customers`.
+ */
+export interface CustomersNamespace {
+  /**
+   * Iterate over every matching customer, fetching pages on demand.
+   */
+  iterate(options?: IterateCustomersOptions): AsyncIterable<Customer>;
+}
+
+/**
+ * Run helpers available as `drip.runs`.
+ */
+export interface RunsNamespace {
+  /**
+   * Iterate over every event in a run's timeline, following `nextCursor`.
+   */
+  iterateTimeline(runId: string, options?: IterateTimelineOptions): AsyncIterable<RunTimelineEvent>;
+}
+
 // ============================================================================
 // Webhook Types
 // ============================================================================
@@ -888,6 +1134,12 @@ export interface EventResult {
   costUnits: number | null;
   isDuplicate: boolean;
   timestamp: string;
+
+  /**
+   * True if the API was unavailable and the event was stored in the outbox
+   * for later delivery.
+   */
+  queued?: boolean;
 }
 
 // ============================================================================
@@ -1204,6 +1456,11 @@ export interface RunTimeline {
   nextCursor: string | null;
 }
 
+/**
+ * A single event in a run timeline.
+ */
+export type RunTimelineEvent = RunTimeline['events'][number];
+
 /**
  * Run details response from GET /runs/:id.
  */
@@ -1302,31 +1559,6 @@ export interface WrapApiCallResult<T> {
   idempotencyKey: string;
 }
 
-// ============================================================================
-// Error Types
-// ============================================================================
-
-/**
- * Error thrown by Drip SDK operations.
- */
-export class DripError extends Error {
-  /**
-   * Creates a new DripError.
-   * @param message - Human-readable error message
-   * @param statusCode - HTTP status code from the API
-   * @param code - Machine-readable error code
-   */
-  constructor(
-    message: string,
-    public statusCode: number,
-    public code?: string,
-  ) {
-    super(message);
-    this.name = 'DripError';
-    Object.setPrototypeOf(this, DripError.prototype);
-  }
-}
-
 // ============================================================================
 // Main SDK Class
 // ============================================================================
@@ -1363,6 +1595,60 @@ export class Drip {
   private readonly baseUrl: string;
   private readonly timeout: number;
   private readonly resilience: ResilienceManager | null;
+  private readonly transport: DripTransport;
+  private readonly interceptors: InterceptorChain;
+  private readonly batchers: Partial<Record<OutboxEntryKind, RequestBatcher<Record<string, unknown>, unknown>>>;
+
+  // Graceful shutdown state
+  private readonly inFlight = new Set<Promise<unknown>>();
+  private readonly streamMeters = new Set<{ ref: WeakRef<StreamMeter>; customerId: string; meter: string }>();
+  // Marks requests made on behalf of work accepted before shutdown (batches, outbox, drain)
+  private readonly internalWork = new AsyncLocalStorage<true>();
+  // Failures of background work, most recent last, for the shutdown report
+  private readonly backgroundErrors: Error[] = [];
+  private shutdownPromise: Promise<ShutdownReport> | null = null;
+
+  /**
+   * Auto-paginating charge helpers.
+   *
+   * @example
+   * ```typescript
+   * for await (const charge of drip.charges.iterate({ customerId: 'cust_123' })) {
+   *   console.log(charge.id, charge.amountUsdc);
+   * }
+   * ```
+   */
+  readonly charges: ChargesNamespace;
+
+  /**
+   * Auto-paginating customer helpers.
+   *
+   * @example
+   * ```typescript
+   * for await (const customer of drip.customers.iterate({ status: 'LOW_BALANCE' })) {
+   *   await notifyLowBalance(customer);
+   * }
+   * ```
+   */
+  readonly customers: CustomersNamespace;
+
+  /**
+   * Auto-paginating run helpers.
+   *
+   * @example
+   * ```typescript
+   * for await (const event of drip.runs.iterateTimeline(runId)) {
+   *   console.log(event.eventType, event.outcome);
+   * }
+   * ```
+   */
+  readonly runs: RunsNamespace;
+
+  /**
+   * Durable outbox for requests that could not be delivered
+   * (null unless `outbox` is enabled in the config).
+   */
+  readonly outbox: Outbox | null;
 
   /**
    * The type of API key being used.
@@ -1413,6 +1699,8 @@ export class Drip {
     this.apiKey = apiKey;
     this.baseUrl = baseUrl || 'https://drip-app-hlunj.ondigitalocean.app/v1';
     this.timeout = config.timeout || 30000;
+    this.transport = config.transport ?? fetchTransport;
+    this.interceptors = new InterceptorChain(config);
 
     // Detect key type from prefix
     if (apiKey.startsWith('sk_')) {
@@ -1433,6 +1721,58 @@ export class Drip {
     } else {
       this.resilience = null;
     }
+
+    // Setup outbox
+    if (config.outbox) {
+      this.outbox = new Outbox(
+        (entry) => this.internalWork.run(true, () =>
+          this.request(entry.path, { method: 'POST', body: entry.body })),
+        () => this.resilience?.circuitBreaker.getState() !== 'open',
+        config.outbox === true ? {} : config.outbox,
+      );
+    } else {
+      this.outbox = null;
+    }
+
+    // Setup pagination helpers (list endpoints cap pages at 100 items)
+    this.charges = {
+      iterate: ({ pageSize, maxItems, offset, ...filters } = {}) =>
+        paginateByOffset(
+          (pageOffset, limit) => this.listCharges({ ...filters, limit, offset: pageOffset }),
+          { pageSize: Math.min(pageSize ?? 100, 100), maxItems, offset },
+        ),
+    };
+    this.customers = {
+      iterate: ({ pageSize, maxItems, offset, ...filters } = {}) =>
+        paginateByOffset(
+          (pageOffset, limit) => this.listCustomers({ ...filters, limit, offset: pageOffset }),
+          { pageSize: Math.min(pageSize ?? 100, 100), maxItems, offset },
+        ),
+    };
+    this.runs = {
+      iterateTimeline: (runId, { pageSize, maxItems, ...filters } = {}) =>
+        paginateByCursor(
+          async (cursor, limit) => {
+            const timeline = await this.getRunTimeline(runId, { ...filters, limit, cursor });
+            return { items: timeline.events, nextCursor: timeline.nextCursor, hasMore: timeline.hasMore };
+          },
+          { pageSize, maxItems },
+        ),
+    };
+
+    // Setup usage batching
+    this.batchers = {};
+    if (config.batching) {
+      const batchingConfig = config.batching === true ? {} : config.batching;
+      this.batchers.charge = new RequestBatcher(
+        (items) => this.sendUsageBatch('/usage/batch', items),
+        batchingConfig,
+      );
+      this.batchers.trackUsage = new RequestBatcher(
+        (items) => this.sendUsageBatch('/usage/internal/batch', items),
+        batchingConfig,
+      );
+    }
   }
 
   /**
@@ -1442,10 +1782,9 @@ export class Drip {
    */
   private assertSecretKey(operation: string): void {
     if (this.keyType === 'public') {
-      throw new DripError(
+      throw new DripPermissionError(
         `${operation} requires a secret key (sk_). You are using a public key (pk_), which cannot access this endpoint. ` +
         `Use a secret key for webhook, API key, and feature flag management.`,
-        403,
         'PUBLIC_KEY_NOT_ALLOWED',
       );
     }
@@ -1457,73 +1796,221 @@ export class Drip {
    */
   private async request<T>(
     path: string,
-    options: RequestInit = {},
+    options: RequestOptions = {},
   ): Promise<T> {
+    this.assertAcceptingWork();
+
     // Extract method for metrics
     const method = (options.method ?? 'GET').toUpperCase();
 
     // Use resilience manager if enabled
     if (this.resilience) {
-      return this.resilience.execute(
-        () => this.rawRequest<T>(path, options),
+      return this.trackInFlight(this.resilience.execute(
+        (retryCount) => this.rawRequest<T>(path, options, retryCount),
         method,
         path
+      ));
+    }
+
+    return this.trackInFlight(this.rawRequest<T>(path, options));
+  }
+
+  /**
+   * Throws once `shutdown()` has been called, except for work started by the
+   * shutdown itself (meter, batch and outbox flushes).
+   * @internal
+   */
+  private assertAcceptingWork(): void {
+    if (this.shutdownPromise && !this.internalWork.getStore()) {
+      throw new DripError('Drip client is shut down and no longer accepts requests', 0, 'CLIENT_SHUTDOWN');
+    }
+  }
+
+  /**
+   * Registers a promise as outstanding work until it settles.
+   * @internal
+   */
+  private trackInFlight<T>(promise: Promise<T>): Promise<T> {
+    this.inFlight.add(promise);
+    const remove = () => this.inFlight.delete(promise);
+    promise.then(remove, remove);
+    return promise;
+  }
+
+  /**
+   * Makes a POST request, storing it in the outbox instead of throwing if the
+   * API is unavailable and the outbox is enabled.
+   * @internal
+   */
+  private async requestOrQueue<T>(
+    kind: OutboxEntryKind,
+    path: string,
+    body: Record<string, unknown> & { idempotencyKey: string },
+    queuedResult: (entry: OutboxEntry) => T,
+  ): Promise<T> {
+    this.assertAcceptingWork();
+    return this.trackInFlight(this.sendOrQueue(kind, path, body, queuedResult));
+  }
+
+  /**
+   * Sends (or batches) a request and falls back to the outbox on transient failure.
+   * @internal
+   */
+  private async sendOrQueue<T>(
+    kind: OutboxEntryKind,
+    path: string,
+    body: Record<string, unknown> & { idempotencyKey: string },
+    queuedResult: (entry: OutboxEntry) => T,
+  ): Promise<T> {
+    const serialized = JSON.stringify(body);
+    const batcher = this.batchers[kind];
+
+    try {
+      return batcher
+        ? (await batcher.add(body)) as T
+        : await this.request<T>(path, { method: 'POST', body: serialized });
+    } catch (error) {
+      if (!this.outbox || !isTransientFailure(error)) {
+        throw error;
+      }
+      const entry = await this.outbox.enqueue(
+        { kind, path, body: serialized, idempotencyKey: body.idempotencyKey },
+        error,
       );
+      return queuedResult(entry);
     }
+  }
+
+  /**
+   * Sends a batch of usage records and splits the response into per-item outcomes.
+   * @internal
+   */
+  private async sendUsageBatch(
+    path: string,
+    items: Array<Record<string, unknown>>,
+  ): Promise<Array<BatchItemOutcome<unknown>>> {
+    const response = await this.internalWork.run(true, () =>
+      this.request<{ results: Array<UsageBatchItemResult<unknown>> }>(path, {
+        method: 'POST',
+        body: JSON.stringify({ items }),
+      }));
 
-    return this.rawRequest<T>(path, options);
+    return items.map((_, i) => {
+      const result = response.results?.[i];
+      if (result === undefined) {
+        return { ok: false, error: new DripError('Batch response is missing this item', 0, 'BATCH_RESULT_MISSING') };
+      }
+      if (typeof result.error === 'string') {
+        return { ok: false, error: createDripErrorFromResponse(result.statusCode ?? 400, result) };
+      }
+      return { ok: true, value: result };
+    });
   }
 
   /**
-   * Execute the actual HTTP request (internal).
+   * Execute the actual HTTP request, running interceptors around the transport.
    * @internal
    */
   private async rawRequest<T>(
     path: string,
-    options: RequestInit = {},
+    options: RequestOptions = {},
+    retryCount = 0,
   ): Promise<T> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    // Interceptors see the parsed body; skip the parse when none are registered
+    const intercepted = this.interceptors.hasInterceptors;
+    let request: DripRequestContext = {
+      method: (options.method ?? 'GET').toUpperCase(),
+      path,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+        ...options.headers,
+      },
+      body: intercepted && options.body !== undefined ? JSON.parse(options.body) : undefined,
+      retryCount,
+    };
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let start = Date.now();
+    let status: number | null = null;
 
     try {
-      const res = await fetch(`${this.baseUrl}${path}`, {
-        ...options,
+      try {
+        request = await this.interceptors.runRequest(request);
+      } catch (error) {
+        // Not a transport failure: don't let it be retried or queued
+        throw error instanceof DripError
+          ? error
+          : new DripError(
+            error instanceof Error ? error.message : 'Request interceptor failed',
+            0,
+            'INTERCEPTOR_ERROR',
+            { cause: error },
+          );
+      }
+
+      const controller = new AbortController();
+      timeoutId = setTimeout(() => controller.abort(), this.timeout);
+      start = Date.now();
+
+      const res = await this.transport({
+        method: request.method,
+        url: `${this.baseUrl}${request.path}`,
+        path: request.path,
+        headers: request.headers,
+        body: intercepted
+          ? (request.body !== undefined ? JSON.stringify(request.body) : undefined)
+          : options.body,
         signal: controller.signal,
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.apiKey}`,
-          ...options.headers,
-        },
       });
+      status = res.status;
+      this.resilience?.observeResponse(res.headers);
+
+      if (res.status < 200 || res.status >= 300) {
+        let errorBody: unknown = {};
+        try {
+          errorBody = JSON.parse(res.body);
+        } catch {
+          // Non-JSON error page (e.g. from a proxy) - fall back to the status code
+        }
+        throw createDripErrorFromResponse(res.status, errorBody, res.headers);
+      }
 
       // Handle 204 No Content
-      if (res.status === 204) {
-        return { success: true } as T;
+      let data: unknown = { success: true };
+      if (res.status !== 204) {
+        try {
+          data = JSON.parse(res.body);
+        } catch (error) {
+          throw new DripResponseParseError(res.status, res.body, {
+            requestId: res.headers['x-request-id'] ?? res.headers['request-id'],
+            cause: error,
+          });
+        }
       }
 
-      const data = await res.json();
-
-      if (!res.ok) {
-        throw new DripError(
-          data.message || data.error || 'Request failed',
-          res.status,
-          data.code,
-        );
-      }
+      const response = await this.interceptors.runResponse({
+        request,
+        status: res.status,
+        headers: res.headers,
+        body: data,
+        latencyMs: Date.now() - start,
+        retryCount,
+      });
 
-      return data as T;
+      return response.body as T;
     } catch (error) {
-      if (error instanceof DripError) {
-        throw error;
-      }
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new DripError('Request timed out', 408, 'TIMEOUT');
-      }
-      throw new DripError(
-        error instanceof Error ? error.message : 'Unknown error',
-        0,
-        'UNKNOWN',
-      );
+      const dripError = toDripError(error, this.timeout);
+
+      await this.interceptors.runError({
+        request,
+        error: dripError,
+        status,
+        latencyMs: Date.now() - start,
+        retryCount,
+      });
+
+      throw dripError;
     } finally {
       clearTimeout(timeoutId);
     }
@@ -1563,20 +2050,24 @@ export class Drip {
     const start = Date.now();
 
     try {
-      const response = await fetch(`${healthBaseUrl}/health`, {
-        signal: controller.signal,
+      const response = await this.transport({
+        method: 'GET',
+        url: `${healthBaseUrl}/health`,
+        path: '/health',
         headers: {
           Authorization: `Bearer ${this.apiKey}`,
         },
+        signal: controller.signal,
       });
       const latencyMs = Date.now() - start;
+      const responseOk = response.status >= 200 && response.status < 300;
 
       // Try to parse JSON, but handle non-JSON responses gracefully
       let status = 'unknown';
       let timestamp = Date.now();
 
       try {
-        const data = await response.json() as { status?: string; timestamp?: number };
+        const data = JSON.parse(response.body) as { status?: string; timestamp?: number };
         if (typeof data.status === 'string') {
           status = data.status;
         }
@@ -1585,29 +2076,22 @@ export class Drip {
         }
       } catch {
         // Non-JSON response, derive status from HTTP code
-        status = response.ok ? 'healthy' : `error:${response.status}`;
+        status = responseOk ? 'healthy' : `error:${response.status}`;
       }
 
       // For non-OK HTTP responses, set appropriate status
-      if (!response.ok && status === 'unknown') {
+      if (!responseOk && status === 'unknown') {
         status = `error:${response.status}`;
       }
 
       return {
-        ok: response.ok && status === 'healthy',
+        ok: responseOk && status === 'healthy',
         status,
         latencyMs,
         timestamp,
       };
     } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new DripError('Request timed out', 408, 'TIMEOUT');
-      }
-      throw new DripError(
-        error instanceof Error ? error.message : 'Unknown error',
-        0,
-        'UNKNOWN',
-      );
+      throw toDripError(error, this.timeout);
     } finally {
       clearTimeout(timeoutId);
     }
@@ -1735,6 +2219,9 @@ export class Drip {
     if (options?.status) {
       params.set('status', options.status);
     }
+    if (options?.offset) {
+      params.set('offset', options.offset.toString());
+    }
 
     const query = params.toString();
     const path = query ? `/customers?${query}` : '/customers';
@@ -1793,16 +2280,109 @@ export class Drip {
     const idempotencyKey = params.idempotencyKey
       ?? deterministicIdempotencyKey('chg', params.customerId, params.meter, params.quantity);
 
-    return this.request<ChargeResult>('/usage', {
-      method: 'POST',
-      body: JSON.stringify({
+    const result = await this.requestOrQueue<ChargeResult>(
+      'charge',
+      '/usage',
+      {
         customerId: params.customerId,
         usageType: params.meter,
         quantity: params.quantity,
         idempotencyKey,
         metadata: params.metadata,
+      },
+      () => ({
+        success: false,
+        usageEventId: '',
+        isDuplicate: false,
+        queued: true,
+        charge: { id: '', amountUsdc: '0', amountToken: '0', txHash: '', status: 'PENDING' },
       }),
-    });
+    );
+
+    // A charge that already failed goes through waitForCharge too, so it
+    // throws the same DripChargeFailedError (with the failure reason)
+    if (
+      !params.waitForConfirmation
+      || result.queued
+      || (result.charge.status !== 'FAILED' && TERMINAL_CHARGE_STATUSES.includes(result.charge.status))
+    ) {
+      return result;
+    }
+
+    const settled = await this.waitForCharge(
+      result.charge.id,
+      params.waitForConfirmation === true ? {} : params.waitForConfirmation,
+    );
+
+    return {
+      ...result,
+      charge: {
+        ...result.charge,
+        status: settled.status,
+        txHash: settled.txHash ?? result.charge.txHash,
+        blockNumber: settled.blockNumber,
+      },
+    };
+  }
+
+  /**
+   * Waits for a charge to settle by polling its status with backoff.
+   *
+   * Resolves once the charge reaches `CONFIRMED` or `REFUNDED`, with the full
+   * charge including `txHash` and `blockNumber`.
+   *
+   * @param chargeId - The charge ID (from `ChargeResult.charge.id`)
+   * @param options - Timeout, polling interval and abort signal
+   * @returns The settled charge
+   * @throws {DripChargeFailedError} If the charge reaches `FAILED`
+   * @throws {DripTimeoutError} If the charge has not settled within `timeoutMs`
+   * @throws {DripError} With code `ABORTED` if `signal` is aborted
+   *
+   * @example
+   * ```typescript
+   * const result = await drip.charge({ customerId, meter: 'api_calls', quantity: 1 });
+   *
+   * try {
+   *   const charge = await drip.waitForCharge(result.charge.id, { timeoutMs: 30_000 });
+   *   console.log(`Settled in block ${charge.blockNumber}: ${charge.txHash}`);
+   * } catch (error) {
+   *   if (error instanceof DripChargeFailedError) {
+   *     console.error(error.failureReason);
+   *   }
+   * }
+   * ```
+   */
+  async waitForCharge(chargeId: string, options: WaitForChargeOptions = {}): Promise<Charge> {
+    const timeoutMs = options.timeoutMs ?? 60000;
+    const maxPollIntervalMs = options.maxPollIntervalMs ?? 10000;
+    const deadline = Date.now() + timeoutMs;
+    let interval = options.pollIntervalMs ?? 1000;
+
+    while (true) {
+      if (options.signal?.aborted) {
+        throw new DripError(`Stopped waiting for charge ${chargeId}`, 0, 'ABORTED');
+      }
+
+      const { status, failureReason } = await this.getChargeStatus(chargeId);
+
+      if (status === 'FAILED') {
+        throw new DripChargeFailedError(chargeId, failureReason);
+      }
+      if (TERMINAL_CHARGE_STATUSES.includes(status)) {
+        return this.getCharge(chargeId);
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new DripTimeoutError(
+          timeoutMs,
+          `Charge ${chargeId} did not settle within ${timeoutMs}ms (last status: ${status})`,
+        );
+      }
+
+      await abortableSleep(Math.min(interval, remaining), options.signal);
+      interval = Math.min(interval * 1.5, maxPollIntervalMs);
+    }
   }
 
   /**
@@ -1946,9 +2526,10 @@ export class Drip {
     const idempotencyKey = params.idempotencyKey
       ?? deterministicIdempotencyKey('track', params.customerId, params.meter, params.quantity);
 
-    return this.request<TrackUsageResult>('/usage/internal', {
-      method: 'POST',
-      body: JSON.stringify({
+    return this.requestOrQueue<TrackUsageResult>(
+      'trackUsage',
+      '/usage/internal',
+      {
         customerId: params.customerId,
         usageType: params.meter,
         quantity: params.quantity,
@@ -1956,8 +2537,31 @@ export class Drip {
         units: params.units,
         description: params.description,
         metadata: params.metadata,
+      },
+      () => ({
+        success: false,
+        usageEventId: '',
+        customerId: params.customerId,
+        usageType: params.meter,
+        quantity: params.quantity,
+        isInternal: false,
+        message: 'Drip API unavailable; usage stored in the outbox for later delivery',
+        queued: true,
       }),
-    });
+    );
+  }
+
+  /**
+   * Sends any batched `charge()` / `trackUsage()` calls immediately and waits
+   * for them to complete. No-op unless `batching` is enabled.
+   *
+   * @example
+   * ```typescript
+   * process.on('beforeExit', () => drip.flushBatches());
+   * ```
+   */
+  async flushBatches(): Promise<void> {
+    await Promise.all(Object.values(this.batchers).map((batcher) => batcher.flush()));
   }
 
   /**
@@ -2432,10 +3036,21 @@ export class Drip {
     const idempotencyKey = params.idempotencyKey
       ?? deterministicIdempotencyKey('evt', params.runId, params.eventType, params.quantity);
 
-    return this.request<EventResult>('/run-events', {
-      method: 'POST',
-      body: JSON.stringify({ ...params, idempotencyKey }),
-    });
+    return this.requestOrQueue<EventResult>(
+      'emitEvent',
+      '/run-events',
+      { ...params, idempotencyKey },
+      (entry) => ({
+        id: '',
+        runId: params.runId,
+        eventType: params.eventType,
+        quantity: params.quantity ?? 0,
+        costUnits: params.costUnits ?? null,
+        isDuplicate: false,
+        timestamp: new Date(entry.createdAt).toISOString(),
+        queued: true,
+      }),
+    );
   }
 
   /**
@@ -2836,9 +3451,7 @@ export class Drip {
       String(params.sequence ?? 0),
     ];
 
-    const str = components.join('|');
-    const crypto = require('crypto') as typeof import('crypto');
-    const hash = crypto.createHash('sha256').update(str).digest('hex').slice(0, 32);
+    const hash = sha256Hex(components.join('|')).slice(0, 32);
 
     return `drip_${hash}_${params.stepName.slice(0, 16)}`;
   }
@@ -2853,10 +3466,18 @@ export class Drip {
    * Call this when receiving webhook events to ensure they're authentic.
    * This is an async method that uses the Web Crypto API for secure verification.
    *
+   * Pass an array of secrets while rotating with `rotateWebhookSecret()`: any
+   * `v1=` entry in the header may match any secret, and the result says which
+   * secret matched so you can tell when the old one is no longer in use.
+   *
    * @param payload - The raw request body (string)
    * @param signature - The x-drip-signature header value
-   * @param secret - Your webhook secret
-   * @returns Promise resolving to whether the signature is valid
+   * @param secret - Your webhook secret, or an array of active secrets (newest first)
+   * @param options - Maximum signature age in seconds (default 300), or options
+   *   with a `replayGuard` that rejects deliveries already received
+   * @returns Promise resolving to whether the signature is valid, or a
+   *   {@link WebhookVerificationResult} when `secret` is an array or a
+   *   `replayGuard` is given (so a replay can be told apart from a bad signature)
    *
    * @example
    * ```typescript
@@ -2874,98 +3495,71 @@ export class Drip {
    *   // Process the webhook...
    * });
    * ```
+   *
+   * @example
+   * ```typescript
+   * // During secret rotation
+   * const result = await Drip.verifyWebhookSignature(rawBody, header, [newSecret, oldSecret]);
+   * if (result.valid && result.matchedSecretIndex === 1) {
+   *   logger.warn('Webhook still signed with the previous secret');
+   * }
+   * ```
+   *
+   * @example
+   * ```typescript
+   * // Reject replays of a captured delivery
+   * const replayGuard = new WebhookReplayGuard();
+   * const result = await Drip.verifyWebhookSignature(rawBody, header, secret, { replayGuard });
+   * if (result.reason === 'replayed') {
+   *   return res.status(200).send('Already processed');
+   * }
+   * ```
    */
+  static async verifyWebhookSignature(
+    payload: string,
+    signature: string,
+    secret: string | string[],
+    options: WebhookVerifyOptions & { replayGuard: WebhookReplayGuard },
+  ): Promise<WebhookVerificationResult>;
   static async verifyWebhookSignature(
     payload: string,
     signature: string,
     secret: string,
-    tolerance = 300, // 5 minutes default
-  ): Promise<boolean> {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
-
-    try {
-      // Parse signature format: t=timestamp,v1=hexsignature
-      const parts = signature.split(',');
-      const timestampPart = parts.find((p) => p.startsWith('t='));
-      const signaturePart = parts.find((p) => p.startsWith('v1='));
-
-      if (!timestampPart || !signaturePart) {
-        return false;
-      }
-
-      const timestamp = parseInt(timestampPart.slice(2), 10);
-      const providedSignature = signaturePart.slice(3);
-
-      if (isNaN(timestamp)) {
-        return false;
-      }
-
-      // Check timestamp tolerance
-      const now = Math.floor(Date.now() / 1000);
-      if (Math.abs(now - timestamp) > tolerance) {
-        return false;
-      }
-
-      // Compute expected signature using timestamp.payload format
-      const signaturePayload = `${timestamp}.${payload}`;
-      const encoder = new TextEncoder();
-      const keyData = encoder.encode(secret);
-      const payloadData = encoder.encode(signaturePayload);
-
-      // Get the subtle crypto API - use globalThis.crypto for browsers/edge runtimes,
-      // or fall back to Node.js webcrypto for Node.js 18+
-      // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const subtle = globalThis.crypto?.subtle ?? (require('crypto') as typeof import('crypto')).webcrypto.subtle;
-
-      // Import the secret as an HMAC key
-      const cryptoKey = await subtle.importKey(
-        'raw',
-        keyData,
-        { name: 'HMAC', hash: 'SHA-256' },
-        false,
-        ['sign'],
-      );
-
-      // Sign the payload
-      const signatureBuffer = await subtle.sign(
-        'HMAC',
-        cryptoKey,
-        payloadData,
-      );
-
-      // Convert to hex string
-      const expectedSignature = Array.from(new Uint8Array(signatureBuffer))
-        .map((b) => b.toString(16).padStart(2, '0'))
-        .join('');
-
-      // Constant-time comparison to prevent timing attacks
-      if (providedSignature.length !== expectedSignature.length) {
-        return false;
-      }
-
-      let result = 0;
-      for (let i = 0; i < providedSignature.length; i++) {
-        result |= providedSignature.charCodeAt(i) ^ expectedSignature.charCodeAt(i);
-      }
-
-      return result === 0;
-    } catch {
-      return false;
-    }
+    options?: number | WebhookVerifyOptions,
+  ): Promise<boolean>;
+  static async verifyWebhookSignature(
+    payload: string,
+    signature: string,
+    secrets: string[],
+    options?: number | WebhookVerifyOptions,
+  ): Promise<WebhookVerificationResult>;
+  static async verifyWebhookSignature(
+    payload: string,
+    signature: string,
+    secret: string | string[],
+    options: number | WebhookVerifyOptions = 300, // 5 minutes default
+  ): Promise<boolean | WebhookVerificationResult> {
+    const verifyOptions = toVerifyOptions(options);
+    const result = await checkWebhookSignature(payload, signature, secret, verifyOptions);
+    return Array.isArray(secret) || verifyOptions.replayGuard ? result : result.valid;
   }
 
   /**
    * Synchronously verifies a webhook signature using HMAC-SHA256.
    *
-   * This method uses Node.js crypto module and is only available in Node.js environments.
-   * For edge runtimes or browsers, use the async `verifyWebhookSignature` method instead.
+   * This method uses the Node.js crypto module (the edge build computes the
+   * HMAC in JavaScript). For edge runtimes or browsers, prefer the async
+   * `verifyWebhookSignature` method.
+   * Like the async method, it returns a {@link WebhookVerificationResult}
+   * when given an array of secrets or a `replayGuard`.
    *
    * @param payload - The raw request body (string)
    * @param signature - The x-drip-signature header value
-   * @param secret - Your webhook secret
-   * @returns Whether the signature is valid
+   * @param secret - Your webhook secret, or an array of active secrets (newest first)
+   * @param options - Maximum signature age in seconds (default 300), or options
+   *   with a `replayGuard` (which must use a synchronous store here)
+   * @returns Whether the signature is valid, or a result object when `secret`
+   *   is an array or a `replayGuard` is given
    *
    * @example
    * ```typescript
@@ -2984,74 +3578,47 @@ export class Drip {
    * });
    * ```
    */
+  static verifyWebhookSignatureSync(
+    payload: string,
+    signature: string,
+    secret: string | string[],
+    options: WebhookVerifyOptions & { replayGuard: WebhookReplayGuard },
+  ): WebhookVerificationResult;
   static verifyWebhookSignatureSync(
     payload: string,
     signature: string,
     secret: string,
-    tolerance = 300, // 5 minutes default
-  ): boolean {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
-
-    try {
-      // Parse signature format: t=timestamp,v1=hexsignature
-      const parts = signature.split(',');
-      const timestampPart = parts.find((p) => p.startsWith('t='));
-      const signaturePart = parts.find((p) => p.startsWith('v1='));
-
-      if (!timestampPart || !signaturePart) {
-        return false;
-      }
-
-      const timestamp = parseInt(timestampPart.slice(2), 10);
-      const providedSignature = signaturePart.slice(3);
-
-      if (isNaN(timestamp)) {
-        return false;
-      }
-
-      // Check timestamp tolerance
-      const now = Math.floor(Date.now() / 1000);
-      if (Math.abs(now - timestamp) > tolerance) {
-        return false;
-      }
-
-      // Dynamic import to avoid bundling issues in edge runtimes
-      // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const crypto = require('crypto') as typeof import('crypto');
-
-      // Compute expected signature using timestamp.payload format
-      const signaturePayload = `${timestamp}.${payload}`;
-      const expectedSignature = crypto
-        .createHmac('sha256', secret)
-        .update(signaturePayload)
-        .digest('hex');
-
-      // Use timingSafeEqual for constant-time comparison
-      const sigBuffer = Buffer.from(providedSignature);
-      const expectedBuffer = Buffer.from(expectedSignature);
-
-      if (sigBuffer.length !== expectedBuffer.length) {
-        return false;
-      }
-
-      return crypto.timingSafeEqual(sigBuffer, expectedBuffer);
-    } catch {
-      return false;
-    }
+    options?: number | WebhookVerifyOptions,
+  ): boolean;
+  static verifyWebhookSignatureSync(
+    payload: string,
+    signature: string,
+    secrets: string[],
+    options?: number | WebhookVerifyOptions,
+  ): WebhookVerificationResult;
+  static verifyWebhookSignatureSync(
+    payload: string,
+    signature: string,
+    secret: string | string[],
+    options: number | WebhookVerifyOptions = 300, // 5 minutes default
+  ): boolean | WebhookVerificationResult {
+    const verifyOptions = toVerifyOptions(options);
+    const result = checkWebhookSignatureSync(payload, signature, secret, verifyOptions);
+    return Array.isArray(secret) || verifyOptions.replayGuard ? result : result.valid;
   }
 
   /**
    * Generates a webhook signature for testing purposes.
    *
    * This method creates a signature in the same format the Drip backend uses,
-   * allowing you to test your webhook handling code locally.
+   * allowing you to test your webhook handling code locally. Pass several
+   * secrets to get one `v1=` entry per secret, as Drip sends while a secret
+   * is being rotated.
    *
    * @param payload - The webhook payload (JSON string)
-   * @param secret - The webhook secret
+   * @param secret - The webhook secret, or an array of secrets
    * @param timestamp - Optional timestamp (defaults to current time)
-   * @returns Signature in format: t=timestamp,v1=hexsignature
+   * @returns Signature in format: t=timestamp,v1=hexsignature[,v1=hexsignature...]
    *
    * @example
    * ```typescript
@@ -3065,20 +3632,57 @@ export class Drip {
    */
   static generateWebhookSignature(
     payload: string,
-    secret: string,
+    secret: string | string[],
     timestamp?: number,
   ): string {
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    const crypto = require('crypto') as typeof import('crypto');
-
-    const ts = timestamp ?? Math.floor(Date.now() / 1000);
-    const signaturePayload = `${ts}.${payload}`;
-    const signature = crypto
-      .createHmac('sha256', secret)
-      .update(signaturePayload)
-      .digest('hex');
+    return signWebhookPayload(payload, secret, timestamp);
+  }
 
-    return `t=${ts},v1=${signature}`;
+  /**
+   * Verifies a webhook delivery and parses it into a typed event.
+   *
+   * The returned event is a union discriminated on `type`, so switching on
+   * `event.type` narrows `event.data` to that event's payload.
+   *
+   * @param rawBody - The raw request body (string or Buffer), exactly as received
+   * @param signatureHeader - The x-drip-signature header value
+   * @param secret - Your webhook secret, or every active secret while rotating
+   * @param options - Maximum signature age in seconds (default 300), or options
+   *   including a replay guard (which must use a synchronous store here)
+   * @returns The verified event
+   * @throws {WebhookSignatureError} If the signature is missing, malformed, expired or does not match
+   *
+   * @example
+   * ```typescript
+   * app.post('/webhooks/drip', express.raw({ type: 'application/json' }), (req, res) => {
+   *   let event: WebhookEvent;
+   *   try {
+   *     event = Drip.constructWebhookEvent(
+   *       req.body,
+   *       req.headers['x-drip-signature'],
+   *       process.env.DRIP_WEBHOOK_SECRET!,
+   *     );
+   *   } catch (error) {
+   *     if (error instanceof WebhookSignatureError) {
+   *       return res.status(400).send(`Webhook rejected: ${error.reason}`);
+   *     }
+   *     throw error;
+   *   }
+   *
+   *   if (event.type === 'charge.failed') {
+   *     console.log(event.data.chargeId, event.data.failureReason);
+   *   }
+   *   res.sendStatus(200);
+   * });
+   * ```
+   */
+  static constructWebhookEvent(
+    rawBody: string | Uint8Array,
+    signatureHeader: string | string[] | undefined | null,
+    secret: string | string[],
+    options: number | WebhookVerifyOptions = 300,
+  ): WebhookEvent {
+    return constructWebhookEvent(rawBody, signatureHeader, secret, options);
   }
 
   // ==========================================================================
@@ -3131,7 +3735,159 @@ export class Drip {
    * ```
    */
   createStreamMeter(options: StreamMeterOptions): StreamMeter {
-    return new StreamMeter(this.charge.bind(this), options);
+    this.assertAcceptingWork();
+
+    const meter = new StreamMeter(this.charge.bind(this), options);
+
+    // Register for shutdown flushing; drop meters that have been garbage collected
+    for (const entry of this.streamMeters) {
+      if (!entry.ref.deref()) {
+        this.streamMeters.delete(entry);
+      }
+    }
+    this.streamMeters.add({ ref: new WeakRef(meter), customerId: options.customerId, meter: options.meter });
+
+    return meter;
+  }
+
+  // ==========================================================================
+  // Lifecycle Methods
+  // ==========================================================================
+
+  /**
+   * Runs billing work that outlives the code that started it, such as a
+   * charge deferred until an HTTP response has been sent. `shutdown()` waits
+   * for it like an in-flight request, and it may still call the API once
+   * shutdown has begun. If the task fails, the returned promise rejects and
+   * the error is also listed in the `shutdown()` report (the most recent 100
+   * failures are kept).
+   *
+   * @param task - The work to run
+   * @returns The task's result
+   *
+   * @example
+   * ```typescript
+   * res.on('finish', () => {
+   *   void drip.runInBackground(() => drip.charge({ customerId, meter: 'api_calls', quantity: 1 }));
+   * });
+   * ```
+   */
+  runInBackground<T>(task: () => Promise<T>): Promise<T> {
+    const promise = this.trackInFlight(this.internalWork.run(true, task));
+    promise.catch((error: unknown) => {
+      if (this.backgroundErrors.length >= 100) {
+        this.backgroundErrors.shift();
+      }
+      this.backgroundErrors.push(error instanceof Error ? error : new Error(String(error)));
+    });
+    return promise;
+  }
+
+  /**
+   * Gracefully shuts down the client.
+   *
+   * 1. Stops accepting new work - later calls reject with `CLIENT_SHUTDOWN`
+   * 2. Flushes usage accumulated in stream meters created by this client
+   * 3. Sends any batched calls and waits for in-flight requests
+   * 4. Makes a final attempt to deliver the outbox
+   *
+   * Anything still outstanding when `timeoutMs` elapses is reported as dropped.
+   * Calling `shutdown()` again returns the same report.
+   *
+   * @param options - Shutdown options
+   * @returns What was flushed and what was dropped
+   *
+   * @example
+   * ```typescript
+   * process.on('SIGTERM', async () => {
+   *   const report = await drip.shutdown({ timeoutMs: 10_000 });
+   *   if (!report.completed) {
+   *     console.error('Drip shutdown incomplete', report);
+   *   }
+   *   process.exit(0);
+   * });
+   * ```
+   */
+  shutdown(options: ShutdownOptions = {}): Promise<ShutdownReport> {
+    this.shutdownPromise ??= this.internalWork.run(true, () => this.drain(options.timeoutMs ?? 10000));
+    return this.shutdownPromise;
+  }
+
+  /**
+   * Drains outstanding work for `shutdown()`.
+   * @internal
+   */
+  private async drain(timeoutMs: number): Promise<ShutdownReport> {
+    const start = Date.now();
+    const errors: Error[] = [];
+    const unflushedMeters: UnflushedMeter[] = [];
+    let flushedMeters = 0;
+
+    this.outbox?.stop();
+
+    const work = (async () => {
+      // Flush stream meters (their charges may land in a batch, sent below)
+      const meterFlushes = Promise.all(Array.from(this.streamMeters).map(async ({ ref, customerId, meter: meterName }) => {
+        const meter = ref.deref();
+        const quantity = meter?.total ?? 0;
+        if (!meter || quantity <= 0) {
+          return;
+        }
+        try {
+          await meter.flush();
+          flushedMeters++;
+        } catch (error) {
+          errors.push(error instanceof Error ? error : new Error(String(error)));
+          unflushedMeters.push({ customerId, meter: meterName, quantity });
+        }
+      }));
+
+      // Send batched calls and wait for everything in flight
+      await this.flushBatches();
+      await meterFlushes;
+      while (this.inFlight.size > 0) {
+        await Promise.allSettled(Array.from(this.inFlight));
+      }
+
+      // Final outbox delivery attempt
+      if (this.outbox) {
+        try {
+          await this.outbox.flush();
+        } catch (error) {
+          errors.push(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+    })();
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const completed = await Promise.race([
+      work.then(() => true),
+      new Promise<false>((resolve) => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+
+    // Meters still holding usage were not flushed in time
+    if (!completed) {
+      for (const { ref, customerId, meter } of this.streamMeters) {
+        const quantity = ref.deref()?.total ?? 0;
+        if (quantity > 0) {
+          unflushedMeters.push({ customerId, meter, quantity });
+        }
+      }
+    }
+
+    return {
+      completed,
+      durationMs: Date.now() - start,
+      flushedMeters,
+      unflushedMeters,
+      droppedRequests: completed ? 0 : this.inFlight.size,
+      droppedBatchItems: Object.values(this.batchers).reduce((sum, batcher) => sum + batcher.queued, 0),
+      outboxPending: this.outbox ? (await this.outbox.pending()).length : 0,
+      errors: [...this.backgroundErrors, ...errors],
+    };
   }
 }
 
@@ -3139,6 +3895,119 @@ export class Drip {
 export { StreamMeter } from './stream-meter.js';
 export type { StreamMeterOptions, StreamMeterFlushResult } from './stream-meter.js';
 
+// Re-export Error types
+export {
+  DripError,
+  DripAuthenticationError,
+  DripPermissionError,
+  DripInsufficientBalanceError,
+  DripValidationError,
+  DripRateLimitError,
+  DripResponseParseError,
+  DripTimeoutError,
+  DripNetworkError,
+  DripChargeFailedError,
+  WebhookSignatureError,
+} from './errors.js';
+export type {
+  DripErrorOptions,
+  DripValidationIssue,
+  InsufficientBalanceDetails,
+  WebhookSignatureErrorReason,
+} from './errors.js';
+
+// Re-export Webhook event types
+export { parseWebhookSignatureHeader } from './webhooks.js';
+export type {
+  WebhookVerificationResult,
+  WebhookVerifyOptions,
+  WebhookEvent,
+  WebhookEventOf,
+  WebhookEventDataMap,
+  WebhookSignatureHeader,
+  WebhookChargeData,
+  WebhookBalanceData,
+  WebhookUsageData,
+  WebhookBalanceTransferData,
+  WebhookUsageCapData,
+  WebhookEndpointHealthData,
+  WebhookApiKeyData,
+  WebhookPricingPlanData,
+  WebhookTransactionData,
+} from './webhooks.js';
+
+// Re-export Webhook replay protection
+export {
+  WebhookReplayGuard,
+  MemoryWebhookReplayStore,
+  RedisWebhookReplayStore,
+} from './webhook-replay.js';
+export type {
+  WebhookReplayStore,
+  WebhookReplayGuardOptions,
+  WebhookDelivery,
+  RedisLikeClient,
+} from './webhook-replay.js';
+
+// Re-export Webhook simulator
+export { WebhookSimulator } from './webhook-simulator.js';
+export type {
+  WebhookSimulatorOptions,
+  WebhookRequestHandler,
+  SimulateDeliveryOptions,
+  SimulatedDelivery,
+  SimulatedResponse,
+  SimulatedSendResult,
+} from './webhook-simulator.js';
+
+// Re-export Pagination types
+export type { PaginationOptions } from './pagination.js';
+
+// Re-export Shutdown types and helpers
+export { registerShutdownHandlers } from './shutdown.js';
+export type {
+  ShutdownOptions,
+  ShutdownReport,
+  ShutdownHandlerOptions,
+  Shutdownable,
+  UnflushedMeter,
+} from './shutdown.js';
+
+// Re-export Batching types
+export { RequestBatcher } from './batching.js';
+export type { BatchingConfig, BatchItemOutcome, BatchSendFn } from './batching.js';
+
+// Re-export Outbox types and storage adapters
+export { Outbox, MemoryOutboxStorage, FileOutboxStorage } from './outbox.js';
+export type {
+  OutboxConfig,
+  OutboxStorage,
+  OutboxEntry,
+  OutboxEntryKind,
+  OutboxQueue,
+  OutboxFlushResult,
+} from './outbox.js';
+
+// Re-export Interceptor types
+export type {
+  DripRequestContext,
+  DripResponseContext,
+  DripErrorContext,
+  DripRequestInterceptor,
+  DripResponseInterceptor,
+  DripErrorInterceptor,
+  DripInterceptorConfig,
+} from './interceptors.js';
+
+// Re-export Transport types and utilities
+export { createFetchTransport, fetchTransport } from './transport.js';
+export type {
+  DripTransport,
+  DripTransportRequest,
+  DripTransportResponse,
+  FetchLike,
+} from './transport.js';
+
 // Re-export Resilience types and utilities
 export {
   ResilienceManager,
@@ -3152,12 +4021,14 @@ export {
   createHighThroughputResilienceConfig,
   calculateBackoff,
   isRetryableError,
+  parseRateLimitHeaders,
 } from './resilience.js';
 
 export type {
   ResilienceConfig,
   ResilienceHealth,
   RateLimiterConfig,
+  RateLimitInfo,
   RetryConfig,
   CircuitBreakerConfig,
   CircuitState,
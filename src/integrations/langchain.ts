@@ -242,6 +242,13 @@ export interface DripCallbackHandlerOptions {
    */
   apiKey?: string;
 
+  /**
+   * Existing Drip client to emit through instead of creating a new one.
+   * Pass your application's client so its `shutdown()` also drains
+   * events emitted by this handler. When set, `apiKey` and `baseUrl` are ignored.
+   */
+  drip?: Drip;
+
   /**
    * The customer ID to bill usage to.
    * Can be set later via the `customerId` property.
@@ -321,7 +328,7 @@ export class DripCallbackHandler {
   private readonly _agentCalls: Map<string, AgentCallState> = new Map();
 
   constructor(options: DripCallbackHandlerOptions = {}) {
-    this._client = new Drip({
+    this._client = options.drip ?? new Drip({
       apiKey: options.apiKey ?? process.env.DRIP_API_KEY ?? '',
       baseUrl: options.baseUrl,
     });
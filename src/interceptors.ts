@@ -0,0 +1,211 @@
+/**
+ * Request/response interceptor hooks for the Drip SDK.
+ *
+ * Interceptors run around every API call made by the Drip client:
+ * - `onRequest` interceptors run in order before the request is sent and may
+ *   return a modified context (e.g. to add headers or redact metadata).
+ * - `onResponse` interceptors run in order after a successful response and may
+ *   return a modified context (e.g. to normalize the body).
+ * - `onError` interceptors run in order when a request fails, including when
+ *   an `onRequest` interceptor throws. They observe the error; the original
+ *   error is always re-thrown to the caller.
+ *
+ * @example
+ * ```typescript
+ * const drip = new Drip({
+ *   apiKey: '...',
+ *   onRequest: (ctx) => ({
+ *     ...ctx,
+ *     headers: { ...ctx.headers, 'X-Tenant': 'acme' },
+ *   }),
+ *   onResponse: ({ request, status, latencyMs, retryCount }) => {
+ *     log.info(`${request.method} ${request.path} ${status} ${latencyMs}ms (retries: ${retryCount})`);
+ *   },
+ * });
+ * ```
+ */
+
+// =============================================================================
+// Context Types
+// =============================================================================
+
+/**
+ * An outgoing API request as seen by interceptors.
+ */
+export interface DripRequestContext {
+  /** Upper-case HTTP method */
+  method: string;
+
+  /** API path relative to the base URL (e.g. `/usage`) */
+  path: string;
+
+  /** Request headers (mutable via the returned context) */
+  headers: Record<string, string>;
+
+  /** Parsed JSON request body, or undefined for requests without a body */
+  body: unknown;
+
+  /** Number of retries performed by the resilience layer before this attempt */
+  retryCount: number;
+}
+
+/**
+ * A successful API response as seen by interceptors.
+ */
+export interface DripResponseContext {
+  /** The request that produced this response */
+  request: DripRequestContext;
+
+  /** HTTP status code */
+  status: number;
+
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+
+  /** Parsed JSON response body */
+  body: unknown;
+
+  /** Time spent waiting for the transport, in milliseconds */
+  latencyMs: number;
+
+  /** Number of retries performed by the resilience layer before this attempt */
+  retryCount: number;
+}
+
+/**
+ * A failed API request as seen by interceptors.
+ */
+export interface DripErrorContext {
+  /** The request that failed */
+  request: DripRequestContext;
+
+  /** The error that will be thrown to the caller */
+  error: Error;
+
+  /** HTTP status code, or null if no response was received */
+  status: number | null;
+
+  /** Time spent before the failure, in milliseconds */
+  latencyMs: number;
+
+  /** Number of retries performed by the resilience layer before this attempt */
+  retryCount: number;
+}
+
+// =============================================================================
+// Interceptor Types
+// =============================================================================
+
+/**
+ * Runs before a request is sent. Return a new context to modify the request.
+ */
+export type DripRequestInterceptor = (
+  context: DripRequestContext,
+) => DripRequestContext | void | Promise<DripRequestContext | void>;
+
+/**
+ * Runs after a successful response. Return a new context to modify the result.
+ */
+export type DripResponseInterceptor = (
+  context: DripResponseContext,
+) => DripResponseContext | void | Promise<DripResponseContext | void>;
+
+/**
+ * Runs when a request fails.
+ */
+export type DripErrorInterceptor = (
+  context: DripErrorContext,
+) => void | Promise<void>;
+
+/**
+ * Interceptor configuration accepted by `DripConfig`.
+ */
+export interface DripInterceptorConfig {
+  /**
+   * Interceptor(s) run before each request is sent, in order.
+   */
+  onRequest?: DripRequestInterceptor | DripRequestInterceptor[];
+
+  /**
+   * Interceptor(s) run after each successful response, in order.
+   */
+  onResponse?: DripResponseInterceptor | DripResponseInterceptor[];
+
+  /**
+   * Interceptor(s) run after each failed request, in order.
+   */
+  onError?: DripErrorInterceptor | DripErrorInterceptor[];
+}
+
+// =============================================================================
+// Interceptor Chain
+// =============================================================================
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Ordered interceptor chains for a single client.
+ * @internal
+ */
+export class InterceptorChain {
+  private readonly requestInterceptors: DripRequestInterceptor[];
+  private readonly responseInterceptors: DripResponseInterceptor[];
+  private readonly errorInterceptors: DripErrorInterceptor[];
+
+  constructor(config: DripInterceptorConfig = {}) {
+    this.requestInterceptors = toArray(config.onRequest);
+    this.responseInterceptors = toArray(config.onResponse);
+    this.errorInterceptors = toArray(config.onError);
+  }
+
+  /**
+   * Whether any interceptor is registered. When none is, the client skips
+   * parsing request bodies for the interceptor contexts.
+   */
+  get hasInterceptors(): boolean {
+    return this.requestInterceptors.length > 0
+      || this.responseInterceptors.length > 0
+      || this.errorInterceptors.length > 0;
+  }
+
+  /**
+   * Run request interceptors and return the final request context.
+   */
+  async runRequest(context: DripRequestContext): Promise<DripRequestContext> {
+    let current = context;
+    for (const interceptor of this.requestInterceptors) {
+      current = (await interceptor(current)) ?? current;
+    }
+    return current;
+  }
+
+  /**
+   * Run response interceptors and return the final response context.
+   */
+  async runResponse(context: DripResponseContext): Promise<DripResponseContext> {
+    let current = context;
+    for (const interceptor of this.responseInterceptors) {
+      current = (await interceptor(current)) ?? current;
+    }
+    return current;
+  }
+
+  /**
+   * Run error interceptors. Failures inside an error interceptor are ignored
+   * so that the original error always reaches the caller.
+   */
+  async runError(context: DripErrorContext): Promise<void> {
+    for (const interceptor of this.errorInterceptors) {
+      try {
+        await interceptor(context);
+      } catch {
+        // Ignore - the original error takes precedence
+      }
+    }
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Drip SDK - Koa Adapter
+ *
+ * Middleware for Koa applications.
+ *
+ * @example
+ * ```typescript
+ * import Koa from 'koa';
+ * import { dripMiddleware } from '@drip-sdk/node/koa';
+ *
+ * const app = new Koa();
+ *
+ * app.use(dripMiddleware({
+ *   meter: 'api_calls',
+ *   quantity: 1,
+ * }));
+ *
+ * app.use((ctx) => {
+ *   console.log(`Charged: ${ctx.state.drip.charge.charge.amountUsdc} USDC`);
+ *   ctx.body = { success: true };
+ * });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// Re-export Koa specific
+export {
+  dripMiddleware,
+  createDripMiddleware,
+  hasPaymentProofHeaders,
+  hasDripContext,
+  getDripContext,
+} from './middleware/koa.js';
+
+export type {
+  KoaContext,
+  KoaNext,
+  KoaMiddleware,
+  DripKoaContext,
+  KoaDripConfig,
+} from './middleware/koa.js';
+
+// Re-export shared types
+export type {
+  WithDripConfig,
+  ChargeTiming,
+  RequireBalanceOptions,
+  DripContext,
+  X402PaymentProof,
+  X402PaymentRequest,
+  PaymentProofVerifier,
+  PaymentVerificationContext,
+  PaymentNonceStore,
+  IssuedPaymentRequest,
+} from './middleware/types.js';
+
+export { DripMiddlewareError } from './middleware/types.js';
+export { MemoryPaymentNonceStore } from './middleware/x402.js';
+
+// Re-export core SDK for convenience
+export {
+  Drip,
+  DripError,
+} from './index.js';
+
+export type {
+  DripConfig,
+  Customer,
+  ChargeParams,
+  ChargeResult,
+  ChargeStatus,
+} from './index.js';
@@ -6,23 +6,29 @@
  * and x402 payment flow orchestration.
  */
 
-import { randomBytes } from 'crypto';
-import { Drip, DripError, type ChargeResult } from '../index.js';
+import { getRandomValues, sha256Hex } from '../runtime.js';
+import { Drip, DripError, DripInsufficientBalanceError, type ChargeResult, type TrackUsageResult } from '../index.js';
 import type {
+  BalanceCheckResult,
   WithDripConfig,
   X402PaymentProof,
+  X402LineItem,
   X402PaymentRequest,
   X402ResponseHeaders,
   MiddlewareState,
   GenericRequest,
 } from './types.js';
 import { DripMiddlewareError } from './types.js';
+import { rememberPaymentRequest, resolveNonceStore, verifyPaymentProof } from './x402.js';
 
 // ============================================================================
 // Constants
 // ============================================================================
 
 const DEFAULT_PAYMENT_EXPIRY_SEC = 5 * 60; // 5 minutes
+const DEFAULT_BALANCE_CACHE_TTL_MS = 5_000;
+const METER_PRICE_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const FALLBACK_UNIT_PRICE_USDC = 0.0001; // Used only when meter pricing is unavailable
 const MAX_TIMESTAMP_AGE_SEC = 5 * 60; // 5 minutes max age for payment proof timestamps
 
 // Required headers for x402 payment proof
@@ -173,14 +179,14 @@ export function generatePaymentRequest(params: {
   usageId: string;
   description?: string;
   expiresInSec?: number;
+  lineItems?: X402LineItem[];
 }): {
   headers: X402ResponseHeaders;
   paymentRequest: X402PaymentRequest;
 } {
   const now = Math.floor(Date.now() / 1000);
   const expiresAt = now + (params.expiresInSec ?? DEFAULT_PAYMENT_EXPIRY_SEC);
-  // Use cryptographically secure random bytes for nonce generation
-  const nonce = `${now}-${randomBytes(16).toString('hex')}`;
+  const nonce = `${now}-${randomHex(16)}`;
 
   // Ensure usageId is properly formatted
   let usageId = params.usageId;
@@ -208,6 +214,7 @@ export function generatePaymentRequest(params: {
     expiresAt,
     nonce,
     timestamp: now,
+    ...(params.lineItems && { lineItems: params.lineItems }),
   };
 
   return { headers, paymentRequest };
@@ -218,9 +225,14 @@ export function generatePaymentRequest(params: {
  * In production, the server will use keccak256.
  */
 function hashString(input: string): string {
-  const { createHash } = require('crypto') as typeof import('crypto');
-  const hash = createHash('sha256').update(input).digest('hex');
-  return `0x${hash}`;
+  return `0x${sha256Hex(input)}`;
+}
+
+/**
+ * Random hex for payment nonces.
+ */
+function randomHex(byteLength: number): string {
+  return Array.from(getRandomValues(new Uint8Array(byteLength)), (b) => b.toString(16).padStart(2, '0')).join('');
 }
 
 // ============================================================================
@@ -315,13 +327,32 @@ export async function generateIdempotencyKey<TRequest extends GenericRequest>(
 // Drip Client Factory
 // ============================================================================
 
+/**
+ * Read an environment variable. Edge runtimes may have no `process`.
+ */
+function getEnv(name: string): string | undefined {
+  return typeof process !== 'undefined' ? process.env[name] : undefined;
+}
+
+/**
+ * Address x402 payments go to: the configured recipient, or
+ * `DRIP_RECIPIENT_ADDRESS` from the environment.
+ */
+function resolveRecipient<TRequest>(config: WithDripConfig<TRequest>): string | undefined {
+  return config.recipient || getEnv('DRIP_RECIPIENT_ADDRESS');
+}
+
 /**
  * Create a Drip client from configuration.
  */
 export function createDripClient<TRequest>(
   config: WithDripConfig<TRequest>,
 ): Drip {
-  const apiKey = config.apiKey ?? process.env.DRIP_API_KEY;
+  if (config.drip) {
+    return config.drip;
+  }
+
+  const apiKey = config.apiKey ?? getEnv('DRIP_API_KEY');
 
   if (!apiKey) {
     throw new DripMiddlewareError(
@@ -333,10 +364,191 @@ export function createDripClient<TRequest>(
 
   return new Drip({
     apiKey,
-    baseUrl: config.baseUrl ?? process.env.DRIP_API_URL,
+    baseUrl: config.baseUrl ?? getEnv('DRIP_API_URL'),
   });
 }
 
+// ============================================================================
+// Pricing
+// ============================================================================
+
+/**
+ * A priced amount for a request, with its breakdown.
+ */
+interface ChargeQuote {
+  amount: string;
+  lineItems: X402LineItem[];
+}
+
+/** Active meter prices, per client (or per API key and base URL). */
+const meterPriceCache = new Map<Drip | string, {
+  fetchedAt: number;
+  prices: Promise<Map<string, string>>;
+}>();
+
+/**
+ * Key for per-account caches: the configured client, or a hash of the
+ * credentials, since clients created per request share an account.
+ */
+function clientCacheKey<TRequest>(config: WithDripConfig<TRequest>): Drip | string {
+  return config.drip ?? hashString(
+    `${config.apiKey ?? getEnv('DRIP_API_KEY')}|${config.baseUrl ?? getEnv('DRIP_API_URL')}`,
+  );
+}
+
+/**
+ * Look up the configured meter's unit price via `listMeters()`, cached for
+ * five minutes. Returns undefined if the meter is unknown or pricing can't
+ * be fetched.
+ */
+async function getUnitPrice<TRequest>(
+  drip: Drip,
+  config: WithDripConfig<TRequest>,
+): Promise<string | undefined> {
+  const key = clientCacheKey(config);
+  const now = Date.now();
+
+  let cached = meterPriceCache.get(key);
+  if (!cached || now - cached.fetchedAt >= METER_PRICE_CACHE_TTL_MS) {
+    const entry = {
+      fetchedAt: now,
+      prices: drip.listMeters().then(({ data }) => new Map(
+        data.filter((meter) => meter.isActive).map((meter) => [meter.meter, meter.unitPriceUsd]),
+      )),
+    };
+    // Don't cache failures
+    entry.prices.catch(() => {
+      if (meterPriceCache.get(key) === entry) meterPriceCache.delete(key);
+    });
+    meterPriceCache.set(key, entry);
+    cached = entry;
+  }
+
+  try {
+    return (await cached.prices).get(config.meter);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Multiply a decimal unit price by a quantity, rounding up to USDC's six
+ * decimals so a request is never under-quoted.
+ */
+function multiplyPrice(unitPrice: string, quantity: number): string | undefined {
+  const decimal = /^(\d+)(?:\.(\d+))?$/;
+  const price = decimal.exec(unitPrice);
+  const units = decimal.exec(String(quantity));
+  if (!price || !units) {
+    return undefined;
+  }
+
+  const scale = (price[2]?.length ?? 0) + (units[2]?.length ?? 0);
+  const product = BigInt(price[1]! + (price[2] ?? '')) * BigInt(units[1]! + (units[2] ?? ''));
+  let micros: bigint;
+  if (scale <= 6) {
+    micros = product * 10n ** BigInt(6 - scale);
+  } else {
+    const divisor = 10n ** BigInt(scale - 6);
+    micros = (product + divisor - 1n) / divisor;
+  }
+
+  const digits = micros.toString().padStart(7, '0');
+  return `${digits.slice(0, -6)}.${digits.slice(-6)}`;
+}
+
+/**
+ * Quote `quantity` units of the configured meter at its unit price.
+ */
+async function quoteCharge<TRequest>(
+  drip: Drip,
+  config: WithDripConfig<TRequest>,
+  quantity: number,
+): Promise<ChargeQuote> {
+  const unitPriceUsd = await getUnitPrice(drip, config);
+  const amount = unitPriceUsd === undefined ? undefined : multiplyPrice(unitPriceUsd, quantity);
+  if (unitPriceUsd !== undefined && amount !== undefined) {
+    return { amount, lineItems: [{ meter: config.meter, quantity, unitPriceUsd, amount }] };
+  }
+
+  // Pricing unavailable: estimate with a default rate
+  const estimate = (quantity * FALLBACK_UNIT_PRICE_USDC).toFixed(6);
+  return { amount: estimate, lineItems: [{ meter: config.meter, quantity, amount: estimate }] };
+}
+
+// ============================================================================
+// Balance Check
+// ============================================================================
+
+/** Recently fetched available balances, per client (see clientCacheKey), by customer ID. */
+const balanceCache = new Map<Drip | string, Map<string, { availableUsdc: string; fetchedAt: number; ttlMs: number }>>();
+
+/**
+ * Check whether a customer's available balance covers `required` USDC.
+ * Balances are cached per account and customer for `cacheTtlMs`, so a burst
+ * of requests costs one `getBalance` call.
+ *
+ * @param drip - Client to fetch the balance with
+ * @param customerId - Customer to check
+ * @param required - Amount the request needs, in USDC
+ * @param cacheTtlMs - How long a fetched balance is reused
+ * @param cacheKey - Account the cache entry belongs to (defaults to `drip`)
+ */
+export async function checkBalance(
+  drip: Drip,
+  customerId: string,
+  required: string,
+  cacheTtlMs: number = DEFAULT_BALANCE_CACHE_TTL_MS,
+  cacheKey: Drip | string = drip,
+): Promise<BalanceCheckResult> {
+  const now = Date.now();
+  let balances = balanceCache.get(cacheKey);
+  let cached = balances?.get(customerId);
+  if (!cached || now - cached.fetchedAt >= cacheTtlMs) {
+    const balance = await drip.getBalance(customerId);
+    cached = { availableUsdc: balance.availableUsdc, fetchedAt: now, ttlMs: cacheTtlMs };
+    if (!balances) {
+      balances = new Map();
+      balanceCache.set(cacheKey, balances);
+    }
+    balances.set(customerId, cached);
+    pruneBalanceCache(now);
+  }
+
+  const available = parseFloat(cached.availableUsdc) || 0;
+  const shortfall = Math.max(0, parseFloat(required) - available);
+  return {
+    sufficient: shortfall === 0,
+    balance: cached.availableUsdc,
+    required,
+    shortfall: shortfall.toFixed(6),
+  };
+}
+
+/**
+ * Take a charge off a customer's cached balance, so requests checked before
+ * the cache expires see what is left.
+ */
+function debitCachedBalance(cacheKey: Drip | string, customerId: string, amountUsdc: string): void {
+  const cached = balanceCache.get(cacheKey)?.get(customerId);
+  const amount = parseFloat(amountUsdc);
+  if (cached && amount > 0) {
+    cached.availableUsdc = Math.max(0, (parseFloat(cached.availableUsdc) || 0) - amount).toFixed(6);
+  }
+}
+
+/**
+ * Drop expired balances, and accounts left without any.
+ */
+function pruneBalanceCache(now: number): void {
+  for (const [key, balances] of balanceCache) {
+    for (const [id, entry] of balances) {
+      if (now - entry.fetchedAt >= entry.ttlMs) balances.delete(id);
+    }
+    if (balances.size === 0) balanceCache.delete(key);
+  }
+}
+
 // ============================================================================
 // Core Middleware Logic
 // ============================================================================
@@ -360,6 +572,13 @@ export interface ProcessRequestSuccess {
   charge: ChargeResult;
   drip: Drip;
   isDuplicate: boolean;
+
+  /**
+   * True when `chargeTiming` deferred the charge until after the handler.
+   * `charge` is then a placeholder; call {@link completeDeferredCharge} once
+   * the handler has responded successfully.
+   */
+  deferred?: boolean;
 }
 
 /**
@@ -381,7 +600,7 @@ export async function processRequest<TRequest extends GenericRequest>(
   config: WithDripConfig<TRequest>,
 ): Promise<ProcessRequestResult> {
   // Check if we should skip in development
-  if (config.skipInDevelopment && process.env.NODE_ENV === 'development') {
+  if (config.skipInDevelopment && getEnv('NODE_ENV') === 'development') {
     // Return a mock successful charge for development
     const drip = createDripClient(config);
     const mockCharge: ChargeResult = {
@@ -438,100 +657,459 @@ export async function processRequest<TRequest extends GenericRequest>(
       ? config.metadata(request)
       : config.metadata;
 
-    // Attempt to charge
-    try {
-      const chargeResult = await drip.charge({
-        customerId,
-        meter: config.meter,
-        quantity,
-        idempotencyKey,
-        metadata,
-      });
-
-      // Call onCharge callback if provided
-      if (config.onCharge) {
-        await config.onCharge(chargeResult, request);
+    // A request carrying a payment proof is charged as soon as the proof checks out
+    if (paymentProofPresent) {
+      return await settlePaymentProof(drip, state, paymentProof ?? null, request, config, metadata);
+    }
+
+    // Make sure the customer can pay before doing expensive work
+    const chargeTiming = config.chargeTiming ?? 'before';
+    if (config.requireBalance || chargeTiming === 'reserve') {
+      const options = typeof config.requireBalance === 'object' ? config.requireBalance : {};
+      const quote = await quoteCharge(drip, config, quantity);
+      const required = options.minimumUsdc ?? quote.amount;
+      const balanceCheck = await checkBalance(drip, customerId, required, options.cacheTtlMs, clientCacheKey(config));
+      if (!balanceCheck.sufficient) {
+        return await insufficientBalanceResult(state, config, balanceCheck, quote);
       }
+    }
 
-      return {
-        success: true,
-        state,
-        charge: chargeResult,
-        drip,
-        isDuplicate: chargeResult.isDuplicate ?? false,
-      };
-    } catch (error) {
-      if (error instanceof DripError) {
-        // Handle 402 Payment Required
-        if (error.statusCode === 402) {
-          // Require DRIP_RECIPIENT_ADDRESS to be configured
-          const recipient = process.env.DRIP_RECIPIENT_ADDRESS;
-          if (!recipient) {
-            throw new DripMiddlewareError(
-              'DRIP_RECIPIENT_ADDRESS environment variable must be configured for x402 payment flow.',
-              'CONFIGURATION_ERROR',
-              500,
-            );
-          }
+    if (chargeTiming === 'before') {
+      return await chargeCustomer(drip, state, request, config, metadata, false);
+    }
 
-          // Try to extract amount from error message (format: "... amount: X.XX USDC")
-          // or use quantity as fallback (1 unit = 0.01 USDC default)
-          let amount = '0.01';
-          const amountMatch = error.message.match(/amount[:\s]+([0-9.]+)/i);
-          if (amountMatch) {
-            amount = amountMatch[1];
-          } else {
-            // Calculate based on quantity with default rate of 0.0001 USDC per unit
-            const calculatedAmount = (quantity * 0.0001).toFixed(6);
-            amount = calculatedAmount;
-          }
+    return {
+      success: true,
+      state,
+      charge: pendingCharge(),
+      drip,
+      isDuplicate: false,
+      deferred: true,
+    };
+  } catch (error) {
+    return toFailure(error);
+  }
+}
 
-          // Generate payment request for x402 flow
-          const { headers, paymentRequest } = generatePaymentRequest({
-            amount,
-            recipient,
-            usageId: idempotencyKey,
-            description: `${config.meter} usage charge`,
-          });
-
-          return {
-            success: false,
-            error: new DripMiddlewareError(
-              'Insufficient balance. Payment required.',
-              'PAYMENT_REQUIRED',
-              402,
-            ),
-            paymentRequired: { headers, paymentRequest },
-          };
-        }
-
-        // Handle other Drip errors
-        if (config.onError) {
-          await config.onError(error, request);
-        }
-
-        throw new DripMiddlewareError(
-          error.message,
-          'CHARGE_FAILED',
-          error.statusCode,
-          { code: error.code },
-        );
+/**
+ * Charge for a request whose charge was deferred by `chargeTiming`. Adapters
+ * call this after the handler responded with a 2xx status. The response has
+ * usually been sent by then, so a failed charge is reported through `onError`
+ * rather than turned into a 402.
+ *
+ * @param request - The request passed to {@link processRequest}
+ * @param config - The config passed to {@link processRequest}
+ * @param result - The deferred result returned by {@link processRequest}
+ * @param quantity - Final quantity, e.g. derived from the response (defaults to the request's)
+ * @param options - Set `paymentRequired` when the response can still be
+ *   replaced, to get a 402 payment request for insufficient balance
+ */
+export async function completeDeferredCharge<TRequest extends GenericRequest>(
+  request: TRequest,
+  config: WithDripConfig<TRequest>,
+  result: ProcessRequestSuccess,
+  quantity: number = result.state.quantity,
+  options: { paymentRequired?: boolean } = {},
+): Promise<ProcessRequestResult> {
+  try {
+    const metadata = typeof config.metadata === 'function'
+      ? config.metadata(request)
+      : config.metadata;
+    const state = { ...result.state, quantity };
+    return await chargeCustomer(result.drip, state, request, config, metadata, !options.paymentRequired);
+  } catch (error) {
+    return toFailure(error);
+  }
+}
+
+/**
+ * Run a deferred charge in the background once the response is on its way.
+ * The work is registered with the client, so `drip.shutdown()` waits for it
+ * even when the charge starts after shutdown has begun. Failures go to
+ * `onError`; without one, or if it throws, they are listed in the errors of
+ * the client's shutdown report, since there is no response left to report
+ * them in.
+ *
+ * @param drip - Client the charge is made with
+ * @param charge - Computes the quantity and calls {@link completeDeferredCharge}
+ *   (null if there was nothing to charge)
+ * @param onError - The adapter's `onError`, bound to the request
+ * @returns Resolves once the charge and its reporting are done; never rejects
+ */
+export function runDeferredCharge(
+  drip: Drip,
+  charge: () => Promise<ProcessRequestResult | null>,
+  onError?: (error: DripError) => unknown,
+): Promise<void> {
+  return drip.runInBackground(async () => {
+    let failure: unknown;
+    try {
+      const result = await charge();
+      // Charge failures from the API were already passed to onError
+      if (result && !result.success && (!onError || result.error.code !== 'CHARGE_FAILED')) {
+        failure = result.error;
       }
+    } catch (error) {
+      failure = error;
+    }
+    if (failure === undefined) {
+      return;
+    }
 
+    const error = failure instanceof DripError
+      ? failure
+      : new DripError(
+        `Deferred charge failed: ${failure instanceof Error ? failure.message : String(failure)}`,
+        0,
+        'DEFERRED_CHARGE_FAILED',
+        { cause: failure },
+      );
+    if (!onError) {
       throw error;
     }
+    await onError(error);
+  }).catch(() => {
+    // Recorded for the shutdown report by runInBackground
+  });
+}
+
+/**
+ * Charge the customer for a request. Insufficient balance becomes a 402
+ * payment request, unless the charge is deferred and the response is gone.
+ */
+async function chargeCustomer<TRequest extends GenericRequest>(
+  drip: Drip,
+  state: MiddlewareState,
+  request: TRequest,
+  config: WithDripConfig<TRequest>,
+  metadata: Record<string, unknown> | undefined,
+  deferred: boolean,
+): Promise<ProcessRequestResult> {
+  try {
+    const chargeResult = await drip.charge({
+      customerId: state.customerId,
+      meter: config.meter,
+      quantity: state.quantity,
+      idempotencyKey: state.idempotencyKey,
+      metadata,
+    });
+    if (!chargeResult.queued && !chargeResult.isDuplicate) {
+      debitCachedBalance(clientCacheKey(config), state.customerId, chargeResult.charge.amountUsdc);
+    }
+
+    // Call onCharge callback if provided
+    if (config.onCharge) {
+      await config.onCharge(chargeResult, request);
+    }
+
+    return {
+      success: true,
+      state,
+      charge: chargeResult,
+      drip,
+      isDuplicate: chargeResult.isDuplicate ?? false,
+    };
   } catch (error) {
-    if (error instanceof DripMiddlewareError) {
-      return { success: false, error };
+    if (error instanceof DripError) {
+      // Handle 402 Payment Required
+      if (error instanceof DripInsufficientBalanceError && !deferred) {
+        // Use the amount in the API's response body, or price the request
+        // from the meter. Amounts scraped from the message text aren't trusted.
+        const quote: ChargeQuote = error.requiredAmount !== undefined && error.requiredAmountSource === 'body'
+          ? {
+            amount: error.requiredAmount,
+            lineItems: [{ meter: config.meter, quantity: state.quantity, amount: error.requiredAmount }],
+          }
+          : await quoteCharge(drip, config, state.quantity);
+        return paymentRequiredResult(state, config, quote);
+      }
+
+      // Handle other Drip errors
+      if (config.onError) {
+        await config.onError(error, request);
+      }
+
+      throw new DripMiddlewareError(
+        error.message,
+        'CHARGE_FAILED',
+        error.statusCode,
+        { code: error.code },
+      );
     }
 
-    // Wrap unexpected errors
-    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw error;
+  }
+}
+
+/**
+ * Issue an x402 payment request for a quoted amount and build the 402 result.
+ */
+async function paymentRequiredResult<TRequest>(
+  state: MiddlewareState,
+  config: WithDripConfig<TRequest>,
+  quote: ChargeQuote,
+): Promise<ProcessRequestFailure> {
+  const recipient = resolveRecipient(config);
+  if (!recipient) {
+    throw new DripMiddlewareError(
+      'Set the recipient option or the DRIP_RECIPIENT_ADDRESS environment variable for the x402 payment flow.',
+      'CONFIGURATION_ERROR',
+      500,
+    );
+  }
+
+  // Generate payment request for x402 flow
+  const { headers, paymentRequest } = generatePaymentRequest({
+    amount: quote.amount,
+    recipient,
+    usageId: state.idempotencyKey,
+    description: `${config.meter} usage charge`,
+    lineItems: quote.lineItems,
+  });
+  await rememberPaymentRequest(resolveNonceStore(config.nonceStore), paymentRequest, state.customerId);
+
+  return {
+    success: false,
+    error: new DripMiddlewareError(
+      'Insufficient balance. Payment required.',
+      'PAYMENT_REQUIRED',
+      402,
+    ),
+    paymentRequired: { headers, paymentRequest },
+  };
+}
+
+/**
+ * Reject a request that failed the pre-flight balance check, with an x402
+ * payment request for the estimated cost when a recipient is configured.
+ */
+async function insufficientBalanceResult<TRequest>(
+  state: MiddlewareState,
+  config: WithDripConfig<TRequest>,
+  balanceCheck: BalanceCheckResult,
+  quote: ChargeQuote,
+): Promise<ProcessRequestFailure> {
+  const details = {
+    balance: balanceCheck.balance,
+    required: balanceCheck.required,
+    shortfall: balanceCheck.shortfall,
+  };
+
+  if (!resolveRecipient(config)) {
     return {
       success: false,
-      error: new DripMiddlewareError(message, 'INTERNAL_ERROR', 500),
+      error: new DripMiddlewareError('Insufficient balance.', 'PAYMENT_REQUIRED', 402, details),
     };
   }
+
+  const result = await paymentRequiredResult(state, config, quote);
+  return {
+    ...result,
+    error: new DripMiddlewareError(result.error.message, result.error.code, 402, details),
+  };
+}
+
+/**
+ * Placeholder charge handed to the handler while the real charge is deferred.
+ */
+function pendingCharge(): ChargeResult {
+  return {
+    success: false,
+    usageEventId: '',
+    isDuplicate: false,
+    charge: {
+      id: '',
+      amountUsdc: '0',
+      amountToken: '0',
+      txHash: '',
+      status: 'PENDING',
+    },
+  };
+}
+
+/**
+ * Convert a thrown error into a failure result.
+ */
+function toFailure(error: unknown): ProcessRequestFailure {
+  if (error instanceof DripMiddlewareError) {
+    return { success: false, error };
+  }
+
+  // Wrap unexpected errors
+  const message = error instanceof Error ? error.message : 'Unknown error';
+  return {
+    success: false,
+    error: new DripMiddlewareError(message, 'INTERNAL_ERROR', 500),
+  };
+}
+
+/**
+ * Verify an x402 payment proof and, if valid, record the request as usage
+ * paid by the proof. The usage carries the proof in its metadata so the
+ * payment can be reconciled when it settles on-chain, and is not debited
+ * from the customer's balance. The nonce is consumed only once the usage is
+ * recorded, so a failed recording leaves the proof usable for a retry.
+ */
+async function settlePaymentProof<TRequest extends GenericRequest>(
+  drip: Drip,
+  state: MiddlewareState,
+  paymentProof: X402PaymentProof | null,
+  request: TRequest,
+  config: WithDripConfig<TRequest>,
+  metadata: Record<string, unknown> | undefined,
+): Promise<ProcessRequestResult> {
+  const store = resolveNonceStore(config.nonceStore);
+  const verification = await verifyPaymentProof(paymentProof, { customerId: state.customerId, drip }, {
+    store,
+    verifier: config.paymentVerifier,
+  });
+
+  if (!verification.valid || !paymentProof) {
+    return paymentVerificationFailure(verification.reason ?? 'Invalid payment proof');
+  }
+
+  let usage: TrackUsageResult;
+  try {
+    // The nonce is single-use, so it identifies this payment across retries
+    usage = await drip.trackUsage({
+      customerId: state.customerId,
+      meter: config.meter,
+      quantity: state.quantity,
+      idempotencyKey: `x402_${paymentProof.nonce}`,
+      metadata: {
+        ...metadata,
+        x402: {
+          signature: paymentProof.signature,
+          sessionKeyId: paymentProof.sessionKeyId,
+          smartAccount: paymentProof.smartAccount,
+          amount: paymentProof.amount,
+          recipient: paymentProof.recipient,
+          usageId: paymentProof.usageId,
+          nonce: paymentProof.nonce,
+          timestamp: paymentProof.timestamp,
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof DripError) {
+      if (config.onError) {
+        await config.onError(error, request);
+      }
+      throw new DripMiddlewareError(error.message, 'CHARGE_FAILED', error.statusCode, { code: error.code });
+    }
+    throw error;
+  }
+
+  // If a concurrent request consumed the nonce first, this one is a replay
+  if (!(await store.consume(paymentProof.nonce))) {
+    return paymentVerificationFailure('Unknown or already used payment nonce');
+  }
+
+  const chargeResult: ChargeResult = {
+    success: !usage.queued,
+    usageEventId: usage.usageEventId,
+    isDuplicate: false,
+    charge: {
+      id: '',
+      amountUsdc: paymentProof.amount,
+      amountToken: '0',
+      txHash: '',
+      status: 'PENDING_SETTLEMENT',
+    },
+    queued: usage.queued,
+  };
+
+  if (config.onCharge) {
+    await config.onCharge(chargeResult, request);
+  }
+
+  return { success: true, state, charge: chargeResult, drip, isDuplicate: false };
+}
+
+/**
+ * Build the 402 result for a rejected payment proof.
+ */
+function paymentVerificationFailure(reason: string): ProcessRequestFailure {
+  return {
+    success: false,
+    error: new DripMiddlewareError(reason, 'PAYMENT_VERIFICATION_FAILED', 402, { reason }),
+  };
+}
+
+// ============================================================================
+// Response Streaming
+// ============================================================================
+
+/**
+ * Pass a body stream through, keeping it open after the last chunk until
+ * `pending` settles.
+ */
+export function holdStreamUntil(
+  body: ReadableStream<Uint8Array>,
+  pending: Promise<void>,
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        await pending;
+        controller.close();
+        return;
+      }
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Pass a body stream through, adding up each chunk's quantity as it goes by,
+ * without buffering. The total is settled once, when the stream ends, fails
+ * or is cancelled by the client, so only what was delivered is charged. The
+ * stream stays open after the last chunk until the settlement completes.
+ *
+ * @param body - The response body
+ * @param quantityFromChunk - Billed quantity of one chunk
+ * @param settle - Makes the deferred charge for the delivered quantity;
+ *   reports its own failures and must not reject
+ */
+export function meterStream(
+  body: ReadableStream<Uint8Array>,
+  quantityFromChunk: (chunk: Uint8Array) => number,
+  settle: (quantity: number) => Promise<void>,
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let delivered = 0;
+  let settled: Promise<void> | null = null;
+  const flush = () => (settled ??= settle(delivered));
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        await flush();
+        controller.error(error);
+        return;
+      }
+
+      if (chunk.done) {
+        await flush();
+        controller.close();
+        return;
+      }
+      delivered += quantityFromChunk(chunk.value);
+      controller.enqueue(chunk.value);
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+      await flush();
+    },
+  });
 }
 
 // ============================================================================
@@ -0,0 +1,508 @@
+/**
+ * Drip Edge Adapter
+ *
+ * Web-standard `Request`/`Response` billing for edge runtimes (Cloudflare
+ * Workers, Bun, Deno, Vercel Edge): a `fetch`-style handler wrapper and a
+ * Hono middleware. Only Web APIs are used - `fetch` for the Drip API and Web
+ * Crypto for payment nonces.
+ *
+ * @example
+ * ```typescript
+ * import { Hono } from 'hono';
+ * import { dripMiddleware, type DripContext } from '@drip-sdk/node/edge';
+ *
+ * const app = new Hono<{ Variables: { drip: DripContext } }>();
+ *
+ * app.use('/api/paid/*', dripMiddleware({
+ *   meter: 'api_calls',
+ *   quantity: 1,
+ * }));
+ *
+ * app.post('/api/paid/generate', (c) => {
+ *   // Payment already verified - c.get('drip') contains context
+ *   return c.json({ charged: c.get('drip').charge.charge.amountUsdc });
+ * });
+ * ```
+ */
+
+import type { DripError } from '../index.js';
+import type {
+  WithDripConfig,
+  DripContext,
+  X402ResponseHeaders,
+  GenericRequest,
+} from './types.js';
+import { DripMiddlewareError } from './types.js';
+import {
+  processRequest,
+  completeDeferredCharge,
+  runDeferredCharge,
+  holdStreamUntil,
+  meterStream,
+  hasPaymentProof,
+  type ProcessRequestSuccess,
+} from './core.js';
+
+// ============================================================================
+// Edge Types
+// ============================================================================
+
+/**
+ * Handler with Drip context.
+ */
+export type DripFetchHandler = (
+  request: Request,
+  context: DripContext,
+) => Response | Promise<Response>;
+
+/**
+ * Hono context type.
+ * We use a minimal interface to avoid requiring hono as a dependency.
+ */
+export interface HonoContext {
+  req: { raw: Request };
+  res: Response;
+  set(key: 'drip', value: DripContext): void;
+}
+
+/**
+ * Hono next function.
+ */
+export type HonoNext = () => Promise<void>;
+
+/**
+ * Hono middleware type.
+ */
+export type HonoMiddleware = (c: HonoContext, next: HonoNext) => Promise<Response | void>;
+
+/**
+ * Configuration specific to the edge adapter.
+ */
+export interface EdgeDripConfig extends WithDripConfig<Request> {
+  /**
+   * Custom error response generator.
+   * Return a Response to override default error handling.
+   */
+  errorResponse?: (
+    error: DripMiddlewareError,
+    request: Request,
+  ) => Response | Promise<Response> | null;
+
+  /**
+   * Compute the billed quantity from the handler's response, e.g. tokens
+   * generated. Receives a clone, so reading its body doesn't affect what the
+   * client gets, but the body is held in memory until the clone is read.
+   * For long streams, use `quantityFromChunk` instead.
+   *
+   * Implies `chargeTiming: 'after'` unless `'reserve'` is set; `quantity` is
+   * then only used to estimate up-front payment requests.
+   */
+  quantityFromResponse?: (response: Response, request: Request) => number | Promise<number>;
+
+  /**
+   * Compute the billed quantity of each chunk of a streamed response body,
+   * as it passes through to the client. Chunk quantities are added up and
+   * charged once the stream ends (or the client disconnects), so only what
+   * was delivered is billed and nothing is buffered. Takes precedence over `quantityFromResponse`.
+   *
+   * Implies `chargeTiming: 'after'` unless `'reserve'` is set.
+   */
+  quantityFromChunk?: (chunk: Uint8Array, request: Request) => number;
+}
+
+/**
+ * A request that passed billing and may still owe a deferred charge.
+ */
+interface AcceptedRequest {
+  context: DripContext;
+  genericRequest: GenericRequest;
+  genericConfig: WithDripConfig<GenericRequest>;
+  result: ProcessRequestSuccess;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert Headers to a plain object.
+ */
+function headersToObject(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    result[key.toLowerCase()] = value;
+  });
+  return result;
+}
+
+/**
+ * Read the query string of a request URL into a plain object.
+ */
+function queryToObject(url: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  new URL(url).searchParams.forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+/**
+ * Create a JSON error response.
+ */
+function errorResponse(
+  message: string,
+  code: string,
+  status: number,
+  details?: Record<string, unknown>,
+): Response {
+  return Response.json(
+    {
+      error: message,
+      code,
+      ...(details && { details }),
+    },
+    { status },
+  );
+}
+
+/**
+ * Create a 402 Payment Required response with x402 headers.
+ */
+function paymentRequiredResponse(
+  headers: X402ResponseHeaders,
+  paymentRequest: {
+    amount: string;
+    recipient: string;
+    usageId: string;
+    description: string;
+    expiresAt: number;
+    nonce: string;
+    timestamp: number;
+  },
+): Response {
+  const responseHeaders = new Headers(headers as unknown as Record<string, string>);
+  responseHeaders.set('Content-Type', 'application/json');
+
+  return new Response(
+    JSON.stringify({
+      error: 'Payment required',
+      code: 'PAYMENT_REQUIRED',
+      paymentRequest,
+      instructions: {
+        step1: 'Sign the payment message with your session key (EIP-191 personal_sign)',
+        step2: 'Retry the request with X-Payment-* headers',
+        documentation: 'https://docs.drip.dev/x402',
+      },
+    }),
+    {
+      status: 402,
+      headers: responseHeaders,
+    },
+  );
+}
+
+/**
+ * Run a request through Drip billing. Returns the response to send instead
+ * of calling the handler, or the accepted request's context.
+ */
+async function acceptRequest(
+  config: EdgeDripConfig,
+  request: Request,
+): Promise<{ response: Response } | AcceptedRequest> {
+  if ((config.quantityFromResponse || config.quantityFromChunk) && config.chargeTiming === 'before') {
+    return {
+      response: errorResponse(
+        'quantityFromResponse and quantityFromChunk need chargeTiming "after" or "reserve".',
+        'CONFIGURATION_ERROR',
+        500,
+      ),
+    };
+  }
+
+  // Convert the Request to generic format
+  const genericRequest: GenericRequest = {
+    method: request.method,
+    url: request.url,
+    headers: headersToObject(request.headers),
+    query: queryToObject(request.url),
+  };
+
+  // Resolve quantity if it's a function (needs access to original request)
+  const resolvedQuantity = typeof config.quantity === 'function'
+    ? await config.quantity(request)
+    : config.quantity;
+
+  // Resolve customer ID if it's a function - wrap to use original request
+  let resolvedCustomerResolver: 'header' | 'query' | ((req: GenericRequest) => string | Promise<string>) | undefined;
+  if (typeof config.customerResolver === 'function') {
+    const originalResolver = config.customerResolver;
+    resolvedCustomerResolver = async () => originalResolver(request);
+  } else {
+    resolvedCustomerResolver = config.customerResolver;
+  }
+
+  // Resolve idempotencyKey if it's a function
+  let resolvedIdempotencyKey: ((req: GenericRequest) => string | Promise<string>) | undefined;
+  if (typeof config.idempotencyKey === 'function') {
+    const originalIdempotencyKey = config.idempotencyKey;
+    resolvedIdempotencyKey = async () => originalIdempotencyKey(request);
+  }
+
+  // Resolve metadata if it's a function
+  const resolvedMetadata = typeof config.metadata === 'function'
+    ? config.metadata(request)
+    : config.metadata;
+
+  // Create a generic config for processRequest
+  const genericConfig: WithDripConfig<GenericRequest> = {
+    meter: config.meter,
+    quantity: resolvedQuantity,
+    chargeTiming: config.chargeTiming
+      ?? (config.quantityFromResponse || config.quantityFromChunk ? 'after' : undefined),
+    apiKey: config.apiKey,
+    baseUrl: config.baseUrl,
+    drip: config.drip,
+    customerResolver: resolvedCustomerResolver,
+    idempotencyKey: resolvedIdempotencyKey,
+    metadata: resolvedMetadata,
+    skipInDevelopment: config.skipInDevelopment,
+    requireBalance: config.requireBalance,
+    paymentVerifier: config.paymentVerifier,
+    nonceStore: config.nonceStore,
+    recipient: config.recipient,
+    // Clear callbacks that need the original request type
+    onCharge: undefined,
+    onError: undefined,
+  };
+
+  // Process the request through Drip billing
+  const result = await processRequest(genericRequest, genericConfig);
+
+  if (!result.success) {
+    // Handle custom error response
+    if (config.errorResponse) {
+      const customResponse = await config.errorResponse(result.error, request);
+      if (customResponse) {
+        return { response: customResponse };
+      }
+    }
+
+    // Handle 402 Payment Required
+    if (result.paymentRequired) {
+      return {
+        response: paymentRequiredResponse(
+          result.paymentRequired.headers,
+          result.paymentRequired.paymentRequest,
+        ),
+      };
+    }
+
+    return {
+      response: errorResponse(
+        result.error.message,
+        result.error.code,
+        result.error.statusCode,
+        result.error.details,
+      ),
+    };
+  }
+
+  // Call original onCharge callback if provided
+  if (config.onCharge && !result.deferred) {
+    await config.onCharge(result.charge, request);
+  }
+
+  const context: DripContext = {
+    drip: result.drip,
+    customerId: result.state.customerId,
+    charge: result.charge,
+    isDuplicate: result.isDuplicate,
+    paymentProof: result.state.paymentProof,
+  };
+
+  return { context, genericRequest, genericConfig, result };
+}
+
+/**
+ * Make a deferred charge for a successful response. Returns the response to
+ * send, which may hold a streamed body open until the charge completes.
+ */
+async function settleResponse(
+  config: EdgeDripConfig,
+  request: Request,
+  accepted: AcceptedRequest,
+  response: Response,
+): Promise<Response> {
+  const { result } = accepted;
+
+  // Deferred charge: only bill for successful responses
+  if (!result.deferred || response.status < 200 || response.status >= 300) {
+    return response;
+  }
+
+  const onError = config.onError ? (error: DripError) => config.onError!(error, request) : undefined;
+  const settle = (quantity: () => number | Promise<number>): Promise<void> => runDeferredCharge(result.drip, async () => {
+    const billed = await quantity();
+    if (billed <= 0) {
+      return null;
+    }
+    const charged = await completeDeferredCharge(accepted.genericRequest, { ...accepted.genericConfig, onError }, result, billed);
+    if (charged.success && config.onCharge) {
+      await config.onCharge(charged.charge, request);
+    }
+    return charged;
+  }, onError);
+
+  // Meter the body as it streams; nothing delivered means nothing to bill
+  const quantityFromChunk = config.quantityFromChunk;
+  if (quantityFromChunk) {
+    if (!response.body) {
+      return response;
+    }
+    return new Response(meterStream(
+      response.body,
+      (chunk) => quantityFromChunk(chunk, request),
+      (delivered) => settle(() => delivered),
+    ), response);
+  }
+
+  // Awaited so the charge completes before the isolate is frozen
+  if (!config.quantityFromResponse) {
+    await settle(() => result.state.quantity);
+    return response;
+  }
+
+  const measured = response.clone();
+  const quantityFromResponse = config.quantityFromResponse;
+  const charge = settle(() => quantityFromResponse(measured, request));
+
+  if (!response.body) {
+    await charge;
+    return response;
+  }
+  return new Response(holdStreamUntil(response.body, charge), response);
+}
+
+// ============================================================================
+// Fetch Handler Wrapper
+// ============================================================================
+
+/**
+ * Wrap a `fetch`-style handler with Drip billing.
+ *
+ * This wrapper:
+ * 1. Resolves the customer ID from headers or query
+ * 2. Checks customer balance
+ * 3. If insufficient, returns 402 with x402 payment headers
+ * 4. If payment proof provided, verifies and processes
+ * 5. Charges the customer
+ * 6. Calls your handler with the Drip context
+ *
+ * @param config - Configuration for billing
+ * @param handler - Your request handler
+ * @returns A `(request: Request) => Promise<Response>` handler
+ *
+ * @example
+ * ```typescript
+ * // Cloudflare Worker
+ * export default {
+ *   fetch: withDrip({ meter: 'api_calls', quantity: 1 }, async (request, { customerId }) => {
+ *     return Response.json({ customerId });
+ *   }),
+ * };
+ *
+ * // Bun
+ * Bun.serve({ fetch: withDrip({ meter: 'api_calls', quantity: 1 }, handler) });
+ * ```
+ */
+export function withDrip(
+  config: EdgeDripConfig,
+  handler: DripFetchHandler,
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const accepted = await acceptRequest(config, request);
+    if ('response' in accepted) {
+      return accepted.response;
+    }
+
+    const response = await handler(request, accepted.context);
+    return settleResponse(config, request, accepted, response);
+  };
+}
+
+// ============================================================================
+// Hono Middleware
+// ============================================================================
+
+/**
+ * Hono middleware for Drip billing.
+ *
+ * Bills like {@link withDrip} and sets the Drip context as the `drip`
+ * context variable. Declare it in your app's `Variables` to read it with
+ * `c.get('drip')`.
+ *
+ * @param config - Configuration for billing
+ * @returns Hono middleware
+ *
+ * @example
+ * ```typescript
+ * const app = new Hono<{ Variables: { drip: DripContext } }>();
+ *
+ * app.use('/api/ai/*', dripMiddleware({
+ *   meter: 'tokens',
+ *   quantity: 1000,
+ *   quantityFromResponse: async (response) => (await response.json()).usage.total_tokens,
+ * }));
+ * ```
+ */
+export function dripMiddleware(config: EdgeDripConfig): HonoMiddleware {
+  return async (c, next) => {
+    const request = c.req.raw;
+    const accepted = await acceptRequest(config, request);
+    if ('response' in accepted) {
+      return accepted.response;
+    }
+
+    c.set('drip', accepted.context);
+    await next();
+
+    const response = await settleResponse(config, request, accepted, c.res);
+    if (response !== c.res) {
+      c.res = response;
+    }
+  };
+}
+
+// ============================================================================
+// Convenience Exports
+// ============================================================================
+
+/**
+ * Create a withDrip wrapper with default configuration.
+ * Useful for consistent settings across multiple handlers.
+ *
+ * @example
+ * ```typescript
+ * const withDrip = createWithDrip({ apiKey: env.DRIP_API_KEY });
+ *
+ * export default { fetch: withDrip({ meter: 'api_calls', quantity: 1 }, handler) };
+ * ```
+ */
+export function createWithDrip(
+  defaults: Partial<Omit<EdgeDripConfig, 'meter' | 'quantity'>>,
+): (
+  config: Pick<EdgeDripConfig, 'meter' | 'quantity'> & Partial<Omit<EdgeDripConfig, 'meter' | 'quantity'>>,
+  handler: DripFetchHandler,
+) => (request: Request) => Promise<Response> {
+  return (config, handler) => {
+    return withDrip({ ...defaults, ...config } as EdgeDripConfig, handler);
+  };
+}
+
+/**
+ * Check if a request has x402 payment proof headers.
+ * Useful for conditional logic in handlers.
+ */
+export function hasPaymentProofHeaders(request: Request): boolean {
+  return hasPaymentProof(headersToObject(request.headers));
+}
@@ -0,0 +1,316 @@
+/**
+ * Drip EIP-191 Signature Recovery
+ *
+ * Minimal keccak-256 and secp256k1 public key recovery, enough to check an
+ * Ethereum `personal_sign` (EIP-191 version 0x45) signature without pulling
+ * in a crypto dependency. Only recovery is implemented; signing happens in
+ * the client's wallet.
+ */
+
+// ============================================================================
+// Keccak-256
+// ============================================================================
+
+const MASK_64 = (1n << 64n) - 1n;
+
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+// Rotation offsets, indexed by x + 5y
+const ROTATIONS = [
+  0, 1, 62, 28, 27,
+  36, 44, 6, 55, 20,
+  3, 10, 43, 25, 39,
+  41, 45, 15, 21, 8,
+  18, 2, 61, 56, 14,
+];
+
+function rotl64(value: bigint, shift: number): bigint {
+  if (shift === 0) return value;
+  const s = BigInt(shift);
+  return ((value << s) | (value >> (64n - s))) & MASK_64;
+}
+
+function keccakF1600(state: bigint[]): void {
+  const c = new Array<bigint>(5);
+  const b = new Array<bigint>(25);
+
+  for (const rc of ROUND_CONSTANTS) {
+    // Theta
+    for (let x = 0; x < 5; x++) {
+      c[x] = state[x]! ^ state[x + 5]! ^ state[x + 10]! ^ state[x + 15]! ^ state[x + 20]!;
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5]! ^ rotl64(c[(x + 1) % 5]!, 1);
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y] = state[x + y]! ^ d;
+      }
+    }
+
+    // Rho and Pi
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl64(state[x + 5 * y]!, ROTATIONS[x + 5 * y]!);
+      }
+    }
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = b[x + y]! ^ (~b[((x + 1) % 5) + y]! & MASK_64 & b[((x + 2) % 5) + y]!);
+      }
+    }
+
+    // Iota
+    state[0] = state[0]! ^ rc;
+  }
+}
+
+/**
+ * Keccak-256 (the pre-standard SHA-3 padding used by Ethereum).
+ */
+export function keccak256(data: Uint8Array): Uint8Array {
+  const rate = 136;
+  const padded = new Uint8Array((Math.floor(data.length / rate) + 1) * rate);
+  padded.set(data);
+  padded[data.length] = 0x01;
+  padded[padded.length - 1]! |= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let i = 0; i < rate / 8; i++) {
+      let lane = 0n;
+      for (let j = 7; j >= 0; j--) {
+        lane = (lane << 8n) | BigInt(padded[offset + i * 8 + j]!);
+      }
+      state[i] = state[i]! ^ lane;
+    }
+    keccakF1600(state);
+  }
+
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 4; i++) {
+    let lane = state[i]!;
+    for (let j = 0; j < 8; j++) {
+      out[i * 8 + j] = Number(lane & 0xffn);
+      lane >>= 8n;
+    }
+  }
+  return out;
+}
+
+// ============================================================================
+// secp256k1
+// ============================================================================
+
+const P = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const G: AffinePoint = {
+  x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+};
+
+interface AffinePoint {
+  x: bigint;
+  y: bigint;
+}
+
+/** Jacobian coordinates; Z = 0 is the point at infinity. */
+interface JacobianPoint {
+  x: bigint;
+  y: bigint;
+  z: bigint;
+}
+
+function mod(a: bigint, m: bigint): bigint {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+}
+
+function modPow(base: bigint, exponent: bigint, m: bigint): bigint {
+  let result = 1n;
+  let b = mod(base, m);
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % m;
+    b = (b * b) % m;
+    e >>= 1n;
+  }
+  return result;
+}
+
+function modInverse(a: bigint, m: bigint): bigint {
+  // m is prime for both P and N
+  return modPow(a, m - 2n, m);
+}
+
+function pointDouble(p: JacobianPoint): JacobianPoint {
+  if (p.z === 0n || p.y === 0n) {
+    return { x: 0n, y: 1n, z: 0n };
+  }
+  const a = (p.x * p.x) % P;
+  const b = (p.y * p.y) % P;
+  const c = (b * b) % P;
+  const d = mod(2n * ((p.x + b) ** 2n - a - c), P);
+  const e = (3n * a) % P;
+  const f = (e * e) % P;
+  const x = mod(f - 2n * d, P);
+  const y = mod(e * (d - x) - 8n * c, P);
+  const z = mod(2n * p.y * p.z, P);
+  return { x, y, z };
+}
+
+function pointAdd(p: JacobianPoint, q: JacobianPoint): JacobianPoint {
+  if (p.z === 0n) return q;
+  if (q.z === 0n) return p;
+
+  const z1z1 = (p.z * p.z) % P;
+  const z2z2 = (q.z * q.z) % P;
+  const u1 = (p.x * z2z2) % P;
+  const u2 = (q.x * z1z1) % P;
+  const s1 = (p.y * q.z * z2z2) % P;
+  const s2 = (q.y * p.z * z1z1) % P;
+
+  if (u1 === u2) {
+    return s1 === s2 ? pointDouble(p) : { x: 0n, y: 1n, z: 0n };
+  }
+
+  const h = mod(u2 - u1, P);
+  const r = mod(s2 - s1, P);
+  const h2 = (h * h) % P;
+  const h3 = (h * h2) % P;
+  const u1h2 = (u1 * h2) % P;
+  const x = mod(r * r - h3 - 2n * u1h2, P);
+  const y = mod(r * (u1h2 - x) - s1 * h3, P);
+  const z = (h * p.z * q.z) % P;
+  return { x, y, z };
+}
+
+function pointMultiply(point: AffinePoint, scalar: bigint): JacobianPoint {
+  let result: JacobianPoint = { x: 0n, y: 1n, z: 0n };
+  let addend: JacobianPoint = { x: point.x, y: point.y, z: 1n };
+  let k = scalar;
+  while (k > 0n) {
+    if (k & 1n) result = pointAdd(result, addend);
+    addend = pointDouble(addend);
+    k >>= 1n;
+  }
+  return result;
+}
+
+function toAffine(p: JacobianPoint): AffinePoint | null {
+  if (p.z === 0n) return null;
+  const zInv = modInverse(p.z, P);
+  const zInv2 = (zInv * zInv) % P;
+  return { x: (p.x * zInv2) % P, y: (p.y * zInv2 * zInv) % P };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value;
+}
+
+function bigIntTo32Bytes(value: bigint): Uint8Array {
+  const out = new Uint8Array(32);
+  let v = value;
+  for (let i = 31; i >= 0; i--) {
+    out[i] = Number(v & 0xffn);
+    v >>= 8n;
+  }
+  return out;
+}
+
+function hexToBytes(hex: string): Uint8Array | null {
+  const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+    return null;
+  }
+  const out = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return out;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ============================================================================
+// EIP-191
+// ============================================================================
+
+/**
+ * Hash a message the way `personal_sign` does:
+ * `keccak256("\x19Ethereum Signed Message:\n" + length + message)`.
+ */
+export function hashPersonalMessage(message: string): Uint8Array {
+  const body = new TextEncoder().encode(message);
+  const prefix = new TextEncoder().encode(`\x19Ethereum Signed Message:\n${body.length}`);
+  const data = new Uint8Array(prefix.length + body.length);
+  data.set(prefix);
+  data.set(body, prefix.length);
+  return keccak256(data);
+}
+
+/**
+ * Recover the address that produced a 65-byte `r || s || v` signature over
+ * a 32-byte hash.
+ *
+ * @returns Lower-case `0x` address, or null if the signature is invalid
+ */
+export function recoverAddress(hash: Uint8Array, signature: string): string | null {
+  const sig = hexToBytes(signature);
+  if (!sig || sig.length !== 65 || hash.length !== 32) {
+    return null;
+  }
+
+  const r = bytesToBigInt(sig.subarray(0, 32));
+  const s = bytesToBigInt(sig.subarray(32, 64));
+  const v = sig[64]!;
+  const recoveryId = v >= 27 ? v - 27 : v;
+
+  if (recoveryId !== 0 && recoveryId !== 1) return null;
+  if (r <= 0n || r >= N || s <= 0n || s >= N) return null;
+
+  // Lift r to the curve point R with the parity given by the recovery ID
+  const alpha = mod(r * r * r + 7n, P);
+  const beta = modPow(alpha, (P + 1n) / 4n, P);
+  if ((beta * beta) % P !== alpha) return null;
+  const y = (beta & 1n) === BigInt(recoveryId) ? beta : P - beta;
+
+  // Q = r^-1 (sR - eG)
+  const e = mod(bytesToBigInt(hash), N);
+  const rInv = modInverse(r, N);
+  const u1 = mod(-e * rInv, N);
+  const u2 = mod(s * rInv, N);
+  const q = toAffine(pointAdd(pointMultiply(G, u1), pointMultiply({ x: r, y }, u2)));
+  if (!q) return null;
+
+  const publicKey = new Uint8Array(64);
+  publicKey.set(bigIntTo32Bytes(q.x));
+  publicKey.set(bigIntTo32Bytes(q.y), 32);
+  return `0x${bytesToHex(keccak256(publicKey).subarray(12))}`;
+}
+
+/**
+ * Recover the signer of an EIP-191 `personal_sign` signature.
+ *
+ * @returns Lower-case `0x` address, or null if the signature is invalid
+ */
+export function recoverPersonalMessageSigner(message: string, signature: string): string | null {
+  return recoverAddress(hashPersonalMessage(message), signature);
+}
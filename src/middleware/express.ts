@@ -25,7 +25,7 @@
  * ```
  */
 
-import type { Drip } from '../index.js';
+import type { Drip, DripError } from '../index.js';
 import type {
   WithDripConfig,
   DripContext,
@@ -35,8 +35,14 @@ import type {
 import { DripMiddlewareError } from './types.js';
 import {
   processRequest,
+  completeDeferredCharge,
+  runDeferredCharge,
   hasPaymentProof,
 } from './core.js';
+import {
+  createWebhookProcessor,
+  type DripWebhookHandlerConfig,
+} from './webhooks.js';
 
 // ============================================================================
 // Express Types
@@ -65,6 +71,10 @@ export interface ExpressResponse {
   set(headers: Record<string, string>): ExpressResponse;
   json(body: unknown): void;
   send(body: unknown): void;
+  statusCode?: number;
+  on?(event: 'finish', listener: () => void): unknown;
+  write?(...args: unknown[]): unknown;
+  end?(...args: unknown[]): unknown;
 }
 
 /**
@@ -107,6 +117,64 @@ export interface ExpressDripConfig extends WithDripConfig<ExpressRequest> {
    * @default true
    */
   attachToRequest?: boolean;
+
+  /**
+   * Compute the billed quantity from the response, e.g. tokens generated.
+   * Receives the value passed to `res.json()`, or else everything written
+   * with `res.write()`/`res.end()` as a Buffer.
+   *
+   * Implies `chargeTiming: 'after'` unless `'reserve'` is set; `quantity` is
+   * then only used to estimate up-front payment requests.
+   */
+  quantityFromResponse?: (body: unknown, req: ExpressRequest) => number | Promise<number>;
+}
+
+/**
+ * Billing for one entry of a routing table: options merged over the
+ * middleware's (at least `meter` and `quantity` between the two), or
+ * `'free'` to pass the request through without billing.
+ */
+export type ExpressDripRoute = 'free' | Partial<ExpressDripConfig>;
+
+/**
+ * Configuration for one middleware mounted at the app level, billing each
+ * route from a routing table. Top-level options are defaults for every route.
+ */
+export interface ExpressDripRoutesConfig extends Partial<ExpressDripConfig> {
+  /**
+   * Routing table. Keys are `'METHOD /path'`, or `'/path'` for any method,
+   * matched against `req.path` in order; the first match wins. `:name`
+   * matches one path segment and `*` matches anything. `GET` routes also
+   * match `HEAD` requests.
+   *
+   * @example
+   * ```typescript
+   * routes: {
+   *   'GET /health': 'free',
+   *   'POST /api/images': { meter: 'images', quantity: 1 },
+   *   'POST /api/chat/:model': { meter: 'tokens', quantity: (req) => req.body.maxTokens },
+   *   '/api/*': { meter: 'api_calls', quantity: 1 },
+   * }
+   * ```
+   */
+  routes: Record<string, ExpressDripRoute>;
+
+  /**
+   * What to do with requests no route matches:
+   * - `'pass'`: call next() without billing (default)
+   * - `'reject'`: respond 404 with code `ROUTE_NOT_FOUND`
+   * @default 'pass'
+   */
+  unmatchedRoutes?: 'pass' | 'reject';
+}
+
+/**
+ * A compiled routing table entry.
+ */
+interface CompiledRoute {
+  method?: string;
+  path: RegExp;
+  handler: ExpressMiddleware | 'free';
 }
 
 // ============================================================================
@@ -126,6 +194,75 @@ function normalizeHeaders(
   return result;
 }
 
+/**
+ * Record what the handler sends so the billed quantity can be derived from
+ * it. Returns a getter for the `res.json()` value, or the written bytes.
+ */
+function captureResponseBody(res: ExpressResponse): () => unknown {
+  let jsonBody: { value: unknown } | undefined;
+  const chunks: Buffer[] = [];
+
+  const toBuffer = (chunk: unknown, encoding: unknown): Buffer | null => {
+    if (typeof chunk === 'string') {
+      return Buffer.from(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8');
+    }
+    return chunk instanceof Uint8Array ? Buffer.from(chunk) : null;
+  };
+
+  const originalJson = res.json.bind(res);
+  res.json = (body: unknown) => {
+    jsonBody = { value: body };
+    return originalJson(body);
+  };
+
+  const originalWrite = res.write?.bind(res);
+  if (originalWrite) {
+    res.write = (...args: unknown[]) => {
+      const buffer = toBuffer(args[0], args[1]);
+      if (buffer) chunks.push(buffer);
+      return originalWrite(...args);
+    };
+  }
+
+  const originalEnd = res.end?.bind(res);
+  if (originalEnd) {
+    res.end = (...args: unknown[]) => {
+      const buffer = toBuffer(args[0], args[1]);
+      if (buffer) chunks.push(buffer);
+      return originalEnd(...args);
+    };
+  }
+
+  return () => (jsonBody ? jsonBody.value : Buffer.concat(chunks));
+}
+
+/**
+ * Compile a routing table key (`'METHOD /path'` or `'/path'`).
+ */
+function compileRoutePattern(pattern: string): Omit<CompiledRoute, 'handler'> {
+  const parts = pattern.trim().split(/\s+/);
+  const [method, path] = parts.length === 2 ? parts : [undefined, parts[0]];
+  if (parts.length > 2 || !path?.startsWith('/')) {
+    throw new DripMiddlewareError(
+      `Invalid route "${pattern}". Use "METHOD /path" or "/path".`,
+      'CONFIGURATION_ERROR',
+      500,
+    );
+  }
+
+  const source = path
+    .replace(/\/+$/, '')
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/:\w+/g, '[^/]+')
+    .replace(/\*/g, '.*');
+
+  return {
+    method: method === undefined || method === '*' ? undefined : method.toUpperCase(),
+    // Case-insensitive with an optional trailing slash, like Express routing
+    path: new RegExp(`^${source}/?$`, 'i'),
+  };
+}
+
 /**
  * Send a 402 Payment Required response.
  */
@@ -147,7 +284,7 @@ function sendPaymentRequired(
     code: 'PAYMENT_REQUIRED',
     paymentRequest,
     instructions: {
-      step1: 'Sign the payment request with your session key using EIP-712',
+      step1: 'Sign the payment message with your session key (EIP-191 personal_sign)',
       step2: 'Retry the request with X-Payment-* headers',
       documentation: 'https://docs.drip.dev/x402',
     },
@@ -203,9 +340,23 @@ function sendError(
  *   meter: 'tokens',
  *   quantity: (req) => req.body?.maxTokens ?? 100,
  * }));
+ *
+ * // Or once for the whole app, with a routing table
+ * app.use(dripMiddleware({
+ *   routes: {
+ *     'GET /health': 'free',
+ *     'POST /api/ai/*': { meter: 'tokens', quantity: (req) => req.body?.maxTokens ?? 100 },
+ *     '/api/*': { meter: 'api_calls', quantity: 1 },
+ *   },
+ *   unmatchedRoutes: 'reject',
+ * }));
  * ```
  */
-export function dripMiddleware(config: ExpressDripConfig): ExpressMiddleware {
+export function dripMiddleware(config: ExpressDripConfig | ExpressDripRoutesConfig): ExpressMiddleware {
+  if ('routes' in config) {
+    return routedDripMiddleware(config);
+  }
+
   const attachToRequest = config.attachToRequest ?? true;
 
   return async (req, res, next) => {
@@ -248,17 +399,33 @@ export function dripMiddleware(config: ExpressDripConfig): ExpressMiddleware {
     const genericConfig: WithDripConfig<typeof genericRequest> = {
       meter: config.meter,
       quantity: resolvedQuantity,
+      chargeTiming: config.chargeTiming ?? (config.quantityFromResponse ? 'after' : undefined),
       apiKey: config.apiKey,
       baseUrl: config.baseUrl,
+      drip: config.drip,
       customerResolver: resolvedCustomerResolver,
       idempotencyKey: resolvedIdempotencyKey,
       metadata: resolvedMetadata,
       skipInDevelopment: config.skipInDevelopment,
+      requireBalance: config.requireBalance,
+      paymentVerifier: config.paymentVerifier,
+      nonceStore: config.nonceStore,
+      recipient: config.recipient,
       // Clear callbacks that need the original request type
       onCharge: undefined,
       onError: undefined,
     };
 
+    if (config.quantityFromResponse && config.chargeTiming === 'before') {
+      sendError(
+        res,
+        'quantityFromResponse needs chargeTiming "after" or "reserve".',
+        'CONFIGURATION_ERROR',
+        500,
+      );
+      return;
+    }
+
     // Process the request through Drip billing
     const result = await processRequest(genericRequest, genericConfig);
 
@@ -293,16 +460,58 @@ export function dripMiddleware(config: ExpressDripConfig): ExpressMiddleware {
     }
 
     // Call original onCharge callback if provided
-    if (config.onCharge) {
+    if (config.onCharge && !result.deferred) {
       await config.onCharge(result.charge, req);
     }
 
+    // Deferred charge: bill once the response has been sent with a 2xx status
+    if (result.deferred) {
+      if (!res.on) {
+        sendError(
+          res,
+          'chargeTiming "after" and "reserve" need a response that emits "finish".',
+          'CONFIGURATION_ERROR',
+          500,
+        );
+        return;
+      }
+
+      const deferredResult = result;
+      const readBody = config.quantityFromResponse ? captureResponseBody(res) : null;
+
+      res.on('finish', () => {
+        const status = res.statusCode ?? 200;
+        if (status < 200 || status >= 300) {
+          return;
+        }
+        const onError = config.onError ? (error: DripError) => config.onError!(error, req) : undefined;
+        runDeferredCharge(deferredResult.drip, async () => {
+          const quantity = config.quantityFromResponse && readBody
+            ? await config.quantityFromResponse(readBody(), req)
+            : deferredResult.state.quantity;
+          if (quantity <= 0) {
+            return null;
+          }
+
+          const charged = await completeDeferredCharge(genericRequest, {
+            ...genericConfig,
+            onError,
+          }, deferredResult, quantity);
+          if (charged.success && config.onCharge) {
+            await config.onCharge(charged.charge, req);
+          }
+          return charged;
+        }, onError);
+      });
+    }
+
     // Build context
     const dripContext: DripContext = {
       drip: result.drip,
       customerId: result.state.customerId,
       charge: result.charge,
       isDuplicate: result.isDuplicate,
+      paymentProof: result.state.paymentProof,
     };
 
     // Attach to request if configured
@@ -315,6 +524,153 @@ export function dripMiddleware(config: ExpressDripConfig): ExpressMiddleware {
   };
 }
 
+/**
+ * Express middleware that bills each request by the routing table entry its
+ * method and path match.
+ */
+function routedDripMiddleware(config: ExpressDripRoutesConfig): ExpressMiddleware {
+  const { routes, unmatchedRoutes = 'pass', ...defaults } = config;
+
+  // Build one billing middleware per route up front
+  const table: CompiledRoute[] = Object.entries(routes).map(([pattern, route]) => {
+    if (route === 'free') {
+      return { ...compileRoutePattern(pattern), handler: 'free' };
+    }
+    const routeConfig = { ...defaults, ...route };
+    if (routeConfig.meter === undefined || routeConfig.quantity === undefined) {
+      throw new DripMiddlewareError(
+        `Route "${pattern}" needs a meter and quantity, from the route or the middleware config.`,
+        'CONFIGURATION_ERROR',
+        500,
+      );
+    }
+    return { ...compileRoutePattern(pattern), handler: dripMiddleware(routeConfig as ExpressDripConfig) };
+  });
+
+  return async (req, res, next) => {
+    const method = req.method.toUpperCase();
+    const route = table.find((r) =>
+      (r.method === undefined || r.method === method || (r.method === 'GET' && method === 'HEAD'))
+      && r.path.test(req.path),
+    );
+
+    if (route) {
+      if (route.handler === 'free') {
+        next();
+        return;
+      }
+      await route.handler(req, res, next);
+      return;
+    }
+
+    if (unmatchedRoutes === 'pass') {
+      next();
+      return;
+    }
+
+    const error = new DripMiddlewareError(
+      `No billing route matches ${method} ${req.path}.`,
+      'ROUTE_NOT_FOUND',
+      404,
+    );
+    if (config.errorHandler && await config.errorHandler(error, req, res)) {
+      return;
+    }
+    sendError(res, error.message, error.code, error.statusCode);
+  };
+}
+
+// ============================================================================
+// Webhook Receiver
+// ============================================================================
+
+/**
+ * Express request as seen by the webhook handler.
+ * The raw body may come from `express.raw()`, a `rawBody` property set by a
+ * `verify` hook, or the unread request stream.
+ */
+export interface ExpressWebhookRequest extends ExpressRequest {
+  rawBody?: string | Uint8Array;
+  readableEnded?: boolean;
+  [Symbol.asyncIterator]?: () => AsyncIterator<string | Uint8Array>;
+}
+
+/**
+ * Get the exact bytes Drip signed. Parsed JSON cannot be used: re-serializing
+ * it changes whitespace and key order, so the signature would not match.
+ */
+async function readRawBody(req: ExpressWebhookRequest): Promise<string | Uint8Array | null> {
+  if (typeof req.body === 'string' || req.body instanceof Uint8Array) {
+    return req.body;
+  }
+  if (req.rawBody !== undefined) {
+    return req.rawBody;
+  }
+  if (req.body === undefined && !req.readableEnded && req[Symbol.asyncIterator]) {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of req as AsyncIterable<string | Uint8Array>) {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+  return null;
+}
+
+/**
+ * Express handler that receives Drip webhooks.
+ *
+ * Verifies the `x-drip-signature` header against the raw body, acknowledges
+ * duplicate deliveries, and dispatches each event to the matching typed
+ * handler. Mount it before any JSON body parser, or use `express.raw()`.
+ *
+ * Responds `200` when handled (or no handler is registered), `400` when
+ * verification fails, and `500` when a handler throws so Drip retries.
+ *
+ * @param config - Secrets and event handlers
+ * @returns Express middleware
+ *
+ * @example
+ * ```typescript
+ * app.post('/webhooks/drip', express.raw({ type: 'application/json' }), dripWebhookHandler({
+ *   secret: [process.env.DRIP_WEBHOOK_SECRET!, process.env.DRIP_WEBHOOK_SECRET_OLD!],
+ *   on: {
+ *     'charge.failed': async (event) => {
+ *       await notifyBilling(event.data.customerId, event.data.failureReason);
+ *     },
+ *     'customer.balance.low': async (event) => {
+ *       await promptTopUp(event.data.customerId);
+ *     },
+ *   },
+ * }));
+ * ```
+ */
+export function dripWebhookHandler(config: DripWebhookHandlerConfig): ExpressMiddleware {
+  const processWebhook = createWebhookProcessor(config);
+
+  return async (req, res, next) => {
+    let rawBody: string | Uint8Array | null;
+    try {
+      rawBody = await readRawBody(req as ExpressWebhookRequest);
+    } catch (error) {
+      next(error);
+      return;
+    }
+
+    if (rawBody === null) {
+      sendError(
+        res,
+        'Raw request body is unavailable. Mount dripWebhookHandler before express.json() or use express.raw().',
+        'CONFIGURATION_ERROR',
+        500,
+      );
+      return;
+    }
+
+    const result = await processWebhook(rawBody, req.headers);
+    res.status(result.status).json(result.body);
+  };
+}
+
 // ============================================================================
 // Convenience Exports
 // ============================================================================
@@ -342,10 +698,12 @@ export function dripMiddleware(config: ExpressDripConfig): ExpressMiddleware {
 export function createDripMiddleware(
   defaults: Partial<Omit<ExpressDripConfig, 'meter' | 'quantity'>>,
 ): (
-  config: Pick<ExpressDripConfig, 'meter' | 'quantity'> & Partial<Omit<ExpressDripConfig, 'meter' | 'quantity'>>,
+  config:
+    | (Pick<ExpressDripConfig, 'meter' | 'quantity'> & Partial<Omit<ExpressDripConfig, 'meter' | 'quantity'>>)
+    | ExpressDripRoutesConfig,
 ) => ExpressMiddleware {
   return (config) => {
-    return dripMiddleware({ ...defaults, ...config } as ExpressDripConfig);
+    return dripMiddleware({ ...defaults, ...config } as ExpressDripConfig | ExpressDripRoutesConfig);
   };
 }
 
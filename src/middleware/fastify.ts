@@ -0,0 +1,495 @@
+/**
+ * Drip Fastify Adapter
+ *
+ * Provides the `dripPlugin` for Fastify applications.
+ * Routes opt in to billing through their `config.drip` options; the plugin
+ * handles the complete x402 payment flow for them.
+ *
+ * @example
+ * ```typescript
+ * import Fastify from 'fastify';
+ * import { dripPlugin } from '@drip-sdk/node/fastify';
+ *
+ * const app = Fastify();
+ *
+ * // Shared settings for every billed route
+ * await app.register(dripPlugin, {
+ *   apiKey: process.env.DRIP_API_KEY,
+ * });
+ *
+ * app.post('/api/generate', {
+ *   config: { drip: { meter: 'api_calls', quantity: 1 } },
+ * }, async (request) => {
+ *   // Payment already verified - request.drip contains context
+ *   console.log(`Charged: ${request.drip.charge.charge.amountUsdc} USDC`);
+ *   return { success: true };
+ * });
+ * ```
+ */
+
+import type { DripError } from '../index.js';
+import type {
+  WithDripConfig,
+  DripContext,
+  X402ResponseHeaders,
+  GenericRequest,
+} from './types.js';
+import { DripMiddlewareError } from './types.js';
+import {
+  processRequest,
+  completeDeferredCharge,
+  runDeferredCharge,
+  hasPaymentProof,
+  type ProcessRequestSuccess,
+} from './core.js';
+
+// ============================================================================
+// Fastify Types
+// ============================================================================
+
+/**
+ * Fastify request type.
+ * We use a minimal interface to avoid requiring fastify as a dependency.
+ */
+export interface FastifyRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: unknown;
+  params: unknown;
+  body?: unknown;
+  /** Route options (Fastify 4.10+) */
+  routeOptions?: { config?: unknown };
+  /** Route config (older Fastify versions) */
+  routeConfig?: unknown;
+}
+
+/**
+ * Fastify reply type.
+ */
+export interface FastifyReply {
+  statusCode: number;
+  sent?: boolean;
+  code(statusCode: number): FastifyReply;
+  headers(values: Record<string, string>): FastifyReply;
+  send(payload?: unknown): FastifyReply;
+}
+
+/**
+ * Fastify request hook, as registered with `addHook` or a route's `preHandler`.
+ */
+export type FastifyHook = (
+  request: FastifyRequest,
+  reply: FastifyReply,
+) => Promise<unknown>;
+
+/**
+ * Fastify payload hook (`preSerialization`, `onSend`).
+ */
+export type FastifyPayloadHook = (
+  request: FastifyRequest,
+  reply: FastifyReply,
+  payload: unknown,
+) => Promise<unknown>;
+
+/**
+ * The parts of the Fastify instance the plugin uses.
+ */
+export interface FastifyInstance {
+  decorateRequest(property: string, value: unknown): unknown;
+  hasRequestDecorator(property: string): boolean;
+  addHook(name: 'preHandler' | 'onResponse', hook: FastifyHook): unknown;
+  addHook(name: 'preSerialization' | 'onSend', hook: FastifyPayloadHook): unknown;
+}
+
+/**
+ * Extended Fastify request with Drip context.
+ */
+export interface DripFastifyRequest extends FastifyRequest {
+  drip: DripContext;
+}
+
+/**
+ * Configuration specific to Fastify adapter.
+ */
+export interface FastifyDripConfig extends WithDripConfig<FastifyRequest> {
+  /**
+   * Custom error handler.
+   * Return true to indicate the error was handled (a reply was sent).
+   */
+  errorHandler?: (
+    error: DripMiddlewareError,
+    request: FastifyRequest,
+    reply: FastifyReply,
+  ) => boolean | Promise<boolean>;
+
+  /**
+   * Compute the billed quantity from the response, e.g. tokens generated.
+   * Receives the value passed to `reply.send()` (or returned from the
+   * handler) before serialization; strings, Buffers and streams are passed
+   * as sent.
+   *
+   * Implies `chargeTiming: 'after'` unless `'reserve'` is set; `quantity` is
+   * then only used to estimate up-front payment requests.
+   */
+  quantityFromResponse?: (payload: unknown, request: FastifyRequest) => number | Promise<number>;
+}
+
+/**
+ * Plugin options: defaults shared by every billed route.
+ */
+export type FastifyDripPluginOptions = Partial<FastifyDripConfig>;
+
+/**
+ * Per-route billing, set as `config.drip` in the route options.
+ * Merged over the plugin options.
+ */
+export type FastifyDripRouteConfig =
+  Pick<FastifyDripConfig, 'meter'> & Partial<Omit<FastifyDripConfig, 'meter'>>;
+
+/**
+ * A charge waiting for the route's response.
+ */
+interface DeferredCharge {
+  config: FastifyDripConfig;
+  genericRequest: GenericRequest;
+  genericConfig: WithDripConfig<GenericRequest>;
+  result: ProcessRequestSuccess;
+  payload?: { value: unknown };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Normalize Fastify headers to a consistent format.
+ */
+function normalizeHeaders(
+  headers: Record<string, string | string[] | undefined>,
+): Record<string, string | undefined> {
+  const result: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    result[key.toLowerCase()] = Array.isArray(value) ? value[0] : value;
+  }
+  return result;
+}
+
+/**
+ * Get the `config.drip` route options, if the route is billed.
+ */
+function getRouteConfig(request: FastifyRequest): FastifyDripRouteConfig | undefined {
+  const config = (request.routeOptions?.config ?? request.routeConfig) as
+    | { drip?: FastifyDripRouteConfig }
+    | undefined;
+  return config?.drip;
+}
+
+/**
+ * Send a 402 Payment Required response.
+ */
+function sendPaymentRequired(
+  reply: FastifyReply,
+  headers: X402ResponseHeaders,
+  paymentRequest: {
+    amount: string;
+    recipient: string;
+    usageId: string;
+    description: string;
+    expiresAt: number;
+    nonce: string;
+    timestamp: number;
+  },
+): FastifyReply {
+  return reply.code(402).headers(headers as unknown as Record<string, string>).send({
+    error: 'Payment required',
+    code: 'PAYMENT_REQUIRED',
+    paymentRequest,
+    instructions: {
+      step1: 'Sign the payment message with your session key (EIP-191 personal_sign)',
+      step2: 'Retry the request with X-Payment-* headers',
+      documentation: 'https://docs.drip.dev/x402',
+    },
+  });
+}
+
+/**
+ * Send an error response.
+ */
+function sendError(
+  reply: FastifyReply,
+  message: string,
+  code: string,
+  status: number,
+  details?: Record<string, unknown>,
+): FastifyReply {
+  return reply.code(status).send({
+    error: message,
+    code,
+    ...(details && { details }),
+  });
+}
+
+// ============================================================================
+// Main Plugin
+// ============================================================================
+
+/**
+ * Fastify plugin for Drip billing.
+ *
+ * For every route with `config.drip` set, the plugin:
+ * 1. Resolves the customer ID from headers or query
+ * 2. Checks customer balance
+ * 3. If insufficient, replies 402 with x402 payment headers
+ * 4. If payment proof provided, verifies and processes
+ * 5. Charges the customer (or defers the charge, see `chargeTiming`)
+ * 6. Decorates the request with the Drip context as `request.drip`
+ *
+ * Routes without `config.drip` are not billed. Billing runs in a
+ * `preHandler` hook, so quantity and customer resolvers see the parsed body.
+ * The plugin is not encapsulated: register it once and it applies to routes
+ * declared after it in any context.
+ *
+ * @param fastify - Fastify instance
+ * @param options - Defaults for every billed route
+ *
+ * @example
+ * ```typescript
+ * await app.register(dripPlugin, {
+ *   customerResolver: (request) => request.headers['x-tenant-id'] as string,
+ * });
+ *
+ * app.post('/api/ai', {
+ *   config: {
+ *     drip: {
+ *       meter: 'tokens',
+ *       quantity: (request) => (request.body as { maxTokens?: number }).maxTokens ?? 100,
+ *     },
+ *   },
+ * }, handler);
+ * ```
+ */
+export async function dripPlugin(
+  fastify: FastifyInstance,
+  options: FastifyDripPluginOptions = {},
+): Promise<void> {
+  const deferredCharges = new WeakMap<FastifyRequest, DeferredCharge>();
+
+  if (!fastify.hasRequestDecorator('drip')) {
+    fastify.decorateRequest('drip', null);
+  }
+
+  fastify.addHook('preHandler', async (request, reply) => {
+    const routeConfig = getRouteConfig(request);
+    if (!routeConfig) {
+      return;
+    }
+    const config = { ...options, ...routeConfig } as FastifyDripConfig;
+
+    if (config.quantity === undefined) {
+      return sendError(reply, `Route billing for "${config.meter}" has no quantity.`, 'CONFIGURATION_ERROR', 500);
+    }
+    if (config.quantityFromResponse && config.chargeTiming === 'before') {
+      return sendError(
+        reply,
+        'quantityFromResponse needs chargeTiming "after" or "reserve".',
+        'CONFIGURATION_ERROR',
+        500,
+      );
+    }
+
+    // Convert Fastify request to generic format
+    const genericRequest: GenericRequest = {
+      method: request.method,
+      url: request.url,
+      headers: normalizeHeaders(request.headers),
+      query: (request.query ?? {}) as Record<string, string | undefined>,
+    };
+
+    // Resolve quantity if it's a function (needs access to original request)
+    const resolvedQuantity = typeof config.quantity === 'function'
+      ? await config.quantity(request)
+      : config.quantity;
+
+    // Resolve customer ID if it's a function - wrap to use original request
+    let resolvedCustomerResolver: 'header' | 'query' | ((r: GenericRequest) => string | Promise<string>) | undefined;
+    if (typeof config.customerResolver === 'function') {
+      const originalResolver = config.customerResolver;
+      resolvedCustomerResolver = async () => originalResolver(request);
+    } else {
+      resolvedCustomerResolver = config.customerResolver;
+    }
+
+    // Resolve idempotencyKey if it's a function
+    let resolvedIdempotencyKey: ((r: GenericRequest) => string | Promise<string>) | undefined;
+    if (typeof config.idempotencyKey === 'function') {
+      const originalIdempotencyKey = config.idempotencyKey;
+      resolvedIdempotencyKey = async () => originalIdempotencyKey(request);
+    }
+
+    // Resolve metadata if it's a function
+    const resolvedMetadata = typeof config.metadata === 'function'
+      ? config.metadata(request)
+      : config.metadata;
+
+    // Create a generic config for processRequest
+    const genericConfig: WithDripConfig<GenericRequest> = {
+      meter: config.meter,
+      quantity: resolvedQuantity,
+      chargeTiming: config.chargeTiming ?? (config.quantityFromResponse ? 'after' : undefined),
+      apiKey: config.apiKey,
+      baseUrl: config.baseUrl,
+      drip: config.drip,
+      customerResolver: resolvedCustomerResolver,
+      idempotencyKey: resolvedIdempotencyKey,
+      metadata: resolvedMetadata,
+      skipInDevelopment: config.skipInDevelopment,
+      requireBalance: config.requireBalance,
+      paymentVerifier: config.paymentVerifier,
+      nonceStore: config.nonceStore,
+      recipient: config.recipient,
+      // Clear callbacks that need the original request type
+      onCharge: undefined,
+      onError: undefined,
+    };
+
+    // Process the request through Drip billing
+    const result = await processRequest(genericRequest, genericConfig);
+
+    if (!result.success) {
+      // Handle custom error handler
+      if (config.errorHandler) {
+        const handled = await config.errorHandler(result.error, request, reply);
+        if (handled) {
+          return reply;
+        }
+      }
+
+      // Handle 402 Payment Required
+      if (result.paymentRequired) {
+        return sendPaymentRequired(
+          reply,
+          result.paymentRequired.headers,
+          result.paymentRequired.paymentRequest,
+        );
+      }
+
+      return sendError(
+        reply,
+        result.error.message,
+        result.error.code,
+        result.error.statusCode,
+        result.error.details,
+      );
+    }
+
+    // Call original onCharge callback if provided
+    if (config.onCharge && !result.deferred) {
+      await config.onCharge(result.charge, request);
+    }
+
+    // Deferred charge: bill in onResponse once the reply was sent with a 2xx status
+    if (result.deferred) {
+      deferredCharges.set(request, { config, genericRequest, genericConfig, result });
+    }
+
+    (request as DripFastifyRequest).drip = {
+      drip: result.drip,
+      customerId: result.state.customerId,
+      charge: result.charge,
+      isDuplicate: result.isDuplicate,
+      paymentProof: result.state.paymentProof,
+    };
+  });
+
+  // Capture the payload before serialization, for quantityFromResponse
+  fastify.addHook('preSerialization', async (request, _reply, payload) => {
+    const deferred = deferredCharges.get(request);
+    if (deferred?.config.quantityFromResponse && !deferred.payload) {
+      deferred.payload = { value: payload };
+    }
+    return payload;
+  });
+
+  // Strings, Buffers and streams skip preSerialization
+  fastify.addHook('onSend', async (request, _reply, payload) => {
+    const deferred = deferredCharges.get(request);
+    if (deferred?.config.quantityFromResponse && !deferred.payload) {
+      deferred.payload = { value: payload };
+    }
+    return payload;
+  });
+
+  fastify.addHook('onResponse', async (request, reply) => {
+    const deferred = deferredCharges.get(request);
+    if (!deferred) {
+      return;
+    }
+    deferredCharges.delete(request);
+
+    if (reply.statusCode < 200 || reply.statusCode >= 300) {
+      return;
+    }
+
+    const { config } = deferred;
+    const onError = config.onError ? (error: DripError) => config.onError!(error, request) : undefined;
+    runDeferredCharge(deferred.result.drip, async () => {
+      const quantity = config.quantityFromResponse
+        ? await config.quantityFromResponse(deferred.payload?.value, request)
+        : deferred.result.state.quantity;
+      if (quantity <= 0) {
+        return null;
+      }
+
+      const charged = await completeDeferredCharge(deferred.genericRequest, {
+        ...deferred.genericConfig,
+        onError,
+      }, deferred.result, quantity);
+      if (charged.success && config.onCharge) {
+        await config.onCharge(charged.charge, request);
+      }
+      return charged;
+    }, onError);
+  });
+}
+
+// Skip Fastify's plugin encapsulation (what `fastify-plugin` does), so the
+// hooks and the `drip` decorator reach routes outside the registering context
+Object.assign(dripPlugin, {
+  [Symbol.for('skip-override')]: true,
+  [Symbol.for('fastify.display-name')]: '@drip-sdk/node/fastify',
+});
+
+// ============================================================================
+// Convenience Exports
+// ============================================================================
+
+/**
+ * Check if a Fastify request has x402 payment proof headers.
+ * Useful for conditional logic in routes.
+ */
+export function hasPaymentProofHeaders(request: FastifyRequest): boolean {
+  return hasPaymentProof(normalizeHeaders(request.headers));
+}
+
+/**
+ * Type guard to check if request has Drip context attached.
+ */
+export function hasDripContext(
+  request: FastifyRequest,
+): request is DripFastifyRequest {
+  const { drip } = request as Partial<DripFastifyRequest>;
+  return typeof drip === 'object' && drip !== null;
+}
+
+/**
+ * Get Drip context from request, throwing if not present.
+ */
+export function getDripContext(request: FastifyRequest): DripContext {
+  if (!hasDripContext(request)) {
+    throw new Error(
+      'Drip context not found on request. Ensure dripPlugin is registered and the route sets config.drip.',
+    );
+  }
+  return request.drip;
+}
@@ -0,0 +1,440 @@
+/**
+ * Drip GraphQL Adapter
+ *
+ * Provides `useDrip`, an envelop plugin (GraphQL Yoga, envelop-based servers),
+ * and `dripApolloPlugin` for Apollo Server. Both bill per operation and per
+ * resolved field from a meter map, and bill each request once after it
+ * executes.
+ *
+ * @example
+ * ```typescript
+ * import { createYoga } from 'graphql-yoga';
+ * import { useDrip } from '@drip-sdk/node/graphql';
+ *
+ * const yoga = createYoga({
+ *   schema,
+ *   plugins: [useDrip({
+ *     meter: 'api_calls',
+ *     operations: { GenerateReport: 10 },
+ *     fields: {
+ *       'Query.search': 1,
+ *       'Document.summary': { meter: 'llm_tokens', quantity: 50 },
+ *     },
+ *   })],
+ * });
+ * ```
+ */
+
+import {
+  GraphQLError,
+  defaultFieldResolver,
+  isObjectType,
+  Kind,
+  type DocumentNode,
+  type ExecutionArgs,
+  type ExecutionResult,
+  type GraphQLFieldResolver,
+  type GraphQLFormattedError,
+  type GraphQLResolveInfo,
+  type GraphQLSchema,
+} from 'graphql';
+import type { DripContext } from './types.js';
+import type { ProcessRequestFailure } from './core.js';
+import {
+  beginMeteredRequest,
+  toGenericRequest,
+  type MeteredRequest,
+  type OperationCost,
+  type OperationDripConfig,
+} from './operations.js';
+
+// ============================================================================
+// GraphQL Types
+// ============================================================================
+
+/**
+ * Envelop `onExecuteDone` payload.
+ * We use minimal interfaces to avoid requiring envelop as a dependency.
+ */
+export interface EnvelopExecuteDonePayload {
+  result: ExecutionResult | AsyncIterable<ExecutionResult>;
+  setResult(result: ExecutionResult): void;
+}
+
+/**
+ * Envelop `onExecute` payload.
+ */
+export interface EnvelopExecutePayload<TContext> {
+  args: ExecutionArgs & { contextValue: TContext };
+  setResultAndStopExecution(result: ExecutionResult): void;
+}
+
+/**
+ * Envelop plugin type.
+ */
+export interface EnvelopPlugin<TContext> {
+  onSchemaChange(payload: { schema: GraphQLSchema }): void;
+  onExecute(payload: EnvelopExecutePayload<TContext>): Promise<void | {
+    onExecuteDone(payload: EnvelopExecuteDonePayload): Promise<void>;
+  }>;
+}
+
+/**
+ * Apollo Server request context, as seen by plugin hooks.
+ */
+export interface ApolloRequestContext<TContext> {
+  contextValue: TContext;
+  operationName?: string | null;
+  request: {
+    http?: {
+      method: string;
+      search: string;
+      headers: Map<string, string>;
+    };
+  };
+  response: {
+    http: {
+      status?: number;
+      headers: Map<string, string>;
+    };
+    body?:
+      | { kind: 'single'; singleResult: { data?: unknown; errors?: ReadonlyArray<GraphQLFormattedError> } }
+      | { kind: 'incremental' };
+  };
+}
+
+/**
+ * Apollo Server field resolution hook parameters.
+ */
+export interface ApolloFieldResolverParams {
+  info: GraphQLResolveInfo;
+}
+
+/**
+ * Apollo Server plugin type.
+ */
+export interface ApolloPlugin<TContext> {
+  requestDidStart(requestContext: ApolloRequestContext<TContext>): Promise<{
+    didResolveOperation(requestContext: ApolloRequestContext<TContext>): Promise<void>;
+    executionDidStart(requestContext: ApolloRequestContext<TContext>): Promise<{
+      willResolveField(params: ApolloFieldResolverParams): (error: Error | null) => void;
+    }>;
+    willSendResponse(requestContext: ApolloRequestContext<TContext>): Promise<void>;
+  }>;
+}
+
+/**
+ * Configuration specific to the GraphQL adapters.
+ */
+export interface GraphQLDripConfig<TContext = unknown> extends OperationDripConfig<TContext> {
+  /**
+   * Costs by field coordinate (`Type.field`), billed each time the field
+   * resolves without error. Fields of list items are billed per item.
+   */
+  fields?: Record<string, OperationCost>;
+
+  /**
+   * Get the HTTP request from the GraphQL context (envelop only; Apollo
+   * provides it to plugins).
+   * @default context.request ?? context.req
+   */
+  getRequest?: (context: TContext) => unknown;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Drip context by GraphQL context value, for {@link getDripContext}.
+ */
+const dripContexts = new WeakMap<object, DripContext>();
+
+/**
+ * Format a billing failure as a GraphQL error, with the x402 payment request
+ * in `extensions.paymentRequest`.
+ */
+function toFormattedError(failure: ProcessRequestFailure): GraphQLFormattedError {
+  const { error, paymentRequired } = failure;
+  return {
+    message: paymentRequired ? 'Payment required' : error.message,
+    extensions: {
+      code: paymentRequired ? 'PAYMENT_REQUIRED' : error.code,
+      ...(error.details && { details: error.details }),
+      ...(paymentRequired && { paymentRequest: paymentRequired.paymentRequest }),
+    },
+  };
+}
+
+/**
+ * Convert a billing failure to a GraphQL error whose `extensions.http`
+ * carries the status and x402 headers, for servers that honor it.
+ */
+function toGraphQLError(
+  failure: ProcessRequestFailure,
+  headers: Record<string, string> | Map<string, string>,
+): GraphQLError {
+  const { message, extensions } = toFormattedError(failure);
+  return new GraphQLError(message, {
+    extensions: { ...extensions, http: { status: failure.error.statusCode, headers } },
+  });
+}
+
+/**
+ * Get the name of the operation being executed.
+ */
+function getOperationName(document: DocumentNode, operationName?: string | null): string | undefined {
+  if (operationName) {
+    return operationName;
+  }
+  const operations = document.definitions.filter((d) => d.kind === Kind.OPERATION_DEFINITION);
+  return operations.length === 1 && operations[0]!.kind === Kind.OPERATION_DEFINITION
+    ? operations[0]!.name?.value
+    : undefined;
+}
+
+function getOperationCost<TContext>(
+  config: GraphQLDripConfig<TContext>,
+  operationName: string | undefined,
+): OperationCost | undefined {
+  const cost = operationName === undefined ? undefined : config.operations?.[operationName];
+  return cost ?? config.defaultOperationCost;
+}
+
+/**
+ * Record the operation's cost if it produced data.
+ */
+function recordOperation<TContext>(
+  config: GraphQLDripConfig<TContext>,
+  metered: MeteredRequest,
+  operationName: string | undefined,
+  data: unknown,
+): void {
+  const cost = getOperationCost(config, operationName);
+  if (cost !== undefined && data !== null && data !== undefined) {
+    metered.record('graphql.operation', operationName ?? 'anonymous', cost);
+  }
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return typeof value === 'object' && value !== null && Symbol.asyncIterator in value;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof value === 'object' && value !== null && typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
+// ============================================================================
+// Envelop Plugin
+// ============================================================================
+
+/**
+ * Envelop plugin for Drip billing, for GraphQL Yoga and other envelop-based
+ * servers.
+ *
+ * For each execution, this plugin:
+ * 1. Resolves the customer ID from the HTTP request
+ * 2. Settles an x402 payment proof, or checks the balance (`requireBalance`)
+ * 3. Counts the operation and each mapped field that resolves
+ * 4. Charges for the counted usage once execution is done
+ * 5. Replaces the result with a `PAYMENT_REQUIRED` error if the balance is insufficient
+ *
+ * Drip context is not attached to the GraphQL context; resolvers that need
+ * it can use {@link getDripContext}. Subscriptions and incremental delivery
+ * are not billed.
+ *
+ * @param config - Configuration for billing
+ * @returns Envelop plugin
+ */
+export function useDrip<TContext = unknown>(config: GraphQLDripConfig<TContext>): EnvelopPlugin<TContext> {
+  const getRequest = config.getRequest
+    ?? ((context: TContext) => {
+      const { request, req } = (context ?? {}) as { request?: unknown; req?: unknown };
+      return request ?? req;
+    });
+  const instrumentedSchemas = new WeakSet<GraphQLSchema>();
+  // Per plugin, so plugins sharing a schema only see their own executions
+  const meteredRequests = new WeakMap<object, MeteredRequest>();
+
+  return {
+    onSchemaChange({ schema }) {
+      if (instrumentedSchemas.has(schema)) {
+        return;
+      }
+      instrumentedSchemas.add(schema);
+
+      for (const [coordinate, cost] of Object.entries(config.fields ?? {})) {
+        const [typeName = '', fieldName = ''] = coordinate.split('.');
+        const type = schema.getType(typeName);
+        const field = isObjectType(type) ? type.getFields()[fieldName] : undefined;
+        if (!field) {
+          throw new Error(`Drip: field "${coordinate}" is not in the schema.`);
+        }
+
+        const resolve: GraphQLFieldResolver<unknown, unknown> = field.resolve ?? defaultFieldResolver;
+        field.resolve = (source, args, context, info) => {
+          const metered = meteredRequests.get(context as object);
+          const value = resolve(source, args, context, info);
+          if (!metered) {
+            return value;
+          }
+          if (isPromiseLike(value)) {
+            return Promise.resolve(value).then((resolved) => {
+              metered.record('graphql.field', coordinate, cost);
+              return resolved;
+            });
+          }
+          metered.record('graphql.field', coordinate, cost);
+          return value;
+        };
+      }
+    },
+
+    async onExecute({ args, setResultAndStopExecution }) {
+      const context = args.contextValue;
+      if (typeof context !== 'object' || context === null) {
+        return;
+      }
+
+      const operationName = getOperationName(args.document, args.operationName);
+      const begun = await beginMeteredRequest(
+        config,
+        toGenericRequest(getRequest(context)),
+        context,
+        operationName ?? 'anonymous',
+        getOperationCost(config, operationName),
+      );
+
+      if (!begun.success) {
+        const headers = { ...begun.paymentRequired?.headers } as Record<string, string>;
+        setResultAndStopExecution({ errors: [toGraphQLError(begun, headers)] });
+        return;
+      }
+
+      const { metered } = begun;
+      meteredRequests.set(context, metered);
+      dripContexts.set(context, metered.context);
+
+      return {
+        async onExecuteDone({ result, setResult }) {
+          meteredRequests.delete(context);
+          if (isAsyncIterable(result)) {
+            return;
+          }
+
+          recordOperation(config, metered, operationName, result.data);
+          const failure = await metered.settle();
+          if (failure) {
+            const headers = { ...failure.paymentRequired?.headers } as Record<string, string>;
+            setResult({ errors: [toGraphQLError(failure, headers)] });
+          }
+        },
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Apollo Server Plugin
+// ============================================================================
+
+/**
+ * Apollo Server plugin for Drip billing.
+ *
+ * Works like {@link useDrip}: the customer is resolved and the balance
+ * checked once the operation is resolved, and the operation and mapped
+ * fields are charged before the response is sent. A failed charge replaces
+ * the response with a `PAYMENT_REQUIRED` error and a 402 status.
+ *
+ * @param config - Configuration for billing (`getRequest` is not used)
+ * @returns Apollo Server plugin
+ *
+ * @example
+ * ```typescript
+ * import { ApolloServer } from '@apollo/server';
+ * import { dripApolloPlugin } from '@drip-sdk/node/graphql';
+ *
+ * const server = new ApolloServer({
+ *   typeDefs,
+ *   resolvers,
+ *   plugins: [dripApolloPlugin({
+ *     meter: 'api_calls',
+ *     fields: { 'Query.search': 1, 'Query.generate': 50 },
+ *   })],
+ * });
+ * ```
+ */
+export function dripApolloPlugin<TContext = unknown>(config: GraphQLDripConfig<TContext>): ApolloPlugin<TContext> {
+  return {
+    async requestDidStart() {
+      let metered: MeteredRequest | undefined;
+
+      return {
+        async didResolveOperation(requestContext) {
+          const operationName = requestContext.operationName ?? undefined;
+          const begun = await beginMeteredRequest(
+            config,
+            toGenericRequest(requestContext.request.http),
+            requestContext.contextValue,
+            operationName ?? 'anonymous',
+            getOperationCost(config, operationName),
+          );
+
+          if (!begun.success) {
+            throw toGraphQLError(begun, new Map(Object.entries(begun.paymentRequired?.headers ?? {})));
+          }
+          metered = begun.metered;
+          if (typeof requestContext.contextValue === 'object' && requestContext.contextValue !== null) {
+            dripContexts.set(requestContext.contextValue, metered.context);
+          }
+        },
+
+        async executionDidStart() {
+          return {
+            willResolveField({ info }) {
+              const coordinate = `${info.parentType.name}.${info.fieldName}`;
+              const cost = config.fields?.[coordinate];
+              return (error) => {
+                if (metered && cost !== undefined && !error) {
+                  metered.record('graphql.field', coordinate, cost);
+                }
+              };
+            },
+          };
+        },
+
+        async willSendResponse(requestContext) {
+          const { body, http } = requestContext.response;
+          if (!metered || body?.kind !== 'single') {
+            return;
+          }
+
+          recordOperation(config, metered, requestContext.operationName ?? undefined, body.singleResult.data);
+          const failure = await metered.settle();
+          if (failure) {
+            body.singleResult = { errors: [toFormattedError(failure)] };
+            http.status = failure.error.statusCode;
+            for (const [name, value] of Object.entries(failure.paymentRequired?.headers ?? {})) {
+              http.headers.set(name, value);
+            }
+          }
+        },
+      };
+    },
+  };
+}
+
+// ============================================================================
+// Convenience Exports
+// ============================================================================
+
+/**
+ * Get the Drip context for a GraphQL request from its context value.
+ * Returns undefined outside a billed execution.
+ */
+export function getDripContext(contextValue: unknown): DripContext | undefined {
+  if (typeof contextValue !== 'object' || contextValue === null) {
+    return undefined;
+  }
+  return dripContexts.get(contextValue);
+}
@@ -24,15 +24,32 @@
  *   quantity: 1,
  * }));
  * ```
+ *
+ * @example Fastify
+ * ```typescript
+ * import { dripPlugin } from '@drip-sdk/node/fastify';
+ *
+ * await app.register(dripPlugin);
+ * app.post('/api/paid', { config: { drip: { meter: 'api_calls', quantity: 1 } } }, handler);
+ * ```
  */
 
 // Core types and utilities
 export type {
   WithDripConfig,
+  ChargeTiming,
+  RequireBalanceOptions,
+  BalanceCheckResult,
   DripContext,
   X402PaymentProof,
   X402PaymentRequest,
+  X402LineItem,
   X402ResponseHeaders,
+  PaymentProofVerifier,
+  PaymentVerificationContext,
+  PaymentVerificationResult,
+  PaymentNonceStore,
+  IssuedPaymentRequest,
   DripMiddlewareErrorCode,
   GenericRequest,
   ResponseBuilder,
@@ -43,6 +60,9 @@ export { DripMiddlewareError } from './types.js';
 // Core processing (for custom adapters)
 export {
   processRequest,
+  completeDeferredCharge,
+  runDeferredCharge,
+  checkBalance,
   hasPaymentProof,
   parsePaymentProof,
   generatePaymentRequest,
@@ -53,12 +73,30 @@ export {
   getHeader,
 } from './core.js';
 
+// x402 payment verification (for clients and custom verifiers)
+export {
+  buildPaymentMessage,
+  verifyPaymentSignature,
+  MemoryPaymentNonceStore,
+} from './x402.js';
+
+// Webhook receiver core (for custom adapters)
+export { createWebhookProcessor } from './webhooks.js';
+
+export type {
+  DripWebhookHandlerConfig,
+  WebhookEventHandlers,
+  WebhookProcessResult,
+  WebhookProcessor,
+} from './webhooks.js';
+
 // Next.js adapter
 export {
   withDrip,
   createWithDrip,
   hasPaymentProofHeaders as hasNextPaymentProof,
   getDripHeader,
+  dripWebhookHandler as nextWebhookHandler,
 } from './next.js';
 
 export type {
@@ -75,6 +113,7 @@ export {
   hasPaymentProofHeaders as hasExpressPaymentProof,
   hasDripContext,
   getDripContext,
+  dripWebhookHandler as expressWebhookHandler,
 } from './express.js';
 
 export type {
@@ -84,4 +123,83 @@ export type {
   ExpressMiddleware,
   DripExpressRequest,
   ExpressDripConfig,
+  ExpressDripRoute,
+  ExpressDripRoutesConfig,
+  ExpressWebhookRequest,
 } from './express.js';
+
+// Edge adapter (fetch handlers and Hono)
+export {
+  withDrip as withEdgeDrip,
+  createWithDrip as createWithEdgeDrip,
+  dripMiddleware as honoDripMiddleware,
+  hasPaymentProofHeaders as hasEdgePaymentProof,
+} from './edge.js';
+
+export type {
+  DripFetchHandler,
+  HonoContext,
+  HonoNext,
+  HonoMiddleware,
+  EdgeDripConfig,
+} from './edge.js';
+
+// Koa adapter
+export {
+  dripMiddleware as koaDripMiddleware,
+  createDripMiddleware as createKoaDripMiddleware,
+  hasPaymentProofHeaders as hasKoaPaymentProof,
+  hasDripContext as hasKoaDripContext,
+  getDripContext as getKoaDripContext,
+} from './koa.js';
+
+export type {
+  KoaContext,
+  KoaNext,
+  KoaMiddleware,
+  DripKoaContext,
+  KoaDripConfig,
+} from './koa.js';
+
+// Fastify adapter
+export {
+  dripPlugin,
+  hasPaymentProofHeaders as hasFastifyPaymentProof,
+  hasDripContext as hasFastifyDripContext,
+  getDripContext as getFastifyDripContext,
+} from './fastify.js';
+
+export type {
+  FastifyRequest,
+  FastifyReply,
+  FastifyHook,
+  FastifyPayloadHook,
+  FastifyInstance,
+  DripFastifyRequest,
+  FastifyDripConfig,
+  FastifyDripPluginOptions,
+  FastifyDripRouteConfig,
+} from './fastify.js';
+
+// tRPC adapter
+export {
+  dripMiddleware as trpcDripMiddleware,
+  getDripErrorData as getTrpcDripErrorData,
+  DripTRPCError,
+} from './trpc.js';
+
+export type {
+  TrpcMiddlewareOptions,
+  TrpcMiddlewareResult,
+  TrpcMiddleware,
+  TrpcErrorCode,
+  TrpcDripConfig,
+} from './trpc.js';
+
+export type {
+  OperationCost,
+  OperationDripConfig,
+} from './operations.js';
+
+// The GraphQL adapter imports `graphql`, so it is only available from
+// '@drip-sdk/node/graphql'.
@@ -0,0 +1,428 @@
+/**
+ * Drip Koa Adapter
+ *
+ * Provides the `dripMiddleware` for Koa applications.
+ * Handles the complete x402 payment flow automatically.
+ *
+ * @example
+ * ```typescript
+ * import Koa from 'koa';
+ * import Router from '@koa/router';
+ * import { dripMiddleware } from '@drip-sdk/node/koa';
+ *
+ * const app = new Koa();
+ * const router = new Router();
+ *
+ * router.post('/api/paid/generate', dripMiddleware({
+ *   meter: 'api_calls',
+ *   quantity: 1,
+ * }), (ctx) => {
+ *   // Payment already verified - ctx.state.drip contains context
+ *   console.log(`Charged: ${ctx.state.drip.charge.charge.amountUsdc} USDC`);
+ *   ctx.body = { success: true };
+ * });
+ *
+ * app.use(router.routes());
+ * ```
+ */
+
+import type { DripError } from '../index.js';
+import type {
+  WithDripConfig,
+  DripContext,
+  X402ResponseHeaders,
+  GenericRequest,
+} from './types.js';
+import { DripMiddlewareError } from './types.js';
+import {
+  processRequest,
+  completeDeferredCharge,
+  runDeferredCharge,
+  hasPaymentProof,
+} from './core.js';
+
+// ============================================================================
+// Koa Types
+// ============================================================================
+
+/**
+ * Koa context type.
+ * We use a minimal interface to avoid requiring koa as a dependency.
+ */
+export interface KoaContext {
+  method: string;
+  url: string;
+  originalUrl?: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, string | string[] | undefined>;
+  /** Route params (set by `@koa/router`) */
+  params?: Record<string, string>;
+  /** `body` is set by a body parser */
+  request: { method: string; body?: unknown };
+  state: Record<string, unknown>;
+  status: number;
+  body: unknown;
+  set(fields: Record<string, string>): void;
+  res: { on(event: 'finish', listener: () => void): unknown };
+}
+
+/**
+ * Koa next function.
+ */
+export type KoaNext = () => Promise<unknown>;
+
+/**
+ * Koa middleware type.
+ */
+export type KoaMiddleware = (ctx: KoaContext, next: KoaNext) => Promise<void>;
+
+/**
+ * Koa context with Drip context in its state.
+ */
+export interface DripKoaContext extends KoaContext {
+  state: KoaContext['state'] & { drip: DripContext };
+}
+
+/**
+ * Configuration specific to Koa adapter.
+ */
+export interface KoaDripConfig extends WithDripConfig<KoaContext> {
+  /**
+   * Custom error handler.
+   * Return true to indicate the error was handled.
+   */
+  errorHandler?: (
+    error: DripMiddlewareError,
+    ctx: KoaContext,
+  ) => boolean | Promise<boolean>;
+
+  /**
+   * Whether to attach the Drip context to `ctx.state.drip`.
+   * @default true
+   */
+  attachToState?: boolean;
+
+  /**
+   * Compute the billed quantity from the response, e.g. tokens generated.
+   * Receives `ctx.body` as set by downstream middleware (streams are passed
+   * as-is).
+   *
+   * Implies `chargeTiming: 'after'` unless `'reserve'` is set; `quantity` is
+   * then only used to estimate up-front payment requests.
+   */
+  quantityFromResponse?: (body: unknown, ctx: KoaContext) => number | Promise<number>;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Normalize Koa headers to a consistent format.
+ */
+function normalizeHeaders(
+  headers: Record<string, string | string[] | undefined>,
+): Record<string, string | undefined> {
+  const result: Record<string, string | undefined> = {};
+  for (const [key, value] of Object.entries(headers)) {
+    result[key.toLowerCase()] = Array.isArray(value) ? value[0] : value;
+  }
+  return result;
+}
+
+/**
+ * Send a 402 Payment Required response.
+ */
+function sendPaymentRequired(
+  ctx: KoaContext,
+  headers: X402ResponseHeaders,
+  paymentRequest: {
+    amount: string;
+    recipient: string;
+    usageId: string;
+    description: string;
+    expiresAt: number;
+    nonce: string;
+    timestamp: number;
+  },
+): void {
+  ctx.status = 402;
+  ctx.set(headers as unknown as Record<string, string>);
+  ctx.body = {
+    error: 'Payment required',
+    code: 'PAYMENT_REQUIRED',
+    paymentRequest,
+    instructions: {
+      step1: 'Sign the payment message with your session key (EIP-191 personal_sign)',
+      step2: 'Retry the request with X-Payment-* headers',
+      documentation: 'https://docs.drip.dev/x402',
+    },
+  };
+}
+
+/**
+ * Send an error response.
+ */
+function sendError(
+  ctx: KoaContext,
+  message: string,
+  code: string,
+  status: number,
+  details?: Record<string, unknown>,
+): void {
+  ctx.status = status;
+  ctx.body = {
+    error: message,
+    code,
+    ...(details && { details }),
+  };
+}
+
+// ============================================================================
+// Main Middleware
+// ============================================================================
+
+/**
+ * Koa middleware for Drip billing.
+ *
+ * This middleware:
+ * 1. Resolves the customer ID from headers or query
+ * 2. Checks customer balance
+ * 3. If insufficient, responds 402 with x402 payment headers
+ * 4. If payment proof provided, verifies and processes
+ * 5. Charges the customer
+ * 6. Attaches Drip context to ctx.state.drip
+ * 7. Calls next() on success
+ *
+ * @param config - Configuration for billing
+ * @returns Koa middleware
+ *
+ * @example
+ * ```typescript
+ * // Bill every route mounted after it
+ * app.use(dripMiddleware({
+ *   meter: 'api_calls',
+ *   quantity: 1,
+ * }));
+ *
+ * // Or with dynamic quantity (needs a body parser first)
+ * router.post('/api/ai', dripMiddleware({
+ *   meter: 'tokens',
+ *   quantity: (ctx) => (ctx.request.body as { maxTokens?: number })?.maxTokens ?? 100,
+ * }), handler);
+ * ```
+ */
+export function dripMiddleware(config: KoaDripConfig): KoaMiddleware {
+  const attachToState = config.attachToState ?? true;
+
+  return async (ctx, next) => {
+    // Convert Koa context to generic format
+    const genericRequest = {
+      method: ctx.method,
+      url: ctx.originalUrl || ctx.url,
+      headers: normalizeHeaders(ctx.headers),
+      query: ctx.query as Record<string, string | undefined>,
+    };
+
+    // Resolve quantity if it's a function (needs access to original context)
+    const resolvedQuantity = typeof config.quantity === 'function'
+      ? await config.quantity(ctx)
+      : config.quantity;
+
+    // Resolve customer ID if it's a function - wrap to use original context
+    let resolvedCustomerResolver: 'header' | 'query' | ((r: GenericRequest) => string | Promise<string>) | undefined;
+    if (typeof config.customerResolver === 'function') {
+      const originalResolver = config.customerResolver;
+      resolvedCustomerResolver = async () => originalResolver(ctx);
+    } else {
+      resolvedCustomerResolver = config.customerResolver;
+    }
+
+    // Resolve idempotencyKey if it's a function
+    let resolvedIdempotencyKey: ((r: GenericRequest) => string | Promise<string>) | undefined;
+    if (typeof config.idempotencyKey === 'function') {
+      const originalIdempotencyKey = config.idempotencyKey;
+      resolvedIdempotencyKey = async () => originalIdempotencyKey(ctx);
+    }
+
+    // Resolve metadata if it's a function
+    const resolvedMetadata = typeof config.metadata === 'function'
+      ? config.metadata(ctx)
+      : config.metadata;
+
+    // Create a generic config for processRequest
+    const genericConfig: WithDripConfig<typeof genericRequest> = {
+      meter: config.meter,
+      quantity: resolvedQuantity,
+      chargeTiming: config.chargeTiming ?? (config.quantityFromResponse ? 'after' : undefined),
+      apiKey: config.apiKey,
+      baseUrl: config.baseUrl,
+      drip: config.drip,
+      customerResolver: resolvedCustomerResolver,
+      idempotencyKey: resolvedIdempotencyKey,
+      metadata: resolvedMetadata,
+      skipInDevelopment: config.skipInDevelopment,
+      requireBalance: config.requireBalance,
+      paymentVerifier: config.paymentVerifier,
+      nonceStore: config.nonceStore,
+      recipient: config.recipient,
+      // Clear callbacks that need the original context type
+      onCharge: undefined,
+      onError: undefined,
+    };
+
+    if (config.quantityFromResponse && config.chargeTiming === 'before') {
+      sendError(
+        ctx,
+        'quantityFromResponse needs chargeTiming "after" or "reserve".',
+        'CONFIGURATION_ERROR',
+        500,
+      );
+      return;
+    }
+
+    // Process the request through Drip billing
+    const result = await processRequest(genericRequest, genericConfig);
+
+    if (!result.success) {
+      // Handle custom error handler
+      if (config.errorHandler) {
+        const handled = await config.errorHandler(result.error, ctx);
+        if (handled) {
+          return;
+        }
+      }
+
+      // Handle 402 Payment Required
+      if (result.paymentRequired) {
+        sendPaymentRequired(
+          ctx,
+          result.paymentRequired.headers,
+          result.paymentRequired.paymentRequest,
+        );
+        return;
+      }
+
+      // Send error response
+      sendError(
+        ctx,
+        result.error.message,
+        result.error.code,
+        result.error.statusCode,
+        result.error.details,
+      );
+      return;
+    }
+
+    // Call original onCharge callback if provided
+    if (config.onCharge && !result.deferred) {
+      await config.onCharge(result.charge, ctx);
+    }
+
+    // Deferred charge: bill once the response has been sent with a 2xx status
+    if (result.deferred) {
+      const deferredResult = result;
+      ctx.res.on('finish', () => {
+        if (ctx.status < 200 || ctx.status >= 300) {
+          return;
+        }
+        const onError = config.onError ? (error: DripError) => config.onError!(error, ctx) : undefined;
+        runDeferredCharge(deferredResult.drip, async () => {
+          const quantity = config.quantityFromResponse
+            ? await config.quantityFromResponse(ctx.body, ctx)
+            : deferredResult.state.quantity;
+          if (quantity <= 0) {
+            return null;
+          }
+
+          const charged = await completeDeferredCharge(genericRequest, {
+            ...genericConfig,
+            onError,
+          }, deferredResult, quantity);
+          if (charged.success && config.onCharge) {
+            await config.onCharge(charged.charge, ctx);
+          }
+          return charged;
+        }, onError);
+      });
+    }
+
+    // Build context
+    const dripContext: DripContext = {
+      drip: result.drip,
+      customerId: result.state.customerId,
+      charge: result.charge,
+      isDuplicate: result.isDuplicate,
+      paymentProof: result.state.paymentProof,
+    };
+
+    // Attach to state if configured
+    if (attachToState) {
+      ctx.state.drip = dripContext;
+    }
+
+    // Continue to next middleware/handler
+    await next();
+  };
+}
+
+// ============================================================================
+// Convenience Exports
+// ============================================================================
+
+/**
+ * Create a dripMiddleware factory with default configuration.
+ * Useful for consistent settings across multiple routers.
+ *
+ * @example
+ * ```typescript
+ * // lib/drip.ts
+ * import { createDripMiddleware } from '@drip-sdk/node/koa';
+ *
+ * export const drip = createDripMiddleware({
+ *   apiKey: process.env.DRIP_API_KEY,
+ *   baseUrl: process.env.DRIP_API_URL,
+ * });
+ *
+ * // routes/api.ts
+ * router.post('/paid', drip({ meter: 'api_calls', quantity: 1 }), handler);
+ * ```
+ */
+export function createDripMiddleware(
+  defaults: Partial<Omit<KoaDripConfig, 'meter' | 'quantity'>>,
+): (
+  config: Pick<KoaDripConfig, 'meter' | 'quantity'> & Partial<Omit<KoaDripConfig, 'meter' | 'quantity'>>,
+) => KoaMiddleware {
+  return (config) => {
+    return dripMiddleware({ ...defaults, ...config } as KoaDripConfig);
+  };
+}
+
+/**
+ * Check if a Koa request has x402 payment proof headers.
+ * Useful for conditional logic in routes.
+ */
+export function hasPaymentProofHeaders(ctx: KoaContext): boolean {
+  return hasPaymentProof(normalizeHeaders(ctx.headers));
+}
+
+/**
+ * Type guard to check if the context has Drip context in its state.
+ */
+export function hasDripContext(ctx: KoaContext): ctx is DripKoaContext {
+  const { drip } = ctx.state as Partial<DripKoaContext['state']>;
+  return typeof drip === 'object' && drip !== null;
+}
+
+/**
+ * Get Drip context from ctx.state, throwing if not present.
+ */
+export function getDripContext(ctx: KoaContext): DripContext {
+  if (!hasDripContext(ctx)) {
+    throw new Error(
+      'Drip context not found on ctx.state. Ensure dripMiddleware is applied before this route.',
+    );
+  }
+  return ctx.state.drip;
+}
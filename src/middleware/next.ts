@@ -20,7 +20,7 @@
  * ```
  */
 
-import type { Drip } from '../index.js';
+import type { Drip, DripError } from '../index.js';
 import type {
   WithDripConfig,
   DripContext,
@@ -30,9 +30,17 @@ import type {
 import { DripMiddlewareError } from './types.js';
 import {
   processRequest,
+  completeDeferredCharge,
+  runDeferredCharge,
+  holdStreamUntil,
+  meterStream,
   getHeader,
   hasPaymentProof,
 } from './core.js';
+import {
+  createWebhookProcessor,
+  type DripWebhookHandlerConfig,
+} from './webhooks.js';
 
 // ============================================================================
 // Next.js Types
@@ -80,6 +88,27 @@ export interface NextDripConfig extends WithDripConfig<NextRequest> {
     error: DripMiddlewareError,
     request: NextRequest,
   ) => Response | Promise<Response> | null;
+
+  /**
+   * Compute the billed quantity from the handler's response, e.g. tokens
+   * generated. Receives a clone, so reading its body doesn't affect what the
+   * client gets, but the body is held in memory until the clone is read.
+   * For long streams, use `quantityFromChunk` instead.
+   *
+   * Implies `chargeTiming: 'after'` unless `'reserve'` is set; `quantity` is
+   * then only used to estimate up-front payment requests.
+   */
+  quantityFromResponse?: (response: Response, request: NextRequest) => number | Promise<number>;
+
+  /**
+   * Compute the billed quantity of each chunk of a streamed response body,
+   * as it passes through to the client. Chunk quantities are added up and
+   * charged once the stream ends (or the client disconnects), so only what
+   * was delivered is billed and nothing is buffered. Takes precedence over `quantityFromResponse`.
+   *
+   * Implies `chargeTiming: 'after'` unless `'reserve'` is set.
+   */
+  quantityFromChunk?: (chunk: Uint8Array, request: NextRequest) => number;
 }
 
 // ============================================================================
@@ -160,7 +189,7 @@ function paymentRequiredResponse(
       code: 'PAYMENT_REQUIRED',
       paymentRequest,
       instructions: {
-        step1: 'Sign the payment request with your session key using EIP-712',
+        step1: 'Sign the payment message with your session key (EIP-191 personal_sign)',
         step2: 'Retry the request with X-Payment-* headers',
         documentation: 'https://docs.drip.dev/x402',
       },
@@ -248,17 +277,32 @@ export function withDrip(
     const genericConfig: WithDripConfig<typeof genericRequest> = {
       meter: config.meter,
       quantity: resolvedQuantity,
+      chargeTiming: config.chargeTiming
+        ?? (config.quantityFromResponse || config.quantityFromChunk ? 'after' : undefined),
       apiKey: config.apiKey,
       baseUrl: config.baseUrl,
+      drip: config.drip,
       customerResolver: resolvedCustomerResolver,
       idempotencyKey: resolvedIdempotencyKey,
       metadata: resolvedMetadata,
       skipInDevelopment: config.skipInDevelopment,
+      requireBalance: config.requireBalance,
+      paymentVerifier: config.paymentVerifier,
+      nonceStore: config.nonceStore,
+      recipient: config.recipient,
       // Clear callbacks that need the original request type
       onCharge: undefined,
       onError: undefined,
     };
 
+    if ((config.quantityFromResponse || config.quantityFromChunk) && config.chargeTiming === 'before') {
+      return errorResponse(
+        'quantityFromResponse and quantityFromChunk need chargeTiming "after" or "reserve".',
+        'CONFIGURATION_ERROR',
+        500,
+      );
+    }
+
     // Process the request through Drip billing
     const result = await processRequest(genericRequest, genericConfig);
 
@@ -289,7 +333,7 @@ export function withDrip(
     }
 
     // Call original onCharge callback if provided
-    if (config.onCharge) {
+    if (config.onCharge && !result.deferred) {
       await config.onCharge(result.charge, request);
     }
 
@@ -299,16 +343,107 @@ export function withDrip(
       customerId: result.state.customerId,
       charge: result.charge,
       isDuplicate: result.isDuplicate,
+      paymentProof: result.state.paymentProof,
       params: routeContext?.params,
     };
 
     // Call the wrapped handler
+    let response: Response;
     try {
-      return await handler(request, dripContext);
+      response = await handler(request, dripContext);
     } catch (error) {
       // Let errors propagate (Next.js will handle them)
       throw error;
     }
+
+    // Deferred charge: only bill for successful responses
+    if (!result.deferred || response.status < 200 || response.status >= 300) {
+      return response;
+    }
+
+    const onError = config.onError ? (error: DripError) => config.onError!(error, request) : undefined;
+    const settle = (quantity: () => number | Promise<number>): Promise<void> => runDeferredCharge(result.drip, async () => {
+      const billed = await quantity();
+      if (billed <= 0) {
+        return null;
+      }
+      const charged = await completeDeferredCharge(genericRequest, { ...genericConfig, onError }, result, billed);
+      if (charged.success && config.onCharge) {
+        await config.onCharge(charged.charge, request);
+      }
+      return charged;
+    }, onError);
+
+    // Meter the body as it streams; nothing delivered means nothing to bill
+    const quantityFromChunk = config.quantityFromChunk;
+    if (quantityFromChunk) {
+      if (!response.body) {
+        return response;
+      }
+      return new Response(meterStream(
+        response.body,
+        (chunk) => quantityFromChunk(chunk, request),
+        (delivered) => settle(() => delivered),
+      ), response);
+    }
+
+    // Awaited so the charge completes before a serverless function is frozen
+    if (!config.quantityFromResponse) {
+      await settle(() => result.state.quantity);
+      return response;
+    }
+
+    const measured = response.clone();
+    const quantityFromResponse = config.quantityFromResponse;
+    const charge = settle(() => quantityFromResponse(measured, request));
+
+    if (!response.body) {
+      await charge;
+      return response;
+    }
+    return new Response(holdStreamUntil(response.body, charge), response);
+  };
+}
+
+// ============================================================================
+// Webhook Receiver
+// ============================================================================
+
+/**
+ * Next.js route handler that receives Drip webhooks.
+ *
+ * Reads the raw body, verifies the `x-drip-signature` header, acknowledges
+ * duplicate deliveries, and dispatches each event to the matching typed
+ * handler.
+ *
+ * Responds `200` when handled (or no handler is registered), `400` when
+ * verification fails, and `500` when a handler throws so Drip retries.
+ *
+ * @param config - Secrets and event handlers
+ * @returns A Next.js route handler
+ *
+ * @example
+ * ```typescript
+ * // app/api/webhooks/drip/route.ts
+ * import { dripWebhookHandler } from '@drip-sdk/node/next';
+ *
+ * export const POST = dripWebhookHandler({
+ *   secret: process.env.DRIP_WEBHOOK_SECRET!,
+ *   on: {
+ *     'charge.succeeded': async (event) => {
+ *       await markPaid(event.data.chargeId);
+ *     },
+ *   },
+ * });
+ * ```
+ */
+export function dripWebhookHandler(config: DripWebhookHandlerConfig): NextRouteHandler {
+  const processWebhook = createWebhookProcessor(config);
+
+  return async (request) => {
+    const rawBody = await request.text();
+    const result = await processWebhook(rawBody, headersToObject(request.headers));
+    return Response.json(result.body, { status: result.status });
   };
 }
 
@@ -0,0 +1,387 @@
+/**
+ * Drip Operation Metering
+ *
+ * Shared by the GraphQL and tRPC adapters, which bill a request from the
+ * operations and fields it executes rather than from its route. Costs come
+ * from a meter map. Usage is collected while the request executes, then
+ * billed once: one charge per meter, or one recorded run.
+ */
+
+import type {
+  WithDripConfig,
+  DripContext,
+  GenericRequest,
+} from './types.js';
+import {
+  processRequest,
+  completeDeferredCharge,
+  type ProcessRequestFailure,
+  type ProcessRequestSuccess,
+} from './core.js';
+import { DripError } from '../errors.js';
+import { getRandomValues, sha256Hex } from '../runtime.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Cost of an operation or field: a quantity of the configured meter, or a
+ * quantity of another meter.
+ */
+export type OperationCost = number | { meter: string; quantity: number };
+
+/**
+ * Configuration shared by operation-level adapters. Callbacks receive the
+ * framework's context (GraphQL context value, tRPC `ctx`).
+ */
+export interface OperationDripConfig<TContext> extends Omit<WithDripConfig<TContext>, 'quantity' | 'chargeTiming'> {
+  /**
+   * Costs by operation: GraphQL operation name or tRPC procedure path.
+   */
+  operations?: Record<string, OperationCost>;
+
+  /**
+   * Cost of operations missing from `operations`.
+   * @default 0 (only mapped operations and fields are billed)
+   */
+  defaultOperationCost?: OperationCost;
+
+  /**
+   * How a request's usage is billed:
+   * - `'charge'`: one charge per meter (default)
+   * - `'run'`: one `recordRun()` with an event per operation or field,
+   *   recorded without charging
+   * @default 'charge'
+   */
+  record?: 'charge' | 'run';
+
+  /**
+   * Workflow for `record: 'run'`.
+   * @default 'api'
+   */
+  workflow?: string;
+}
+
+/**
+ * A request being metered. Adapters record usage while it executes, then
+ * bill it once with `settle()`.
+ */
+export interface MeteredRequest {
+  /** Drip context for the request */
+  context: DripContext;
+
+  /**
+   * Record usage.
+   *
+   * @param eventType - What incurred it, e.g. `graphql.field`
+   * @param name - Operation name or field coordinate
+   * @param cost - Cost of one occurrence
+   */
+  record(eventType: string, name: string, cost: OperationCost): void;
+
+  /**
+   * Bill the recorded usage. Returns the failure to report instead of the
+   * result (e.g. a 402 payment request), or null.
+   */
+  settle(): Promise<ProcessRequestFailure | null>;
+}
+
+interface UsageEntry {
+  eventType: string;
+  name: string;
+  meter: string;
+  quantity: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Random IDs for incoming HTTP requests, by framework request object, so the
+ * operations of one batched request share an ID.
+ */
+const incomingRequestIds = new WeakMap<object, string>();
+
+/**
+ * The incoming request ID of each generic request built by
+ * {@link toGenericRequest}.
+ */
+const genericRequestIds = new WeakMap<GenericRequest, string>();
+
+function randomRequestId(): string {
+  return Array.from(getRandomValues(new Uint8Array(16)), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Build a generic request from whatever the framework exposes: a Fetch
+ * `Request`, a Node `IncomingMessage`, or Apollo's `HTTPGraphQLRequest`.
+ */
+export function toGenericRequest(source: unknown): GenericRequest {
+  const http = (source ?? {}) as {
+    method?: string;
+    url?: string;
+    search?: string;
+    headers?: unknown;
+  };
+
+  const headers: Record<string, string | undefined> = {};
+  const sourceHeaders = http.headers as
+    | { forEach(callback: (value: string, key: string) => void): void }
+    | Record<string, string | string[] | undefined>
+    | undefined;
+  if (sourceHeaders && typeof sourceHeaders.forEach === 'function') {
+    // Fetch Headers and Map-based header collections
+    (sourceHeaders as { forEach(callback: (value: string, key: string) => void): void })
+      .forEach((value, key) => {
+        headers[key.toLowerCase()] = value;
+      });
+  } else if (sourceHeaders) {
+    for (const [key, value] of Object.entries(sourceHeaders as Record<string, string | string[] | undefined>)) {
+      headers[key.toLowerCase()] = Array.isArray(value) ? value[0] : value;
+    }
+  }
+
+  const url = http.url ?? http.search ?? '';
+  const query: Record<string, string> = {};
+  const queryStart = url.indexOf('?');
+  if (queryStart !== -1) {
+    new URLSearchParams(url.slice(queryStart + 1)).forEach((value, key) => {
+      query[key] = value;
+    });
+  }
+
+  const request: GenericRequest = {
+    method: http.method ?? 'POST',
+    url,
+    headers,
+    query,
+  };
+
+  if (typeof source === 'object' && source !== null) {
+    let requestId = incomingRequestIds.get(source);
+    if (requestId === undefined) {
+      requestId = randomRequestId();
+      incomingRequestIds.set(source, requestId);
+    }
+    genericRequestIds.set(request, requestId);
+  }
+  return request;
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Default idempotency key for an operation. A client that retries a request
+ * with the same `Idempotency-Key` or `X-Request-Id` header gets the same key,
+ * so the retry is not billed twice. Without either header, every incoming
+ * HTTP request is billed on its own.
+ */
+function operationIdempotencyKey(request: GenericRequest, operation: string, customerId: string): string {
+  const requestId = headerValue(request.headers['idempotency-key'])
+    ?? headerValue(request.headers['x-request-id'])
+    ?? genericRequestIds.get(request)
+    ?? randomRequestId();
+  const components = [request.method, request.url, customerId, operation, requestId];
+  return `op_${sha256Hex(components.join('|')).slice(0, 24)}`;
+}
+
+function costMeter(cost: OperationCost, defaultMeter: string): string {
+  return typeof cost === 'number' ? defaultMeter : cost.meter;
+}
+
+function costQuantity(cost: OperationCost): number {
+  return typeof cost === 'number' ? cost : cost.quantity;
+}
+
+// ============================================================================
+// Metering
+// ============================================================================
+
+/**
+ * Start metering a request: resolve the customer, settle an x402 payment
+ * proof, and run the `requireBalance` pre-flight against `estimate`.
+ *
+ * @param config - Adapter configuration
+ * @param request - The HTTP request, for customer resolution and payment proofs
+ * @param context - Framework context passed to config callbacks
+ * @param operation - Operation name, part of the default idempotency key
+ * @param estimate - Expected cost, used by the balance pre-flight
+ */
+export async function beginMeteredRequest<TContext>(
+  config: OperationDripConfig<TContext>,
+  request: GenericRequest,
+  context: TContext,
+  operation: string,
+  estimate?: OperationCost,
+): Promise<{ success: true; metered: MeteredRequest } | ProcessRequestFailure> {
+  // Resolve customer ID if it's a function - wrap to use the context
+  let resolvedCustomerResolver: 'header' | 'query' | ((r: GenericRequest) => string | Promise<string>) | undefined;
+  if (typeof config.customerResolver === 'function') {
+    const originalResolver = config.customerResolver;
+    resolvedCustomerResolver = async () => originalResolver(context);
+  } else {
+    resolvedCustomerResolver = config.customerResolver;
+  }
+
+  const originalIdempotencyKey = config.idempotencyKey;
+  const resolvedIdempotencyKey = originalIdempotencyKey
+    ? async () => originalIdempotencyKey(context)
+    : undefined;
+
+  // Resolve metadata if it's a function
+  const resolvedMetadata = typeof config.metadata === 'function'
+    ? config.metadata(context)
+    : config.metadata;
+
+  const genericConfig: WithDripConfig<GenericRequest> = {
+    meter: estimate === undefined ? config.meter : costMeter(estimate, config.meter),
+    quantity: estimate === undefined ? 0 : costQuantity(estimate),
+    chargeTiming: 'after',
+    apiKey: config.apiKey,
+    baseUrl: config.baseUrl,
+    drip: config.drip,
+    customerResolver: resolvedCustomerResolver,
+    idempotencyKey: resolvedIdempotencyKey,
+    metadata: resolvedMetadata,
+    skipInDevelopment: config.skipInDevelopment,
+    requireBalance: config.requireBalance,
+    paymentVerifier: config.paymentVerifier,
+    nonceStore: config.nonceStore,
+    recipient: config.recipient,
+    // Clear callbacks that need the original context type
+    onCharge: undefined,
+    onError: undefined,
+  };
+
+  const processed = await processRequest(request, genericConfig);
+  if (!processed.success) {
+    return processed;
+  }
+
+  // The default key needs the resolved customer, so it is set here
+  const result: ProcessRequestSuccess = originalIdempotencyKey
+    ? processed
+    : {
+      ...processed,
+      state: {
+        ...processed.state,
+        idempotencyKey: operationIdempotencyKey(request, operation, processed.state.customerId),
+      },
+    };
+
+  // Charged with a payment proof (or mocked in development): nothing left to bill
+  if (config.onCharge && !result.deferred) {
+    await config.onCharge(result.charge, context);
+  }
+
+  const usage: UsageEntry[] = [];
+  const metered: MeteredRequest = {
+    context: {
+      drip: result.drip,
+      customerId: result.state.customerId,
+      charge: result.charge,
+      isDuplicate: result.isDuplicate,
+      paymentProof: result.state.paymentProof,
+    },
+
+    record(eventType, name, cost) {
+      const meter = costMeter(cost, config.meter);
+      const quantity = costQuantity(cost);
+      if (quantity <= 0) {
+        return;
+      }
+      const entry = usage.find((e) => e.eventType === eventType && e.name === name && e.meter === meter);
+      if (entry) {
+        entry.quantity += quantity;
+      } else {
+        usage.push({ eventType, name, meter, quantity });
+      }
+    },
+
+    async settle() {
+      if (!result.deferred || usage.length === 0) {
+        return null;
+      }
+      return config.record === 'run'
+        ? recordUsageRun(config, context, result, usage, resolvedMetadata)
+        : chargeUsage(config, context, request, genericConfig, result, usage);
+    },
+  };
+
+  return { success: true, metered };
+}
+
+/**
+ * Charge recorded usage, one charge per meter.
+ */
+async function chargeUsage<TContext>(
+  config: OperationDripConfig<TContext>,
+  context: TContext,
+  request: GenericRequest,
+  genericConfig: WithDripConfig<GenericRequest>,
+  result: ProcessRequestSuccess,
+  usage: UsageEntry[],
+): Promise<ProcessRequestFailure | null> {
+  const totals = new Map<string, number>();
+  for (const entry of usage) {
+    totals.set(entry.meter, (totals.get(entry.meter) ?? 0) + entry.quantity);
+  }
+
+  for (const [meter, quantity] of totals) {
+    // Each meter's charge needs its own idempotency key
+    const meterResult = meter === config.meter
+      ? result
+      : { ...result, state: { ...result.state, idempotencyKey: `${result.state.idempotencyKey}_${meter}` } };
+
+    const charged = await completeDeferredCharge(request, {
+      ...genericConfig,
+      meter,
+      onError: config.onError ? (error) => config.onError!(error, context) : undefined,
+    }, meterResult, quantity, { paymentRequired: true });
+
+    if (!charged.success) {
+      return charged;
+    }
+    if (config.onCharge) {
+      await config.onCharge(charged.charge, context);
+    }
+  }
+  return null;
+}
+
+/**
+ * Record usage as a single run, with one event per operation or field.
+ * Failures are reported through `onError`; the result is still returned.
+ */
+async function recordUsageRun<TContext>(
+  config: OperationDripConfig<TContext>,
+  context: TContext,
+  result: ProcessRequestSuccess,
+  usage: UsageEntry[],
+  metadata: Record<string, unknown> | undefined,
+): Promise<null> {
+  try {
+    await result.drip.recordRun({
+      customerId: result.state.customerId,
+      workflow: config.workflow ?? 'api',
+      events: usage.map((entry) => ({
+        eventType: entry.eventType,
+        quantity: entry.quantity,
+        units: entry.meter,
+        description: entry.name,
+      })),
+      status: 'COMPLETED',
+      externalRunId: result.state.idempotencyKey,
+      metadata,
+    });
+  } catch (error) {
+    if (error instanceof DripError && config.onError) {
+      await config.onError(error, context);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,233 @@
+/**
+ * Drip tRPC Adapter
+ *
+ * Provides the `dripMiddleware` for tRPC procedures. Bills each procedure
+ * call from a meter map keyed by procedure path, once the procedure has
+ * succeeded.
+ *
+ * @example
+ * ```typescript
+ * import { initTRPC } from '@trpc/server';
+ * import { dripMiddleware } from '@drip-sdk/node/trpc';
+ *
+ * const t = initTRPC.context<{ req: Request }>().create();
+ *
+ * const billed = t.procedure.use(dripMiddleware({
+ *   meter: 'api_calls',
+ *   operations: {
+ *     'documents.search': 1,
+ *     'documents.summarize': { meter: 'llm_tokens', quantity: 50 },
+ *   },
+ * }));
+ *
+ * export const appRouter = t.router({
+ *   documents: t.router({
+ *     search: billed.input(z.string()).query(({ input }) => search(input)),
+ *     summarize: billed.input(z.string()).mutation(({ input }) => summarize(input)),
+ *   }),
+ * });
+ * ```
+ */
+
+import type {
+  X402PaymentRequest,
+  X402ResponseHeaders,
+} from './types.js';
+import { DripMiddlewareError } from './types.js';
+import type { ProcessRequestFailure } from './core.js';
+import {
+  beginMeteredRequest,
+  toGenericRequest,
+  type OperationDripConfig,
+} from './operations.js';
+
+// ============================================================================
+// tRPC Types
+// ============================================================================
+
+/**
+ * tRPC middleware options.
+ * We use minimal interfaces to avoid requiring @trpc/server as a dependency.
+ */
+export interface TrpcMiddlewareOptions<TContext, TResult> {
+  ctx: TContext;
+  path: string;
+  type: 'query' | 'mutation' | 'subscription';
+  next: () => Promise<TResult>;
+}
+
+/**
+ * tRPC middleware result.
+ */
+export interface TrpcMiddlewareResult {
+  ok: boolean;
+}
+
+/**
+ * tRPC middleware type.
+ */
+export type TrpcMiddleware<TContext> = <TResult extends TrpcMiddlewareResult>(
+  opts: TrpcMiddlewareOptions<TContext, TResult>,
+) => Promise<TResult>;
+
+/**
+ * tRPC error codes used for billing failures.
+ */
+export type TrpcErrorCode =
+  | 'BAD_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'PAYMENT_REQUIRED'
+  | 'FORBIDDEN'
+  | 'INTERNAL_SERVER_ERROR';
+
+/**
+ * Configuration specific to tRPC adapter. `operations` is keyed by
+ * procedure path (e.g. `documents.search`).
+ */
+export interface TrpcDripConfig<TContext = unknown> extends OperationDripConfig<TContext> {
+  /**
+   * Get the HTTP request from the tRPC context.
+   * @default ctx.req ?? ctx.request
+   */
+  getRequest?: (ctx: TContext) => unknown;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error thrown by the tRPC middleware when billing fails. It is named
+ * `TRPCError` so tRPC passes it through with its `code`; the billing error is
+ * its `cause`.
+ *
+ * `PAYMENT_REQUIRED` responds 402 on tRPC v11 (v10 has no such code and
+ * responds 500). Use {@link getDripErrorData} in an `errorFormatter` to
+ * return the x402 payment request to clients.
+ */
+export class DripTRPCError extends Error {
+  public readonly code: TrpcErrorCode;
+  public override readonly cause: DripMiddlewareError;
+  public readonly paymentRequest?: X402PaymentRequest;
+  public readonly headers?: X402ResponseHeaders;
+
+  constructor(failure: ProcessRequestFailure) {
+    super(failure.paymentRequired ? 'Payment required' : failure.error.message);
+    this.name = 'TRPCError';
+    this.code = toTrpcErrorCode(failure.error.statusCode);
+    this.cause = failure.error;
+    this.paymentRequest = failure.paymentRequired?.paymentRequest;
+    this.headers = failure.paymentRequired?.headers;
+    Object.setPrototypeOf(this, DripTRPCError.prototype);
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Map a billing failure's HTTP status to a tRPC error code.
+ */
+function toTrpcErrorCode(statusCode: number): TrpcErrorCode {
+  switch (statusCode) {
+    case 400:
+      return 'BAD_REQUEST';
+    case 401:
+      return 'UNAUTHORIZED';
+    case 402:
+      return 'PAYMENT_REQUIRED';
+    case 403:
+      return 'FORBIDDEN';
+    default:
+      return 'INTERNAL_SERVER_ERROR';
+  }
+}
+
+// ============================================================================
+// Main Middleware
+// ============================================================================
+
+/**
+ * tRPC middleware for Drip billing.
+ *
+ * For each procedure call, this middleware:
+ * 1. Resolves the customer ID from the HTTP request in the context
+ * 2. Settles an x402 payment proof, or checks the balance (`requireBalance`)
+ * 3. Runs the procedure
+ * 4. If it succeeded, charges `operations[path]` (or `defaultOperationCost`)
+ * 5. Throws a `PAYMENT_REQUIRED` {@link DripTRPCError} if the balance is insufficient
+ *
+ * Batched calls are billed separately, per procedure path.
+ *
+ * @param config - Configuration for billing
+ * @returns tRPC middleware, for `procedure.use()`
+ */
+export function dripMiddleware<TContext = unknown>(config: TrpcDripConfig<TContext>): TrpcMiddleware<TContext> {
+  const getRequest = config.getRequest
+    ?? ((ctx: TContext) => {
+      const { req, request } = (ctx ?? {}) as { req?: unknown; request?: unknown };
+      return req ?? request;
+    });
+
+  return async (opts) => {
+    const { ctx, path, type } = opts;
+    const cost = config.operations?.[path] ?? config.defaultOperationCost;
+
+    const begun = await beginMeteredRequest(
+      config,
+      toGenericRequest(getRequest(ctx)),
+      ctx,
+      path,
+      cost,
+    );
+    if (!begun.success) {
+      throw new DripTRPCError(begun);
+    }
+
+    const result = await opts.next();
+    if (!result.ok || cost === undefined) {
+      return result;
+    }
+
+    begun.metered.record(`trpc.${type}`, path, cost);
+    const failure = await begun.metered.settle();
+    if (failure) {
+      throw new DripTRPCError(failure);
+    }
+    return result;
+  };
+}
+
+// ============================================================================
+// Convenience Exports
+// ============================================================================
+
+/**
+ * Get billing details from a tRPC error, for an `errorFormatter`.
+ * Returns undefined for errors not raised by Drip billing.
+ *
+ * @example
+ * ```typescript
+ * const t = initTRPC.context<Context>().create({
+ *   errorFormatter: ({ shape, error }) => ({
+ *     ...shape,
+ *     data: { ...shape.data, drip: getDripErrorData(error) },
+ *   }),
+ * });
+ * ```
+ */
+export function getDripErrorData(error: unknown): {
+  code: string;
+  details?: Record<string, unknown>;
+  paymentRequest?: X402PaymentRequest;
+} | undefined {
+  if (!(error instanceof DripTRPCError)) {
+    return undefined;
+  }
+  return {
+    code: error.paymentRequest ? 'PAYMENT_REQUIRED' : error.cause.code,
+    ...(error.cause.details && { details: error.cause.details }),
+    ...(error.paymentRequest && { paymentRequest: error.paymentRequest }),
+  };
+}
@@ -11,6 +11,28 @@ import type { Drip, Customer, ChargeResult, DripError } from '../index.js';
 // Configuration Types
 // ============================================================================
 
+/**
+ * Options for the pre-flight balance check.
+ */
+export interface RequireBalanceOptions {
+  /**
+   * Minimum available balance in USDC. Defaults to the estimated cost of
+   * the request.
+   */
+  minimumUsdc?: string;
+
+  /**
+   * How long a customer's balance is cached, in milliseconds.
+   * @default 5000
+   */
+  cacheTtlMs?: number;
+}
+
+/**
+ * When the middleware charges relative to the handler.
+ */
+export type ChargeTiming = 'before' | 'after' | 'reserve';
+
 /**
  * Configuration for the withDrip middleware.
  */
@@ -30,6 +52,25 @@ export interface WithDripConfig<TRequest = unknown> {
    */
   quantity: number | ((request: TRequest) => number | Promise<number>);
 
+  /**
+   * When to charge the customer.
+   * - 'before': charge before the handler runs; the handler only runs if the charge succeeds
+   * - 'after': run the handler first and charge only if it responds with a 2xx status
+   * - 'reserve': check the customer has available balance up front (402 if not),
+   *   then charge only if the handler responds with a 2xx status
+   * @default 'before'
+   */
+  chargeTiming?: ChargeTiming;
+
+  /**
+   * Check the customer's balance before the handler runs, and respond 402
+   * (with an x402 payment request when a `recipient` is configured) if it
+   * can't cover the request. Balances are cached per customer for a few
+   * seconds. Always on for `chargeTiming: 'reserve'`.
+   * @default false
+   */
+  requireBalance?: boolean | RequireBalanceOptions;
+
   /**
    * API key for Drip. Defaults to DRIP_API_KEY environment variable.
    */
@@ -40,6 +81,13 @@ export interface WithDripConfig<TRequest = unknown> {
    */
   baseUrl?: string;
 
+  /**
+   * Existing Drip client to charge through instead of creating one per request.
+   * Pass your application's client so its `shutdown()` also drains
+   * middleware charges. When set, `apiKey` and `baseUrl` are ignored.
+   */
+  drip?: Drip;
+
   /**
    * How to identify the customer from the request.
    * - 'header': Look for X-Drip-Customer-Id header
@@ -79,6 +127,33 @@ export interface WithDripConfig<TRequest = unknown> {
    * Custom metadata to attach to each charge.
    */
   metadata?: Record<string, unknown> | ((request: TRequest) => Record<string, unknown>);
+
+  /**
+   * Checks the signature on x402 payment proofs. Amount, recipient, usage ID,
+   * expiry and nonce are always checked against the issued payment request
+   * first. Replace to validate session keys or smart-account signatures
+   * (ERC-1271) against the customer's registered account, or to defer to a
+   * facilitator.
+   * @default verifyPaymentSignature (EIP-191 ECDSA by the customer's registered address)
+   */
+  paymentVerifier?: PaymentProofVerifier;
+
+  /**
+   * Where issued x402 payment requests are kept until their proof arrives.
+   * The default in-memory store only works when the proof reaches the same
+   * process that issued the 402; use a shared store (Redis, database) when
+   * running several instances.
+   * @default a process-wide MemoryPaymentNonceStore
+   */
+  nonceStore?: PaymentNonceStore;
+
+  /**
+   * Address x402 payments are made to, sent in 402 payment requests. Needed
+   * to answer a declined charge with a payment request. Set it explicitly on
+   * runtimes without `process.env`, such as Cloudflare Workers.
+   * @default process.env.DRIP_RECIPIENT_ADDRESS
+   */
+  recipient?: string;
 }
 
 // ============================================================================
@@ -100,7 +175,9 @@ export interface DripContext {
   customerId: string;
 
   /**
-   * The charge result from this request.
+   * The charge result from this request. With `chargeTiming: 'after'` or
+   * `'reserve'` the charge happens after the handler, so this is a
+   * placeholder with status `PENDING`.
    */
   charge: ChargeResult;
 
@@ -108,6 +185,12 @@ export interface DripContext {
    * Whether this was a replayed request (idempotency key matched).
    */
   isDuplicate: boolean;
+
+  /**
+   * The verified x402 payment proof, when the request was paid with one
+   * instead of from the customer's balance.
+   */
+  paymentProof?: X402PaymentProof;
 }
 
 // ============================================================================
@@ -128,6 +211,20 @@ export interface X402PaymentProof {
   nonce: string;
 }
 
+/**
+ * One priced line of an x402 payment request.
+ */
+export interface X402LineItem {
+  meter: string;
+  quantity: number;
+
+  /** Price per unit in USD, when the meter's pricing is known */
+  unitPriceUsd?: string;
+
+  /** Line total in USDC */
+  amount: string;
+}
+
 /**
  * x402 payment request returned in 402 responses.
  */
@@ -139,6 +236,9 @@ export interface X402PaymentRequest {
   expiresAt: number;
   nonce: string;
   timestamp: number;
+
+  /** How `amount` breaks down */
+  lineItems?: X402LineItem[];
 }
 
 /**
@@ -155,6 +255,73 @@ export type X402ResponseHeaders = {
   'X-Payment-Timestamp': string;
 } & Record<string, string>;
 
+/**
+ * Outcome of checking an x402 payment proof.
+ */
+export interface PaymentVerificationResult {
+  valid: boolean;
+
+  /** Why the proof was rejected */
+  reason?: string;
+}
+
+/**
+ * What a {@link PaymentProofVerifier} can use to tie a proof to the customer.
+ * The proof's `smartAccount` and `sessionKeyId` come from the client and
+ * prove nothing on their own.
+ */
+export interface PaymentVerificationContext {
+  /** Customer the request is billed to */
+  customerId: string;
+
+  /** Drip client, to look up the customer's registered account */
+  drip: Drip;
+}
+
+/**
+ * Checks the signature on an x402 payment proof against the payment request
+ * it answers.
+ */
+export type PaymentProofVerifier = (
+  proof: X402PaymentProof,
+  paymentRequest: X402PaymentRequest,
+  context: PaymentVerificationContext,
+) => PaymentVerificationResult | Promise<PaymentVerificationResult>;
+
+/**
+ * A payment request the middleware issued, awaiting its proof.
+ */
+export interface IssuedPaymentRequest extends X402PaymentRequest {
+  /** Customer the 402 response was sent to */
+  customerId: string;
+}
+
+/**
+ * Storage for issued payment requests, keyed by nonce. Each nonce can be
+ * consumed once.
+ */
+export interface PaymentNonceStore {
+  /**
+   * Record an issued payment request.
+   *
+   * @param ttlMs - Time until the request expires; it may be dropped after that
+   */
+  save(request: IssuedPaymentRequest, ttlMs: number): void | Promise<void>;
+
+  /**
+   * Look up an issued request without consuming it.
+   */
+  get(nonce: string): IssuedPaymentRequest | null | Promise<IssuedPaymentRequest | null>;
+
+  /**
+   * Remove a nonce so it can't be used again. Must be atomic across
+   * instances sharing the store.
+   *
+   * @returns true if this call removed it, false if it was already gone
+   */
+  consume(nonce: string): boolean | Promise<boolean>;
+}
+
 // ============================================================================
 // Result Types
 // ============================================================================
@@ -173,8 +340,14 @@ export interface CustomerResolutionResult {
  */
 export interface BalanceCheckResult {
   sufficient: boolean;
+
+  /** Available balance in USDC */
   balance?: string;
+
+  /** Amount the request needs, in USDC */
   required?: string;
+
+  /** How much more the customer needs, in USDC (0 when sufficient) */
   shortfall?: string;
 }
 
@@ -203,6 +376,7 @@ export type DripMiddlewareErrorCode =
   | 'PAYMENT_VERIFICATION_FAILED'
   | 'CHARGE_FAILED'
   | 'CONFIGURATION_ERROR'
+  | 'ROUTE_NOT_FOUND'
   | 'INTERNAL_ERROR';
 
 /**
@@ -0,0 +1,176 @@
+/**
+ * Drip Webhook Receiver Core
+ *
+ * Framework-agnostic processing for incoming Drip webhook deliveries:
+ * signature verification, duplicate suppression and typed dispatch.
+ * The Express and Next.js adapters wrap {@link createWebhookProcessor}.
+ */
+
+import type { WebhookEventType } from '../index.js';
+import { DripError, WebhookSignatureError } from '../errors.js';
+import {
+  constructWebhookEvent,
+  parseWebhookSignatureHeader,
+  type WebhookEvent,
+  type WebhookEventOf,
+} from '../webhooks.js';
+import { WebhookReplayGuard, type WebhookDelivery } from '../webhook-replay.js';
+import { getHeader } from './core.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Handlers keyed by event type. Each handler receives the event narrowed to
+ * that type. Events without a handler are acknowledged and ignored.
+ */
+export type WebhookEventHandlers = {
+  [T in WebhookEventType]?: (event: WebhookEventOf<T>) => void | Promise<void>;
+};
+
+/**
+ * Configuration for `dripWebhookHandler`.
+ */
+export interface DripWebhookHandlerConfig {
+  /**
+   * Webhook signing secret. Pass every active secret while rotating with
+   * `rotateWebhookSecret()` so deliveries signed with either are accepted.
+   */
+  secret: string | string[];
+
+  /**
+   * Handlers to dispatch verified events to.
+   */
+  on: WebhookEventHandlers;
+
+  /**
+   * Maximum age of a delivery's signature, in seconds.
+   * @default 300
+   */
+  tolerance?: number;
+
+  /**
+   * Acknowledge repeated deliveries (same signature, or same
+   * `x-drip-delivery-id` / event ID) without running handlers again.
+   * Signatures are remembered for the tolerance window, delivery and event
+   * IDs for the replay guard's `deliveryIdTtlMs`.
+   * @default true
+   */
+  dedupe?: boolean;
+
+  /**
+   * Replay guard used for deduplication. Defaults to an in-memory guard;
+   * pass one backed by `RedisWebhookReplayStore` when several instances
+   * receive webhooks. Ignored when `dedupe` is false.
+   */
+  replayGuard?: WebhookReplayGuard;
+
+  /**
+   * Called when verification or a handler fails. Useful for logging/alerts.
+   */
+  onError?: (error: Error, event?: WebhookEvent) => void | Promise<void>;
+}
+
+/**
+ * Outcome of processing a delivery, ready to be sent as the HTTP response.
+ */
+export interface WebhookProcessResult {
+  /** HTTP status code to respond with */
+  status: number;
+
+  /** JSON response body */
+  body: {
+    received: boolean;
+    duplicate?: boolean;
+    error?: string;
+    code?: string;
+    reason?: string;
+  };
+
+  /** The verified event (undefined if verification failed) */
+  event?: WebhookEvent;
+}
+
+/**
+ * Processes one delivery given its raw body and request headers.
+ */
+export type WebhookProcessor = (
+  rawBody: string | Uint8Array,
+  headers: Record<string, string | string[] | undefined>,
+) => Promise<WebhookProcessResult>;
+
+// ============================================================================
+// Processor
+// ============================================================================
+
+/**
+ * Create a processor that verifies, dedupes and dispatches deliveries.
+ *
+ * Responses:
+ * - `200` — handled, duplicate, or no handler registered for the event type
+ * - `400` — signature missing, malformed, expired or wrong; or body is not an event
+ * - `500` — a handler or the replay store threw (Drip will retry the delivery)
+ *
+ * @param config - Secrets, handlers and options
+ * @returns A function that processes a single delivery
+ */
+export function createWebhookProcessor(config: DripWebhookHandlerConfig): WebhookProcessor {
+  const tolerance = config.tolerance ?? 300;
+  const replayGuard = config.dedupe === false ? null : config.replayGuard ?? new WebhookReplayGuard();
+
+  const reportError = async (error: Error, event?: WebhookEvent): Promise<void> => {
+    try {
+      await config.onError?.(error, event);
+    } catch {
+      // Never let a failing error hook change the response
+    }
+  };
+
+  return async (rawBody, headers) => {
+    const signatureHeader = getHeader(headers, 'x-drip-signature');
+    let event: WebhookEvent;
+    try {
+      event = constructWebhookEvent(rawBody, signatureHeader, config.secret, tolerance);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      await reportError(err);
+
+      if (err instanceof WebhookSignatureError) {
+        return {
+          status: 400,
+          body: { received: false, error: err.message, code: err.code, reason: err.reason },
+        };
+      }
+      if (err instanceof DripError && err.statusCode === 400) {
+        return { status: 400, body: { received: false, error: err.message, code: err.code } };
+      }
+      return { status: 500, body: { received: false, error: err.message, code: 'INTERNAL_ERROR' } };
+    }
+
+    const delivery: WebhookDelivery = {
+      ...parseWebhookSignatureHeader(signatureHeader),
+      deliveryId: getHeader(headers, 'x-drip-delivery-id') ?? event.id,
+    };
+    const handler = config.on[event.type] as ((event: WebhookEvent) => void | Promise<void>) | undefined;
+
+    try {
+      if (replayGuard && !(await replayGuard.claim(delivery, tolerance))) {
+        return { status: 200, body: { received: true, duplicate: true }, event };
+      }
+      await handler?.(event);
+    } catch (error) {
+      // Forget the delivery so Drip's retry is processed
+      await replayGuard?.release(delivery).catch(() => undefined);
+      const err = error instanceof Error ? error : new Error(String(error));
+      await reportError(err, event);
+      return {
+        status: 500,
+        body: { received: false, error: 'Webhook handler failed', code: 'WEBHOOK_HANDLER_FAILED' },
+        event,
+      };
+    }
+
+    return { status: 200, body: { received: true }, event };
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * Drip x402 Payment Proof Verification
+ *
+ * Checks an incoming x402 payment proof against the payment request the
+ * middleware issued in its 402 response: same nonce, customer, amount,
+ * recipient and usage ID, not expired, and never used before. The proof's
+ * signature is then checked by a {@link PaymentProofVerifier}; the default
+ * recovers the EIP-191 `personal_sign` signer and requires it to be the
+ * customer's registered on-chain address.
+ *
+ * Issued requests live in a {@link PaymentNonceStore}. The in-memory default
+ * only protects a single process; behind a load balancer, implement the
+ * store on Redis or your database so any instance can match a proof.
+ */
+
+import type {
+  IssuedPaymentRequest,
+  PaymentNonceStore,
+  PaymentProofVerifier,
+  PaymentVerificationContext,
+  PaymentVerificationResult,
+  X402PaymentProof,
+  X402PaymentRequest,
+} from './types.js';
+import { recoverPersonalMessageSigner } from './eip191.js';
+
+// ============================================================================
+// Nonce Store
+// ============================================================================
+
+/**
+ * In-memory {@link PaymentNonceStore}. Only works when proofs reach the
+ * process that issued the payment request.
+ */
+export class MemoryPaymentNonceStore implements PaymentNonceStore {
+  private readonly entries = new Map<string, { request: IssuedPaymentRequest; expiresAt: number }>();
+  private readonly maxEntries: number;
+
+  /**
+   * @param maxEntries - Oldest requests are evicted beyond this (default 10000)
+   */
+  constructor(maxEntries = 10_000) {
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  save(request: IssuedPaymentRequest, ttlMs: number): void {
+    const now = Date.now();
+    this.entries.delete(request.nonce);
+    this.entries.set(request.nonce, { request, expiresAt: now + ttlMs });
+
+    // Map iterates in insertion order, so the oldest entries come first
+    for (const [nonce, entry] of this.entries) {
+      if (entry.expiresAt > now && this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(nonce);
+    }
+  }
+
+  get(nonce: string): IssuedPaymentRequest | null {
+    const entry = this.entries.get(nonce);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    return entry.request;
+  }
+
+  consume(nonce: string): boolean {
+    return this.entries.delete(nonce);
+  }
+
+  /**
+   * Number of stored requests (including any not yet pruned after expiry).
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/** Shared by every middleware instance that doesn't configure a store. */
+const defaultNonceStore = new MemoryPaymentNonceStore();
+
+/**
+ * Resolve the configured nonce store, falling back to the process-wide default.
+ */
+export function resolveNonceStore(store?: PaymentNonceStore): PaymentNonceStore {
+  return store ?? defaultNonceStore;
+}
+
+/**
+ * Record an issued payment request so its proof can be matched later.
+ */
+export async function rememberPaymentRequest(
+  store: PaymentNonceStore,
+  paymentRequest: X402PaymentRequest,
+  customerId: string,
+): Promise<void> {
+  const ttlMs = Math.max(1000, paymentRequest.expiresAt * 1000 - Date.now());
+  await store.save({ ...paymentRequest, customerId }, ttlMs);
+}
+
+// ============================================================================
+// Signature Verification
+// ============================================================================
+
+/**
+ * Build the message a client signs (with EIP-191 `personal_sign`) to pay an
+ * x402 payment request. Fields are taken from the 402 response, plus the
+ * payer's session key, smart account and the signing timestamp.
+ *
+ * @example
+ * ```typescript
+ * const message = buildPaymentMessage({
+ *   amount: paymentRequest.amount,
+ *   recipient: paymentRequest.recipient,
+ *   usageId: paymentRequest.usageId,
+ *   nonce: paymentRequest.nonce,
+ *   timestamp: Math.floor(Date.now() / 1000),
+ *   sessionKeyId,
+ *   smartAccount,
+ * });
+ * const signature = await sessionKey.signMessage(message);
+ * ```
+ */
+export function buildPaymentMessage(proof: Omit<X402PaymentProof, 'signature'>): string {
+  return [
+    'Drip x402 payment',
+    `amount: ${proof.amount}`,
+    `recipient: ${proof.recipient.toLowerCase()}`,
+    `usageId: ${proof.usageId.toLowerCase()}`,
+    `nonce: ${proof.nonce}`,
+    `timestamp: ${proof.timestamp}`,
+    `sessionKey: ${proof.sessionKeyId.toLowerCase()}`,
+    `smartAccount: ${proof.smartAccount.toLowerCase()}`,
+  ].join('\n');
+}
+
+/**
+ * Default {@link PaymentProofVerifier}: recovers the signer of
+ * {@link buildPaymentMessage} and accepts it only if it is the customer's
+ * registered on-chain address, which must also be the proof's smart account.
+ *
+ * Session keys and ERC-1271 smart-account signatures can't be tied to the
+ * customer from the proof alone; verify those with a custom verifier.
+ */
+export const verifyPaymentSignature: PaymentProofVerifier = async (proof, _paymentRequest, context) => {
+  const customer = await context.drip.getCustomer(context.customerId);
+  const registered = customer.onchainAddress?.toLowerCase();
+  if (!registered) {
+    return { valid: false, reason: 'Customer has no registered on-chain address' };
+  }
+  if (proof.smartAccount.toLowerCase() !== registered) {
+    return { valid: false, reason: 'Payment is not from the customer\'s registered account' };
+  }
+
+  const signer = recoverPersonalMessageSigner(buildPaymentMessage(proof), proof.signature);
+  if (!signer) {
+    return { valid: false, reason: 'Invalid payment signature' };
+  }
+  if (signer !== registered) {
+    return { valid: false, reason: 'Payment was not signed by the customer\'s registered account' };
+  }
+  return { valid: true };
+};
+
+// ============================================================================
+// Proof Verification
+// ============================================================================
+
+/**
+ * Compare two non-negative decimal amounts without floating point error.
+ * Returns null if either is not a decimal number.
+ */
+function compareAmounts(a: string, b: string): number | null {
+  const pattern = /^\d+(\.\d+)?$/;
+  if (!pattern.test(a) || !pattern.test(b)) {
+    return null;
+  }
+
+  const [aInt = '', aFrac = ''] = a.split('.');
+  const [bInt = '', bFrac = ''] = b.split('.');
+  const scale = Math.max(aFrac.length, bFrac.length);
+  const aUnits = BigInt(aInt + aFrac.padEnd(scale, '0'));
+  const bUnits = BigInt(bInt + bFrac.padEnd(scale, '0'));
+  return aUnits === bUnits ? 0 : aUnits > bUnits ? 1 : -1;
+}
+
+/**
+ * Verify a payment proof against the request it answers. The nonce is not
+ * consumed: call `store.consume()` once the payment has been recorded, so a
+ * failure to record it leaves the proof usable.
+ *
+ * @param proof - Parsed proof headers (null if they were malformed or stale)
+ * @param context - Customer the current request is for, and the Drip client
+ * @param options - Nonce store holding issued requests, and the signature
+ *   check (defaults to {@link verifyPaymentSignature})
+ * @returns The matched payment request, or the reason the proof was rejected
+ */
+export async function verifyPaymentProof(
+  proof: X402PaymentProof | null,
+  context: PaymentVerificationContext,
+  options: { store: PaymentNonceStore; verifier?: PaymentProofVerifier },
+): Promise<PaymentVerificationResult & { paymentRequest?: IssuedPaymentRequest }> {
+  const { customerId } = context;
+  if (!proof) {
+    return { valid: false, reason: 'Malformed or expired payment proof headers' };
+  }
+
+  const paymentRequest = await options.store.get(proof.nonce);
+  if (!paymentRequest) {
+    return { valid: false, reason: 'Unknown or already used payment nonce' };
+  }
+
+  if (paymentRequest.expiresAt < Math.floor(Date.now() / 1000)) {
+    return { valid: false, reason: 'Payment request has expired' };
+  }
+  if (paymentRequest.customerId !== customerId) {
+    return { valid: false, reason: 'Payment request was issued to a different customer' };
+  }
+  if (proof.recipient.toLowerCase() !== paymentRequest.recipient.toLowerCase()) {
+    return { valid: false, reason: 'Payment recipient does not match the payment request' };
+  }
+  if (proof.usageId.toLowerCase() !== paymentRequest.usageId.toLowerCase()) {
+    return { valid: false, reason: 'Payment usage ID does not match the payment request' };
+  }
+  const amountComparison = compareAmounts(proof.amount, paymentRequest.amount);
+  if (amountComparison === null || amountComparison < 0) {
+    return { valid: false, reason: 'Payment amount is less than the amount requested' };
+  }
+
+  const verifier = options.verifier ?? verifyPaymentSignature;
+  const result = await verifier(proof, paymentRequest, context);
+  if (!result.valid) {
+    return { valid: false, reason: result.reason ?? 'Invalid payment signature' };
+  }
+
+  return { valid: true, paymentRequest };
+}
@@ -24,6 +24,7 @@ export {
   createWithDrip,
   hasPaymentProofHeaders,
   getDripHeader,
+  dripWebhookHandler,
 } from './middleware/next.js';
 
 export type {
@@ -36,15 +37,35 @@ export type {
 // Re-export shared types
 export type {
   WithDripConfig,
+  ChargeTiming,
+  RequireBalanceOptions,
   DripContext,
   X402PaymentProof,
   X402PaymentRequest,
+  PaymentProofVerifier,
+  PaymentVerificationContext,
+  PaymentNonceStore,
+  IssuedPaymentRequest,
 } from './middleware/types.js';
 
 export { DripMiddlewareError } from './middleware/types.js';
+export { MemoryPaymentNonceStore } from './middleware/x402.js';
+
+// Re-export webhook receiver types
+export type {
+  DripWebhookHandlerConfig,
+  WebhookEventHandlers,
+} from './middleware/webhooks.js';
 
 // Re-export core SDK for convenience
-export { Drip, DripError } from './index.js';
+export {
+  Drip,
+  DripError,
+  WebhookSignatureError,
+  WebhookReplayGuard,
+  MemoryWebhookReplayStore,
+  RedisWebhookReplayStore,
+} from './index.js';
 
 export type {
   DripConfig,
@@ -52,4 +73,6 @@ export type {
   ChargeParams,
   ChargeResult,
   ChargeStatus,
+  WebhookEvent,
+  WebhookEventType,
 } from './index.js';
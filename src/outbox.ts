@@ -0,0 +1,485 @@
+/**
+ * Durable offline outbox for the Drip SDK.
+ *
+ * When the outbox is enabled, `charge()`, `trackUsage()` and `emitEvent()`
+ * no longer lose usage if the Drip API is unreachable or the circuit breaker
+ * is open. The request is stored together with its idempotency key and the
+ * call resolves with `queued: true`. A background drain replays stored
+ * requests once the API is healthy again; because every request carries its
+ * idempotency key, a replay never double-bills.
+ *
+ * Requests that keep failing, or that the API rejects outright (e.g. a 400),
+ * are moved to a dead-letter list for inspection.
+ *
+ * @example
+ * ```typescript
+ * import { Drip, FileOutboxStorage } from '@drip-sdk/node';
+ *
+ * const drip = new Drip({
+ *   apiKey: process.env.DRIP_API_KEY!,
+ *   resilience: true,
+ *   outbox: { storage: new FileOutboxStorage('./.drip/outbox.json') },
+ * });
+ *
+ * const result = await drip.trackUsage({ customerId, meter: 'api_calls', quantity: 1 });
+ * if (result.queued) {
+ *   console.log('API unavailable - usage stored for later delivery');
+ * }
+ *
+ * console.log(await drip.outbox!.pending());
+ * await drip.outbox!.flush();
+ * ```
+ */
+
+import { dirname, mkdir, readFile, rename, writeFile } from './runtime.js';
+import { DripError, DripNetworkError, DripTimeoutError } from './errors.js';
+import { CircuitBreakerOpenError, RetryExhaustedError } from './resilience.js';
+
+// =============================================================================
+// Entry Types
+// =============================================================================
+
+/**
+ * The SDK method that produced an outbox entry.
+ */
+export type OutboxEntryKind = 'charge' | 'trackUsage' | 'emitEvent';
+
+/**
+ * Which list an entry is stored in.
+ */
+export type OutboxQueue = 'pending' | 'dead';
+
+/**
+ * A stored API request awaiting delivery.
+ */
+export interface OutboxEntry {
+  /** Unique entry ID (derived from the kind and idempotency key) */
+  id: string;
+
+  /** SDK method that produced the request */
+  kind: OutboxEntryKind;
+
+  /** API path the request is sent to */
+  path: string;
+
+  /** Serialized JSON request body */
+  body: string;
+
+  /** Idempotency key carried in the body; makes replays safe */
+  idempotencyKey: string;
+
+  /** Delivery attempts made so far, including the original call */
+  attempts: number;
+
+  /** When the entry was stored (Unix ms) */
+  createdAt: number;
+
+  /** Earliest time the background drain will retry the entry (Unix ms) */
+  nextAttemptAt: number;
+
+  /** Message of the most recent failure */
+  lastError?: string;
+
+  /** HTTP status of the most recent failure (0 if no response) */
+  lastStatus?: number;
+}
+
+/**
+ * Result of draining the outbox.
+ */
+export interface OutboxFlushResult {
+  /** Entries delivered successfully */
+  delivered: number;
+
+  /** Entries that failed transiently and remain pending */
+  failed: number;
+
+  /** Entries moved to the dead-letter list */
+  deadLettered: number;
+
+  /** Entries still pending after the flush */
+  remaining: number;
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/**
+ * Pluggable storage for outbox entries.
+ *
+ * Implementations must be durable across process restarts to survive crashes;
+ * {@link MemoryOutboxStorage} is provided for tests and short-lived processes.
+ */
+export interface OutboxStorage {
+  /** Return all entries in a queue, oldest first */
+  getAll(queue: OutboxQueue): Promise<OutboxEntry[]>;
+
+  /** Insert or replace an entry (keyed by `entry.id`) */
+  put(queue: OutboxQueue, entry: OutboxEntry): Promise<void>;
+
+  /** Remove an entry; no-op if it does not exist */
+  remove(queue: OutboxQueue, id: string): Promise<void>;
+}
+
+/**
+ * In-memory outbox storage. Entries are lost when the process exits.
+ */
+export class MemoryOutboxStorage implements OutboxStorage {
+  private readonly queues: Record<OutboxQueue, Map<string, OutboxEntry>> = {
+    pending: new Map(),
+    dead: new Map(),
+  };
+
+  async getAll(queue: OutboxQueue): Promise<OutboxEntry[]> {
+    return Array.from(this.queues[queue].values()).map((entry) => ({ ...entry }));
+  }
+
+  async put(queue: OutboxQueue, entry: OutboxEntry): Promise<void> {
+    this.queues[queue].set(entry.id, { ...entry });
+  }
+
+  async remove(queue: OutboxQueue, id: string): Promise<void> {
+    this.queues[queue].delete(id);
+  }
+}
+
+/**
+ * Outbox storage backed by a local JSON file.
+ *
+ * The file is rewritten atomically (write to a temp file, then rename) after
+ * every change, so a crash never leaves a half-written outbox. Suitable for a
+ * single process; use a shared store for multiple workers.
+ */
+export class FileOutboxStorage implements OutboxStorage {
+  private readonly filePath: string;
+  private state: Record<OutboxQueue, Record<string, OutboxEntry>> | null = null;
+  private loading: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath - Path of the JSON file (created on first write)
+   */
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async getAll(queue: OutboxQueue): Promise<OutboxEntry[]> {
+    const state = await this.load();
+    return Object.values(state[queue])
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((entry) => ({ ...entry }));
+  }
+
+  async put(queue: OutboxQueue, entry: OutboxEntry): Promise<void> {
+    const state = await this.load();
+    state[queue][entry.id] = { ...entry };
+    await this.persist();
+  }
+
+  async remove(queue: OutboxQueue, id: string): Promise<void> {
+    const state = await this.load();
+    if (!(id in state[queue])) {
+      return;
+    }
+    delete state[queue][id];
+    await this.persist();
+  }
+
+  private async load(): Promise<Record<OutboxQueue, Record<string, OutboxEntry>>> {
+    if (!this.state) {
+      this.loading ??= this.readFile();
+      await this.loading;
+    }
+    return this.state!;
+  }
+
+  private async readFile(): Promise<void> {
+    try {
+      const parsed = JSON.parse(await readFile(this.filePath, 'utf8')) as Partial<
+        Record<OutboxQueue, Record<string, OutboxEntry>>
+      >;
+      this.state = { pending: parsed.pending ?? {}, dead: parsed.dead ?? {} };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.state = { pending: {}, dead: {} };
+    }
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.state);
+    const tempPath = `${this.filePath}.tmp`;
+
+    this.writeChain = this.writeChain
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(tempPath, snapshot, 'utf8');
+        await rename(tempPath, this.filePath);
+      });
+
+    return this.writeChain;
+  }
+}
+
+// =============================================================================
+// Outbox
+// =============================================================================
+
+/**
+ * Configuration for the outbox.
+ */
+export interface OutboxConfig {
+  /**
+   * Where entries are stored.
+   * @default new MemoryOutboxStorage()
+   */
+  storage?: OutboxStorage;
+
+  /**
+   * Delivery attempts (including the original call) before an entry is
+   * moved to the dead-letter list.
+   * @default 10
+   */
+  maxAttempts?: number;
+
+  /**
+   * How often the background drain checks for due entries, in ms.
+   * Set to 0 to disable the background drain and only deliver on `flush()`.
+   * @default 5000
+   */
+  drainIntervalMs?: number;
+
+  /**
+   * Initial delay before retrying a failed entry, in ms. Doubles per attempt.
+   * @default 1000
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Maximum delay between retries of an entry, in ms.
+   * @default 300000
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * Sends a stored request to the API.
+ * @internal
+ */
+export type OutboxSendFn = (entry: OutboxEntry) => Promise<unknown>;
+
+/**
+ * Whether an error means the API could not be reached or was temporarily
+ * unable to process the request, so the request is worth storing and replaying.
+ */
+export function isTransientFailure(error: unknown): boolean {
+  if (
+    error instanceof DripNetworkError ||
+    error instanceof DripTimeoutError ||
+    error instanceof CircuitBreakerOpenError
+  ) {
+    return true;
+  }
+  if (error instanceof RetryExhaustedError) {
+    return isTransientFailure(error.lastError);
+  }
+  if (error instanceof DripError) {
+    return error.statusCode >= 500 || error.statusCode === 429;
+  }
+  return false;
+}
+
+/**
+ * Durable queue of API requests awaiting delivery.
+ *
+ * Created by the Drip client when `outbox` is enabled; access it via `drip.outbox`.
+ */
+export class Outbox {
+  private readonly storage: OutboxStorage;
+  private readonly send: OutboxSendFn;
+  private readonly isHealthy: () => boolean;
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private draining: Promise<OutboxFlushResult> | null = null;
+  private stopped = false;
+
+  /**
+   * @param send - Delivers a stored request to the API
+   * @param isHealthy - Whether the background drain should run (e.g. circuit not open)
+   * @param config - Outbox configuration
+   */
+  constructor(send: OutboxSendFn, isHealthy: () => boolean, config: OutboxConfig = {}) {
+    this.send = send;
+    this.isHealthy = isHealthy;
+    this.storage = config.storage ?? new MemoryOutboxStorage();
+    this.maxAttempts = config.maxAttempts ?? 10;
+    this.baseDelayMs = config.baseDelayMs ?? 1000;
+    this.maxDelayMs = config.maxDelayMs ?? 300000;
+
+    const drainIntervalMs = config.drainIntervalMs ?? 5000;
+    if (drainIntervalMs > 0) {
+      this.timer = setInterval(() => {
+        if (this.isHealthy()) {
+          void this.drain(false).catch(() => undefined);
+        }
+      }, drainIntervalMs);
+      // Never keep the process alive just to drain the outbox
+      if (typeof this.timer === 'object' && typeof this.timer.unref === 'function') {
+        this.timer.unref();
+      }
+    }
+  }
+
+  /**
+   * Store a request that failed transiently.
+   * @internal
+   */
+  async enqueue(
+    request: Pick<OutboxEntry, 'kind' | 'path' | 'body' | 'idempotencyKey'>,
+    error: unknown,
+  ): Promise<OutboxEntry> {
+    const now = Date.now();
+    const entry: OutboxEntry = {
+      ...request,
+      id: `${request.kind}:${request.idempotencyKey}`,
+      attempts: 1,
+      createdAt: now,
+      nextAttemptAt: now + this.delayFor(1),
+      ...this.describeError(error),
+    };
+    await this.storage.put('pending', entry);
+    return entry;
+  }
+
+  /**
+   * List requests awaiting delivery, oldest first.
+   */
+  async pending(): Promise<OutboxEntry[]> {
+    return this.storage.getAll('pending');
+  }
+
+  /**
+   * List requests that exhausted their attempts or were rejected by the API.
+   */
+  async deadLetters(): Promise<OutboxEntry[]> {
+    return this.storage.getAll('dead');
+  }
+
+  /**
+   * Try to deliver every pending request now, ignoring retry schedules.
+   *
+   * @returns Counts of delivered, failed and dead-lettered entries
+   */
+  async flush(): Promise<OutboxFlushResult> {
+    // Let an in-progress background drain finish first so entries aren't sent twice
+    if (this.draining) {
+      await this.draining.catch(() => undefined);
+    }
+    return this.drain(true);
+  }
+
+  /**
+   * Move a dead-lettered entry back to the pending queue for another round of attempts.
+   *
+   * @returns true if the entry was found
+   */
+  async requeueDeadLetter(id: string): Promise<boolean> {
+    const entry = (await this.storage.getAll('dead')).find((e) => e.id === id);
+    if (!entry) {
+      return false;
+    }
+    await this.storage.put('pending', { ...entry, attempts: 0, nextAttemptAt: Date.now() });
+    await this.storage.remove('dead', id);
+    return true;
+  }
+
+  /**
+   * Permanently delete a dead-lettered entry.
+   */
+  async discardDeadLetter(id: string): Promise<void> {
+    await this.storage.remove('dead', id);
+  }
+
+  /**
+   * Stop the background drain. Pending entries stay in storage and can still
+   * be delivered with `flush()`.
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private drain(force: boolean): Promise<OutboxFlushResult> {
+    if (this.draining) {
+      return this.draining;
+    }
+    this.draining = this.deliverPending(force).finally(() => {
+      this.draining = null;
+    });
+    return this.draining;
+  }
+
+  private async deliverPending(force: boolean): Promise<OutboxFlushResult> {
+    const result: OutboxFlushResult = { delivered: 0, failed: 0, deadLettered: 0, remaining: 0 };
+    const now = Date.now();
+
+    for (const entry of await this.storage.getAll('pending')) {
+      if (!force && this.stopped) {
+        break;
+      }
+      if (!force && entry.nextAttemptAt > now) {
+        continue;
+      }
+
+      try {
+        await this.send(entry);
+        await this.storage.remove('pending', entry.id);
+        result.delivered++;
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const updated: OutboxEntry = {
+          ...entry,
+          attempts,
+          nextAttemptAt: Date.now() + this.delayFor(attempts),
+          ...this.describeError(error),
+        };
+
+        if (!isTransientFailure(error) || attempts >= this.maxAttempts) {
+          await this.storage.put('dead', updated);
+          await this.storage.remove('pending', entry.id);
+          result.deadLettered++;
+        } else {
+          await this.storage.put('pending', updated);
+          result.failed++;
+        }
+
+        // The API is still down - leave the rest for the next drain
+        if (!force && error instanceof CircuitBreakerOpenError) {
+          break;
+        }
+      }
+    }
+
+    result.remaining = (await this.storage.getAll('pending')).length;
+    return result;
+  }
+
+  private delayFor(attempts: number): number {
+    return Math.min(this.maxDelayMs, this.baseDelayMs * Math.pow(2, attempts - 1));
+  }
+
+  private describeError(error: unknown): Pick<OutboxEntry, 'lastError' | 'lastStatus'> {
+    return {
+      lastError: error instanceof Error ? error.message : String(error),
+      lastStatus: error instanceof DripError ? error.statusCode : undefined,
+    };
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Auto-pagination helpers for the Drip SDK.
+ *
+ * List endpoints return one page at a time. These helpers turn them into
+ * `AsyncIterable`s that fetch the next page only when the previous one has
+ * been consumed, so `break`ing out of a `for await` loop stops paging
+ * immediately. Every page goes through the client's normal request path,
+ * so rate limiting and retries apply.
+ *
+ * @example
+ * ```typescript
+ * for await (const charge of drip.charges.iterate({ status: 'CONFIRMED' })) {
+ *   await reconcile(charge);
+ * }
+ * ```
+ */
+
+import { DripError } from './errors.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options shared by all `iterate` methods.
+ */
+export interface PaginationOptions {
+  /**
+   * Number of items requested per page (list endpoints accept at most 100).
+   * Must be a positive integer.
+   * @default 100
+   */
+  pageSize?: number;
+
+  /**
+   * Stop after yielding this many items in total.
+   */
+  maxItems?: number;
+}
+
+/**
+ * A page from an offset-paginated endpoint.
+ */
+export interface OffsetPage<T> {
+  data: T[];
+}
+
+/**
+ * A page from a cursor-paginated endpoint.
+ */
+export interface CursorPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// =============================================================================
+// Paginators
+// =============================================================================
+
+/**
+ * Throws unless the page size is a positive integer, which would otherwise
+ * request empty pages forever.
+ */
+function assertPageSize(limit: number): void {
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new DripError(`pageSize must be a positive integer, got ${limit}`, 0, 'INVALID_PAGE_SIZE');
+  }
+}
+
+/**
+ * Iterate an offset/limit endpoint until a short page is returned.
+ *
+ * Also stops if a page repeats the previous one, which is what an endpoint
+ * that ignores `offset` returns.
+ *
+ * @param fetchPage - Fetches the page starting at `offset`
+ * @param options - Page size, starting offset and item cap
+ */
+export async function* paginateByOffset<T>(
+  fetchPage: (offset: number, limit: number) => Promise<OffsetPage<T>>,
+  options: PaginationOptions & { offset?: number } = {},
+): AsyncGenerator<T, void, undefined> {
+  const limit = options.pageSize ?? 100;
+  let offset = options.offset ?? 0;
+  let yielded = 0;
+  let previousPage: string | undefined;
+
+  assertPageSize(limit);
+  if (options.maxItems !== undefined && options.maxItems <= 0) {
+    return;
+  }
+
+  while (true) {
+    const page = await fetchPage(offset, limit);
+
+    const serialized = JSON.stringify(page.data);
+    if (serialized === previousPage) {
+      return;
+    }
+    previousPage = serialized;
+
+    for (const item of page.data) {
+      yield item;
+      if (++yielded === options.maxItems) {
+        return;
+      }
+    }
+
+    if (page.data.length < limit) {
+      return;
+    }
+    offset += page.data.length;
+  }
+}
+
+/**
+ * Iterate a cursor endpoint until the server reports no more pages, or hands
+ * back the cursor it was given.
+ *
+ * @param fetchPage - Fetches the page after `cursor` (undefined for the first page)
+ * @param options - Page size and item cap
+ */
+export async function* paginateByCursor<T>(
+  fetchPage: (cursor: string | undefined, limit: number) => Promise<CursorPage<T>>,
+  options: PaginationOptions = {},
+): AsyncGenerator<T, void, undefined> {
+  const limit = options.pageSize ?? 100;
+  let cursor: string | undefined;
+  let yielded = 0;
+
+  assertPageSize(limit);
+  if (options.maxItems !== undefined && options.maxItems <= 0) {
+    return;
+  }
+
+  while (true) {
+    const page = await fetchPage(cursor, limit);
+
+    for (const item of page.items) {
+      yield item;
+      if (++yielded === options.maxItems) {
+        return;
+      }
+    }
+
+    if (!page.hasMore || !page.nextCursor || page.nextCursor === cursor) {
+      return;
+    }
+    cursor = page.nextCursor;
+  }
+}
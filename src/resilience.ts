@@ -8,6 +8,8 @@
  * - Request metrics and observability
  */
 
+import { DripNetworkError, DripRateLimitError, parseRetryAfter } from './errors.js';
+
 // =============================================================================
 // Rate Limiter (Token Bucket Algorithm)
 // =============================================================================
@@ -33,6 +35,81 @@ export interface RateLimiterConfig {
    * @default true
    */
   enabled: boolean;
+
+  /**
+   * Adapt the refill rate to the server's rate-limit headers.
+   *
+   * When enabled, the limiter slows down as `X-RateLimit-Remaining` approaches
+   * zero, pauses until `X-RateLimit-Reset` / `Retry-After` when the server
+   * says to, and gradually recovers to `requestsPerSecond` afterwards.
+   * @default true
+   */
+  adaptive?: boolean;
+
+  /**
+   * Lowest refill rate the adaptive limiter will shrink to.
+   * @default 1
+   */
+  minRequestsPerSecond?: number;
+}
+
+/**
+ * Rate-limit state reported by the server on a response.
+ */
+export interface RateLimitInfo {
+  /** Requests allowed per window (`X-RateLimit-Limit`) */
+  limit: number | null;
+
+  /** Requests left in the current window (`X-RateLimit-Remaining`) */
+  remaining: number | null;
+
+  /** Milliseconds until the window resets (`X-RateLimit-Reset`) */
+  resetMs: number | null;
+
+  /** Milliseconds the server asked us to wait (`Retry-After`) */
+  retryAfterMs: number | null;
+}
+
+/**
+ * Parse rate-limit headers from a response.
+ *
+ * `X-RateLimit-Reset` is accepted as seconds until reset, or as a Unix
+ * timestamp in seconds or milliseconds.
+ *
+ * @param headers - Response headers with lower-cased names
+ * @returns Parsed info, or null if the response carried no rate-limit headers
+ */
+export function parseRateLimitHeaders(headers: Record<string, string>): RateLimitInfo | null {
+  const toNumber = (value: string | undefined): number | null => {
+    if (value === undefined || value === '') {
+      return null;
+    }
+    const n = Number(value);
+    return isNaN(n) ? null : n;
+  };
+
+  const limit = toNumber(headers['x-ratelimit-limit']);
+  const remaining = toNumber(headers['x-ratelimit-remaining']);
+  const reset = toNumber(headers['x-ratelimit-reset']);
+  const retryAfterMs = parseRetryAfter(headers['retry-after']);
+
+  if (limit === null && remaining === null && reset === null && retryAfterMs === null) {
+    return null;
+  }
+
+  let resetMs: number | null = null;
+  if (reset !== null) {
+    if (reset > 1e12) {
+      resetMs = reset - Date.now();
+    } else if (reset > 1e9) {
+      resetMs = reset * 1000 - Date.now();
+    } else {
+      resetMs = reset * 1000;
+    }
+    resetMs = Math.max(0, resetMs);
+  }
+
+  return { limit, remaining, resetMs, retryAfterMs };
 }
 
 /**
@@ -42,23 +119,44 @@ export const DEFAULT_RATE_LIMITER_CONFIG: RateLimiterConfig = {
   requestsPerSecond: 100,
   burstSize: 200,
   enabled: true,
+  adaptive: true,
+  minRequestsPerSecond: 1,
 };
 
+/**
+ * Fraction of the server limit below which the adaptive limiter slows down.
+ */
+const LOW_REMAINING_RATIO = 0.1;
+
+/**
+ * Factor by which the adaptive rate grows back per unthrottled response.
+ */
+const RECOVERY_FACTOR = 1.1;
+
+/**
+ * How long a request waits for a rate limiter slot before failing.
+ */
+const RATE_LIMITER_TIMEOUT_MS = 30000;
+
 /**
  * Thread-safe token bucket rate limiter.
  *
  * Allows bursting up to `burstSize` requests, then limits to
- * `requestsPerSecond` sustained rate.
+ * `requestsPerSecond` sustained rate. In adaptive mode the sustained rate
+ * follows the server's rate-limit headers (see {@link RateLimiter.updateFromServer}).
  */
 export class RateLimiter {
   private readonly config: RateLimiterConfig;
   private tokens: number;
   private lastRefill: number;
+  private currentRate: number;
+  private pausedUntil = 0;
 
   constructor(config?: Partial<RateLimiterConfig>) {
     this.config = { ...DEFAULT_RATE_LIMITER_CONFIG, ...config };
     this.tokens = this.config.burstSize;
     this.lastRefill = Date.now();
+    this.currentRate = this.config.requestsPerSecond;
   }
 
   /**
@@ -69,11 +167,107 @@ export class RateLimiter {
     const elapsed = (now - this.lastRefill) / 1000; // Convert to seconds
     this.tokens = Math.min(
       this.config.burstSize,
-      this.tokens + elapsed * this.config.requestsPerSecond
+      this.tokens + elapsed * this.currentRate
     );
     this.lastRefill = now;
   }
 
+  /**
+   * Shrink the refill rate and drop any burst capacity above it.
+   */
+  private throttleTo(rate: number): void {
+    const floor = Math.min(this.config.minRequestsPerSecond ?? 1, this.config.requestsPerSecond);
+    this.refill();
+    this.currentRate = Math.max(floor, Math.min(this.currentRate, rate));
+    this.tokens = Math.min(this.tokens, Math.max(1, this.currentRate));
+  }
+
+  /**
+   * Stop handing out tokens for the given duration (e.g. after a 429).
+   *
+   * @param ms - How long to pause, in milliseconds
+   */
+  pause(ms: number): void {
+    if (!this.config.enabled) {
+      return;
+    }
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Adapt to the rate-limit state reported by the server.
+   *
+   * - `Retry-After` halves the refill rate. The pause itself is left to the
+   *   caller that received the 429 (see {@link ResilienceManager.execute}).
+   * - `X-RateLimit-Remaining: 0` pauses until the server's reset time and
+   *   halves the refill rate.
+   * - A low remaining budget shrinks the refill rate to what fits before the reset.
+   * - Otherwise the rate recovers gradually toward `requestsPerSecond`.
+   *
+   * Responses that arrive while already paused don't halve the rate again, so
+   * a burst of concurrent 429s counts once.
+   *
+   * No-op unless rate limiting and `adaptive` are enabled.
+   *
+   * @param info - Parsed rate-limit headers, or null if the response had none
+   * @param maxPauseMs - Longest pause to honor; longer resets don't pause
+   */
+  updateFromServer(info: RateLimitInfo | null, maxPauseMs = Infinity): void {
+    if (!this.config.enabled || this.config.adaptive === false) {
+      return;
+    }
+
+    if (info?.retryAfterMs != null) {
+      if (this.pausedForMs === 0) {
+        this.throttleTo(this.currentRate / 2);
+      }
+      return;
+    }
+
+    if (info?.remaining != null) {
+      if (info.remaining <= 0) {
+        const resetMs = info.resetMs ?? 1000;
+        if (this.pausedForMs === 0) {
+          this.throttleTo(this.currentRate / 2);
+        }
+        if (resetMs <= maxPauseMs) {
+          this.pause(resetMs);
+        }
+        return;
+      }
+
+      const nearLimit = info.limit !== null
+        ? info.remaining < info.limit * LOW_REMAINING_RATIO
+        : false;
+
+      if (nearLimit && info.resetMs !== null && info.resetMs > 0) {
+        this.throttleTo(info.remaining / (info.resetMs / 1000));
+        return;
+      }
+    }
+
+    this.refill();
+    this.currentRate = Math.min(
+      this.config.requestsPerSecond,
+      this.currentRate * RECOVERY_FACTOR
+    );
+  }
+
+  /**
+   * Current sustained rate in requests per second (lower than the configured
+   * rate while the adaptive limiter is throttled).
+   */
+  get effectiveRequestsPerSecond(): number {
+    return this.currentRate;
+  }
+
+  /**
+   * Milliseconds until a pause requested by the server ends (0 if not paused).
+   */
+  get pausedForMs(): number {
+    return Math.max(0, this.pausedUntil - Date.now());
+  }
+
   /**
    * Acquire a token, blocking if necessary.
    *
@@ -90,13 +284,16 @@ export class RateLimiter {
     while (true) {
       this.refill();
 
-      if (this.tokens >= 1) {
+      const pausedFor = this.pausedForMs;
+      if (pausedFor === 0 && this.tokens >= 1) {
         this.tokens -= 1;
         return true;
       }
 
-      // Calculate wait time for next token
-      const waitTime = ((1 - this.tokens) / this.config.requestsPerSecond) * 1000;
+      // Calculate wait time for the pause to end or the next token
+      const waitTime = pausedFor > 0
+        ? pausedFor
+        : ((1 - this.tokens) / this.currentRate) * 1000;
 
       if (deadline !== undefined) {
         const remaining = deadline - Date.now();
@@ -122,7 +319,7 @@ export class RateLimiter {
 
     this.refill();
 
-    if (this.tokens >= 1) {
+    if (this.pausedForMs === 0 && this.tokens >= 1) {
       this.tokens -= 1;
       return true;
     }
@@ -192,6 +389,19 @@ export interface RetryConfig {
    * @default true
    */
   enabled: boolean;
+
+  /**
+   * Wait at least the server-provided `Retry-After` interval before retrying a 429.
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Longest `Retry-After` interval the SDK will wait for. If the server asks
+   * for a longer wait, the error is thrown instead of retried.
+   * @default 60000
+   */
+  maxRetryAfterMs?: number;
 }
 
 /**
@@ -205,6 +415,8 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   jitter: 0.1,
   retryableStatusCodes: [429, 500, 502, 503, 504],
   enabled: true,
+  respectRetryAfter: true,
+  maxRetryAfterMs: 60000,
 };
 
 /**
@@ -246,6 +458,11 @@ export function isRetryableError(
   error: unknown,
   config: RetryConfig
 ): boolean {
+  // No response was received from the API
+  if (error instanceof DripNetworkError) {
+    return true;
+  }
+
   if (error instanceof Error) {
     // Check for network errors
     if (
@@ -618,6 +835,8 @@ export function createDefaultResilienceConfig(): ResilienceConfig {
       requestsPerSecond: 100,
       burstSize: 200,
       enabled: true,
+      adaptive: true,
+      minRequestsPerSecond: 1,
     },
     retry: {
       maxRetries: 3,
@@ -627,6 +846,8 @@ export function createDefaultResilienceConfig(): ResilienceConfig {
       jitter: 0.1,
       retryableStatusCodes: [429, 500, 502, 503, 504],
       enabled: true,
+      respectRetryAfter: true,
+      maxRetryAfterMs: 60000,
     },
     circuitBreaker: {
       failureThreshold: 5,
@@ -659,6 +880,8 @@ export function createHighThroughputResilienceConfig(): ResilienceConfig {
       requestsPerSecond: 1000,
       burstSize: 2000,
       enabled: true,
+      adaptive: true,
+      minRequestsPerSecond: 10,
     },
     retry: {
       maxRetries: 2,
@@ -668,6 +891,8 @@ export function createHighThroughputResilienceConfig(): ResilienceConfig {
       jitter: 0.1,
       retryableStatusCodes: [429, 500, 502, 503, 504],
       enabled: true,
+      respectRetryAfter: true,
+      maxRetryAfterMs: 60000,
     },
     circuitBreaker: {
       failureThreshold: 10,
@@ -690,6 +915,10 @@ export interface ResilienceHealth {
   rateLimiter: {
     availableTokens: number;
     requestsPerSecond: number;
+    /** Current sustained rate after adapting to server rate-limit headers */
+    effectiveRequestsPerSecond: number;
+    /** Milliseconds until a server-requested pause ends (0 if not paused) */
+    pausedForMs: number;
   };
   metrics: MetricsSummary | null;
 }
@@ -732,13 +961,13 @@ export class ResilienceManager {
   /**
    * Execute a function with all resilience features.
    *
-   * @param fn - The function to execute
+   * @param fn - The function to execute; receives the number of retries performed so far
    * @param method - HTTP method for metrics
    * @param endpoint - Endpoint for metrics
    * @returns Result of the function
    */
   async execute<T>(
-    fn: () => Promise<T>,
+    fn: (retryCount: number) => Promise<T>,
     method = 'UNKNOWN',
     endpoint = 'unknown'
   ): Promise<T> {
@@ -747,9 +976,14 @@ export class ResilienceManager {
     let lastError: Error | null = null;
 
     // Rate limiting
-    const acquired = await this.rateLimiter.acquire(30000);
+    const acquired = await this.rateLimiter.acquire(RATE_LIMITER_TIMEOUT_MS);
     if (!acquired) {
-      throw new Error('Rate limiter timeout');
+      const pausedForMs = this.rateLimiter.pausedForMs;
+      throw new DripRateLimitError(
+        `Rate limiter timeout: no request slot within ${RATE_LIMITER_TIMEOUT_MS}ms`,
+        pausedForMs > 0 ? pausedForMs : null,
+        'RATE_LIMITER_TIMEOUT',
+      );
     }
 
     // Circuit breaker check
@@ -763,7 +997,7 @@ export class ResilienceManager {
     // Execute with retry
     for (let attempt = 0; attempt <= this.config.retry.maxRetries; attempt++) {
       try {
-        const result = await fn();
+        const result = await fn(retryCount);
         this.circuitBreaker.recordSuccess();
 
         // Record success metrics
@@ -789,9 +1023,20 @@ export class ResilienceManager {
           this.config.retry.enabled &&
           isRetryableError(error, this.config.retry);
 
-        if (isRetryable && attempt < this.config.retry.maxRetries) {
+        const retryAfterMs = this.getRetryAfter(error);
+        const retryAfterTooLong =
+          retryAfterMs !== null &&
+          retryAfterMs > (this.config.retry.maxRetryAfterMs ?? 60000);
+
+        // Keep other callers from piling onto the limit while we wait, unless
+        // the wait is too long to retry (the error goes straight to the caller)
+        if (retryAfterMs !== null && !retryAfterTooLong) {
+          this.rateLimiter.pause(retryAfterMs);
+        }
+
+        if (isRetryable && !retryAfterTooLong && attempt < this.config.retry.maxRetries) {
           retryCount += 1;
-          const delay = calculateBackoff(attempt, this.config.retry);
+          const delay = Math.max(calculateBackoff(attempt, this.config.retry), retryAfterMs ?? 0);
           await this.sleep(delay);
           continue;
         }
@@ -826,6 +1071,33 @@ export class ResilienceManager {
     throw new Error('Unexpected execution path');
   }
 
+  /**
+   * Feed response headers to the adaptive rate limiter.
+   *
+   * Called by the client for every API response, successful or not.
+   *
+   * @param headers - Response headers with lower-cased names
+   */
+  observeResponse(headers: Record<string, string>): void {
+    this.rateLimiter.updateFromServer(
+      parseRateLimitHeaders(headers),
+      this.config.retry.maxRetryAfterMs ?? 60000,
+    );
+  }
+
+  /**
+   * Server-requested wait for a rate-limited error, or null if none applies.
+   */
+  private getRetryAfter(error: unknown): number | null {
+    if (!(error instanceof DripRateLimitError)) {
+      return null;
+    }
+    if (this.config.retry.respectRetryAfter === false) {
+      return null;
+    }
+    return error.retryAfterMs;
+  }
+
   /**
    * Get current metrics summary.
    */
@@ -845,6 +1117,8 @@ export class ResilienceManager {
       rateLimiter: {
         availableTokens: this.rateLimiter.availableTokens,
         requestsPerSecond: this.config.rateLimiter.requestsPerSecond,
+        effectiveRequestsPerSecond: this.rateLimiter.effectiveRequestsPerSecond,
+        pausedForMs: this.rateLimiter.pausedForMs,
       },
       metrics: this.getMetrics(),
     };
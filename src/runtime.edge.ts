@@ -0,0 +1,92 @@
+/**
+ * Runtime primitives for edge runtimes
+ *
+ * Replaces `runtime.ts` in the edge build. Edge runtimes only provide Web
+ * APIs: Web Crypto digests are asynchronous, so the synchronous hashes use
+ * the SDK's own SHA-256, and there is no file system.
+ *
+ * @internal
+ */
+
+import { hmacSha256Hex, sha256Hex } from './sha256.js';
+
+export { hmacSha256Hex, sha256Hex };
+
+interface AsyncLocalStorageLike<T> {
+  getStore(): T | undefined;
+  run<R>(store: T, callback: () => R): R;
+}
+
+/**
+ * Minimal stand-in for runtimes without a global `AsyncLocalStorage`. The
+ * store is only visible to the synchronous part of `run`'s callback.
+ */
+class SyncLocalStorage<T> implements AsyncLocalStorageLike<T> {
+  private store: T | undefined;
+
+  getStore(): T | undefined {
+    return this.store;
+  }
+
+  run<R>(store: T, callback: () => R): R {
+    const previous = this.store;
+    this.store = store;
+    try {
+      return callback();
+    } finally {
+      this.store = previous;
+    }
+  }
+}
+
+/**
+ * `AsyncLocalStorage` where the runtime provides it globally (Vercel Edge,
+ * Cloudflare Workers with `nodejs_als`), otherwise {@link SyncLocalStorage}.
+ */
+export const AsyncLocalStorage: new <T>() => AsyncLocalStorageLike<T> =
+  (globalThis as { AsyncLocalStorage?: new <T>() => AsyncLocalStorageLike<T> }).AsyncLocalStorage
+  ?? SyncLocalStorage;
+
+/**
+ * Constant-time string comparison. Returns false for different lengths.
+ */
+export function timingSafeEqualString(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Fill `bytes` with cryptographically secure random values.
+ */
+export function getRandomValues(bytes: Uint8Array): Uint8Array {
+  return globalThis.crypto.getRandomValues(bytes);
+}
+
+/**
+ * The Web Crypto API.
+ */
+export const subtle = globalThis.crypto.subtle;
+
+function unavailable(): Promise<never> {
+  return Promise.reject(new Error('File system access is not available in edge runtimes'));
+}
+
+export const mkdir: (path: string, options: { recursive: true }) => Promise<unknown> = unavailable;
+export const readFile: (path: string, encoding: 'utf8') => Promise<string> = unavailable;
+export const rename: (from: string, to: string) => Promise<void> = unavailable;
+export const writeFile: (path: string, data: string, encoding: 'utf8') => Promise<void> = unavailable;
+
+/**
+ * Directory part of a `/`-separated path.
+ */
+export function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index > 0 ? path.slice(0, index) : index === 0 ? '/' : '.';
+}
@@ -0,0 +1,51 @@
+/**
+ * Runtime primitives for Node.js
+ *
+ * Everything the SDK needs from Node's built-in modules is imported here, so
+ * the edge build can swap this module for `runtime.edge.ts`, which provides
+ * the same exports on Web APIs only.
+ *
+ * @internal
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash, createHmac, timingSafeEqual, webcrypto } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+export { AsyncLocalStorage, dirname, mkdir, readFile, rename, writeFile };
+
+/**
+ * SHA-256 digest as lowercase hex.
+ */
+export function sha256Hex(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * HMAC-SHA256 of `message` with `key`, as lowercase hex.
+ */
+export function hmacSha256Hex(key: string | Uint8Array, message: string | Uint8Array): string {
+  return createHmac('sha256', key).update(message).digest('hex');
+}
+
+/**
+ * Constant-time string comparison. Returns false for different lengths.
+ */
+export function timingSafeEqualString(a: string, b: string): boolean {
+  const aBytes = Buffer.from(a, 'utf8');
+  const bBytes = Buffer.from(b, 'utf8');
+  return aBytes.length === bBytes.length && timingSafeEqual(aBytes, bBytes);
+}
+
+/**
+ * Fill `bytes` with cryptographically secure random values.
+ */
+export function getRandomValues(bytes: Uint8Array): Uint8Array {
+  return webcrypto.getRandomValues(bytes);
+}
+
+/**
+ * The Web Crypto API. Node 18 only exposes it as `crypto.webcrypto`.
+ */
+export const subtle = webcrypto.subtle as SubtleCrypto;
@@ -0,0 +1,163 @@
+/**
+ * Graceful shutdown support for the Drip SDK.
+ *
+ * `drip.shutdown()` stops the client from accepting new work, flushes
+ * registered stream meters and batched calls, waits for in-flight requests,
+ * and reports anything that could not be delivered before the timeout.
+ * {@link registerShutdownHandlers} wires that to process signals so
+ * container rollouts don't drop charges.
+ *
+ * @example
+ * ```typescript
+ * import { Drip, registerShutdownHandlers } from '@drip-sdk/node';
+ *
+ * const drip = new Drip({ apiKey: process.env.DRIP_API_KEY! });
+ *
+ * registerShutdownHandlers(drip, {
+ *   timeoutMs: 10_000,
+ *   onShutdown: (report) => logger.info('Drip drained', report),
+ * });
+ * ```
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for `drip.shutdown()`.
+ */
+export interface ShutdownOptions {
+  /**
+   * Maximum time to wait for outstanding work, in ms.
+   * @default 10000
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Usage left in a stream meter that could not be charged during shutdown.
+ */
+export interface UnflushedMeter {
+  customerId: string;
+  meter: string;
+  quantity: number;
+}
+
+/**
+ * What happened during `drip.shutdown()`.
+ */
+export interface ShutdownReport {
+  /** True if all outstanding work finished before the timeout */
+  completed: boolean;
+
+  /** Time spent draining, in ms */
+  durationMs: number;
+
+  /** Stream meters whose accumulated usage was charged */
+  flushedMeters: number;
+
+  /** Stream meters whose usage could not be charged (flush failed or timed out) */
+  unflushedMeters: UnflushedMeter[];
+
+  /** Requests still in flight when the timeout elapsed */
+  droppedRequests: number;
+
+  /** Batched calls still queued when the timeout elapsed */
+  droppedBatchItems: number;
+
+  /**
+   * Requests left in the outbox. They survive the restart only if the outbox
+   * uses durable storage.
+   */
+  outboxPending: number;
+
+  /** Errors raised while draining, and by background work such as deferred charges */
+  errors: Error[];
+}
+
+/**
+ * Anything that can be shut down gracefully (e.g. a Drip client).
+ */
+export interface Shutdownable {
+  shutdown(options?: ShutdownOptions): Promise<ShutdownReport>;
+}
+
+/**
+ * Options for {@link registerShutdownHandlers}.
+ */
+export interface ShutdownHandlerOptions extends ShutdownOptions {
+  /**
+   * Signals that trigger a shutdown.
+   * @default ['SIGTERM', 'SIGINT']
+   */
+  signals?: NodeJS.Signals[];
+
+  /**
+   * Called with each client's report once draining finishes.
+   */
+  onShutdown?: (reports: ShutdownReport[]) => void | Promise<void>;
+
+  /**
+   * Re-raise the signal after draining so the process exits as it would
+   * have without the handler. Set to false to manage exit yourself.
+   * @default true
+   */
+  exit?: boolean;
+}
+
+// =============================================================================
+// Signal Handlers
+// =============================================================================
+
+/**
+ * Shut down one or more Drip clients when the process receives a signal.
+ *
+ * @param clients - Client(s) to drain
+ * @param options - Signals, timeout and callback
+ * @returns A function that removes the signal handlers
+ *
+ * @example
+ * ```typescript
+ * const unregister = registerShutdownHandlers([drip, analyticsDrip], { timeoutMs: 5000 });
+ * ```
+ */
+export function registerShutdownHandlers(
+  clients: Shutdownable | Shutdownable[],
+  options: ShutdownHandlerOptions = {},
+): () => void {
+  const targets = Array.isArray(clients) ? clients : [clients];
+  const signals = options.signals ?? ['SIGTERM', 'SIGINT'];
+  let shuttingDown = false;
+
+  const unregister = (): void => {
+    for (const signal of signals) {
+      process.removeListener(signal, handler);
+    }
+  };
+
+  async function handler(signal: NodeJS.Signals): Promise<void> {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+
+    try {
+      const reports = await Promise.all(
+        targets.map((client) => client.shutdown({ timeoutMs: options.timeoutMs })),
+      );
+      await options.onShutdown?.(reports);
+    } finally {
+      unregister();
+      if (options.exit !== false) {
+        process.kill(process.pid, signal);
+      }
+    }
+  }
+
+  for (const signal of signals) {
+    process.on(signal, handler);
+  }
+
+  return unregister;
+}
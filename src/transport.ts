@@ -0,0 +1,117 @@
+/**
+ * Pluggable HTTP transport for the Drip SDK.
+ *
+ * The Drip client never calls `fetch` directly. Every API call is described as
+ * a normalized {@link DripTransportRequest} and handed to a {@link DripTransport},
+ * which returns a normalized {@link DripTransportResponse}. The default transport
+ * uses the global `fetch`; supply your own to route traffic through a proxy,
+ * a keep-alive agent, mTLS, or a recording/replay layer for tests.
+ *
+ * @example
+ * ```typescript
+ * import { fetch as undiciFetch, Agent } from 'undici';
+ * import { Drip, createFetchTransport } from '@drip-sdk/node';
+ *
+ * const agent = new Agent({ keepAliveTimeout: 30_000 });
+ *
+ * const drip = new Drip({
+ *   apiKey: process.env.DRIP_API_KEY!,
+ *   transport: createFetchTransport((url, init) =>
+ *     undiciFetch(url, { ...init, dispatcher: agent }),
+ *   ),
+ * });
+ * ```
+ */
+
+// =============================================================================
+// Transport Types
+// =============================================================================
+
+/**
+ * A normalized outgoing request handed to a transport.
+ */
+export interface DripTransportRequest {
+  /** Upper-case HTTP method (e.g. `GET`, `POST`) */
+  method: string;
+
+  /** Fully-qualified URL including the base URL and query string */
+  url: string;
+
+  /** API path relative to the base URL (e.g. `/usage`) */
+  path: string;
+
+  /** Request headers, including `Authorization` and `Content-Type` */
+  headers: Record<string, string>;
+
+  /** Serialized request body, if any */
+  body?: string;
+
+  /** Abort signal that fires when the SDK timeout elapses */
+  signal: AbortSignal;
+}
+
+/**
+ * A normalized response returned by a transport.
+ */
+export interface DripTransportResponse {
+  /** HTTP status code */
+  status: number;
+
+  /** Response headers with lower-cased names */
+  headers: Record<string, string>;
+
+  /** Raw response body text (empty string when there is no body) */
+  body: string;
+}
+
+/**
+ * Sends a single HTTP request for the Drip client.
+ *
+ * Implementations should reject with an `Error` whose `name` is `'AbortError'`
+ * when `request.signal` fires, so the SDK can report a timeout.
+ */
+export type DripTransport = (request: DripTransportRequest) => Promise<DripTransportResponse>;
+
+/**
+ * A `fetch`-compatible function.
+ */
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+// =============================================================================
+// Default Fetch Transport
+// =============================================================================
+
+/**
+ * Create a transport backed by a `fetch`-compatible function.
+ *
+ * @param fetchImpl - The fetch implementation to use (defaults to global `fetch`)
+ * @returns A transport that can be passed as `DripConfig.transport`
+ */
+export function createFetchTransport(fetchImpl?: FetchLike): DripTransport {
+  return async (request) => {
+    const doFetch = fetchImpl ?? ((url: string, init: RequestInit) => fetch(url, init));
+
+    const res = await doFetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+
+    const headers: Record<string, string> = {};
+    res.headers.forEach((value, key) => {
+      headers[key.toLowerCase()] = value;
+    });
+
+    return {
+      status: res.status,
+      headers,
+      body: res.status === 204 ? '' : await res.text(),
+    };
+  };
+}
+
+/**
+ * The default transport, using the global `fetch`.
+ */
+export const fetchTransport: DripTransport = createFetchTransport();
@@ -0,0 +1,71 @@
+/**
+ * Drip SDK - tRPC Adapter
+ *
+ * Middleware for tRPC procedures, billed per procedure call.
+ *
+ * @example
+ * ```typescript
+ * import { initTRPC } from '@trpc/server';
+ * import { dripMiddleware } from '@drip-sdk/node/trpc';
+ *
+ * const t = initTRPC.context<{ req: Request }>().create();
+ *
+ * export const billedProcedure = t.procedure.use(dripMiddleware({
+ *   meter: 'api_calls',
+ *   operations: { 'documents.summarize': 50 },
+ *   defaultOperationCost: 1,
+ * }));
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+// Re-export tRPC specific
+export {
+  dripMiddleware,
+  getDripErrorData,
+  DripTRPCError,
+} from './middleware/trpc.js';
+
+export type {
+  TrpcMiddlewareOptions,
+  TrpcMiddlewareResult,
+  TrpcMiddleware,
+  TrpcErrorCode,
+  TrpcDripConfig,
+} from './middleware/trpc.js';
+
+export type {
+  OperationCost,
+  OperationDripConfig,
+} from './middleware/operations.js';
+
+// Re-export shared types
+export type {
+  WithDripConfig,
+  RequireBalanceOptions,
+  DripContext,
+  X402PaymentProof,
+  X402PaymentRequest,
+  PaymentProofVerifier,
+  PaymentVerificationContext,
+  PaymentNonceStore,
+  IssuedPaymentRequest,
+} from './middleware/types.js';
+
+export { DripMiddlewareError } from './middleware/types.js';
+export { MemoryPaymentNonceStore } from './middleware/x402.js';
+
+// Re-export core SDK for convenience
+export {
+  Drip,
+  DripError,
+} from './index.js';
+
+export type {
+  DripConfig,
+  Customer,
+  ChargeParams,
+  ChargeResult,
+  ChargeStatus,
+} from './index.js';
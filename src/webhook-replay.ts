@@ -0,0 +1,264 @@
+/**
+ * Webhook replay protection for the Drip SDK.
+ *
+ * A signature is valid for the whole tolerance window (5 minutes by
+ * default), so a captured delivery can be re-sent during that time and will
+ * still verify. A {@link WebhookReplayGuard} records every delivery it
+ * accepts and rejects the same delivery if it is seen again before its
+ * signature expires.
+ *
+ * Deliveries are recorded by signature and, when available, by the
+ * `x-drip-delivery-id` header. Delivery IDs are kept longer than signatures
+ * (24 hours by default), so a redelivery re-signed with a new timestamp is
+ * still caught. The in-memory store only protects a single
+ * process; use {@link RedisWebhookReplayStore} (or your own
+ * {@link WebhookReplayStore}) when several instances receive webhooks.
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis';
+ * import { Drip, WebhookReplayGuard, RedisWebhookReplayStore } from '@drip-sdk/node';
+ *
+ * const replayGuard = new WebhookReplayGuard({
+ *   store: new RedisWebhookReplayStore(new Redis(process.env.REDIS_URL!)),
+ * });
+ *
+ * const result = await Drip.verifyWebhookSignature(rawBody, header, secret, {
+ *   replayGuard,
+ *   deliveryId: req.headers['x-drip-delivery-id'],
+ * });
+ * if (result.reason === 'replayed') {
+ *   return res.status(200).send('Already processed');
+ * }
+ * ```
+ */
+
+import { DripError } from './errors.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Storage for recorded deliveries.
+ */
+export interface WebhookReplayStore {
+  /**
+   * Record `key` for `ttlMs` unless it is already recorded.
+   *
+   * @returns true if the key was recorded, false if it was already present
+   */
+  add(key: string, ttlMs: number): boolean | Promise<boolean>;
+
+  /**
+   * Forget `key` so the delivery can be accepted again.
+   */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * The parts of a verified delivery that identify it.
+ */
+export interface WebhookDelivery {
+  /** Unix timestamp (seconds) from the signature header */
+  timestamp: number;
+
+  /** `v1` signatures from the signature header */
+  signatures: string[];
+
+  /** Value of the `x-drip-delivery-id` header, if present */
+  deliveryId?: string;
+}
+
+/**
+ * Options for {@link WebhookReplayGuard}.
+ */
+export interface WebhookReplayGuardOptions {
+  /**
+   * Where recorded deliveries are kept.
+   * @default new MemoryWebhookReplayStore()
+   */
+  store?: WebhookReplayStore;
+
+  /**
+   * How long delivery IDs are kept, in ms. Redeliveries are re-signed with a
+   * fresh timestamp, so the ID must outlive the signature tolerance window.
+   * @default 86400000 (24 hours)
+   */
+  deliveryIdTtlMs?: number;
+}
+
+/**
+ * Minimal Redis client interface (matches ioredis' `set`/`del`).
+ * For node-redis, adapt `set(key, value, 'PX', ttl, 'NX')` to
+ * `set(key, value, { PX: ttl, NX: true })`.
+ */
+export interface RedisLikeClient {
+  set(key: string, value: string, ...args: Array<string | number>): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+// =============================================================================
+// Stores
+// =============================================================================
+
+/**
+ * In-memory LRU store. Protects a single process only.
+ */
+export class MemoryWebhookReplayStore implements WebhookReplayStore {
+  private readonly entries = new Map<string, number>();
+  private readonly maxEntries: number;
+
+  /**
+   * @param maxEntries - Least recently recorded keys are evicted beyond this (default 10000)
+   */
+  constructor(maxEntries = 10_000) {
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  add(key: string, ttlMs: number): boolean {
+    const now = Date.now();
+    const expiresAt = this.entries.get(key);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, now + ttlMs);
+
+    // Map iterates in insertion order, so the oldest entries come first
+    for (const [oldKey, oldExpiresAt] of this.entries) {
+      if (oldExpiresAt > now && this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldKey);
+    }
+    return true;
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Number of recorded keys (including any not yet pruned after expiry).
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Redis-backed store, shared by every instance using the same Redis.
+ * Uses `SET key 1 PX ttl NX`, so recording is atomic across instances.
+ */
+export class RedisWebhookReplayStore implements WebhookReplayStore {
+  private readonly client: RedisLikeClient;
+  private readonly keyPrefix: string;
+
+  /**
+   * @param client - ioredis-compatible client
+   * @param options - Key prefix (default `drip:webhook:`)
+   */
+  constructor(client: RedisLikeClient, options: { keyPrefix?: string } = {}) {
+    this.client = client;
+    this.keyPrefix = options.keyPrefix ?? 'drip:webhook:';
+  }
+
+  async add(key: string, ttlMs: number): Promise<boolean> {
+    const result = await this.client.set(this.keyPrefix + key, '1', 'PX', Math.ceil(ttlMs), 'NX');
+    return result === 'OK';
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.keyPrefix + key);
+  }
+}
+
+// =============================================================================
+// Replay Guard
+// =============================================================================
+
+/**
+ * Rejects deliveries that were already accepted: the same signature within
+ * its tolerance window, or the same delivery ID within `deliveryIdTtlMs`.
+ */
+export class WebhookReplayGuard {
+  private readonly store: WebhookReplayStore;
+  private readonly deliveryIdTtlMs: number;
+
+  constructor(options: WebhookReplayGuardOptions = {}) {
+    this.store = options.store ?? new MemoryWebhookReplayStore();
+    this.deliveryIdTtlMs = options.deliveryIdTtlMs ?? 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Record a delivery.
+   *
+   * @param delivery - Timestamp, signatures and delivery ID
+   * @param tolerance - Signature tolerance in seconds; the signature is kept until it expires
+   * @returns false if the delivery was already recorded
+   */
+  async claim(delivery: WebhookDelivery, tolerance: number): Promise<boolean> {
+    let fresh = true;
+    for (const { key, ttlMs } of this.replayKeys(delivery, tolerance)) {
+      // Record every key even after a hit, so later replays match on either
+      fresh = (await this.store.add(key, ttlMs)) && fresh;
+    }
+    return fresh;
+  }
+
+  /**
+   * Record a delivery synchronously. Only works with a synchronous store
+   * such as {@link MemoryWebhookReplayStore}.
+   *
+   * @throws {DripError} With code `CONFIGURATION_ERROR` if the store is asynchronous
+   */
+  claimSync(delivery: WebhookDelivery, tolerance: number): boolean {
+    let fresh = true;
+    for (const { key, ttlMs } of this.replayKeys(delivery, tolerance)) {
+      const added = this.store.add(key, ttlMs);
+      if (typeof added !== 'boolean') {
+        throw new DripError(
+          'This replay store is asynchronous; use the async verifyWebhookSignature() instead',
+          0,
+          'CONFIGURATION_ERROR',
+        );
+      }
+      fresh = added && fresh;
+    }
+    return fresh;
+  }
+
+  /**
+   * Forget a delivery, e.g. after processing failed, so Drip's retry is accepted.
+   */
+  async release(delivery: WebhookDelivery): Promise<void> {
+    for (const { key } of this.replayKeys(delivery, 0)) {
+      await this.store.delete(key);
+    }
+  }
+
+  /**
+   * Keys identifying a delivery, with how long to keep each. The signature
+   * key can't be forged and is kept until the signature expires; the delivery
+   * ID additionally catches redeliveries that were re-signed later.
+   */
+  private replayKeys(delivery: WebhookDelivery, tolerance: number): Array<{ key: string; ttlMs: number }> {
+    const keys = [{
+      key: `sig:${[...delivery.signatures].sort().join(',')}`,
+      ttlMs: replayTtlMs(delivery, tolerance),
+    }];
+    if (delivery.deliveryId) {
+      keys.push({ key: `id:${delivery.deliveryId}`, ttlMs: this.deliveryIdTtlMs });
+    }
+    return keys;
+  }
+}
+
+/**
+ * Keep signature keys until the signature can no longer pass the timestamp check.
+ */
+function replayTtlMs(delivery: WebhookDelivery, tolerance: number): number {
+  return Math.max(1000, (delivery.timestamp + tolerance) * 1000 - Date.now());
+}
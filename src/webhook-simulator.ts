@@ -0,0 +1,382 @@
+/**
+ * Local webhook simulator for the Drip SDK.
+ *
+ * {@link WebhookSimulator} produces deliveries that look exactly like the
+ * ones Drip sends: a realistic payload for the event type, signed with your
+ * secret in the `x-drip-signature` header. It can POST them to a local URL
+ * or call a `(request: Request) => Response` handler (a Next.js route
+ * handler, `app.fetch` in Hono, ...) directly, so webhook handlers can be
+ * exercised in CI without a Drip account.
+ *
+ * Failure modes can be simulated too: stale timestamps, bad signatures and
+ * duplicate deliveries.
+ *
+ * @example
+ * ```typescript
+ * import { WebhookSimulator } from '@drip-sdk/node';
+ * import { POST } from '@/app/api/webhooks/drip/route';
+ *
+ * const simulator = new WebhookSimulator({ secret: 'whsec_test', target: POST });
+ *
+ * const { responses } = await simulator.send('charge.failed', {
+ *   data: { customerId: 'cust_123', failureReason: 'insufficient funds' },
+ * });
+ * expect(responses[0].status).toBe(200);
+ *
+ * const stale = await simulator.send('charge.succeeded', { staleBySeconds: 600 });
+ * expect(stale.responses[0].status).toBe(400);
+ * ```
+ */
+
+import type { WebhookEventType } from './index.js';
+import type { FetchLike } from './transport.js';
+import { getRandomValues } from './runtime.js';
+import {
+  signWebhookPayload,
+  type WebhookEventDataMap,
+  type WebhookEventOf,
+} from './webhooks.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A handler that takes a Web `Request` and returns a `Response`.
+ */
+export type WebhookRequestHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * Configuration for {@link WebhookSimulator}.
+ */
+export interface WebhookSimulatorOptions {
+  /**
+   * Secret(s) to sign deliveries with. Several secrets produce one `v1=`
+   * entry each, as Drip sends during secret rotation.
+   */
+  secret: string | string[];
+
+  /**
+   * Where to deliver: a URL (e.g. `http://localhost:3000/webhooks/drip`) or
+   * a handler called in-process.
+   */
+  target: string | WebhookRequestHandler;
+
+  /**
+   * `fetch` implementation used for URL targets.
+   * @default globalThis.fetch
+   */
+  fetch?: FetchLike;
+}
+
+/**
+ * Options for a single simulated delivery.
+ */
+export interface SimulateDeliveryOptions<T extends WebhookEventType> {
+  /** Fields to override in the generated payload */
+  data?: Partial<WebhookEventDataMap[T]>;
+
+  /** Event ID (random by default) */
+  eventId?: string;
+
+  /** `x-drip-delivery-id` header value (random by default) */
+  deliveryId?: string;
+
+  /**
+   * Sign with a timestamp this many seconds in the past, e.g. 600 to fall
+   * outside the default 5 minute tolerance.
+   */
+  staleBySeconds?: number;
+
+  /** Sign with a secret the receiver does not know */
+  badSignature?: boolean;
+
+  /**
+   * Send the identical delivery (same body, signature and delivery ID) this
+   * many extra times, as happens when Drip retries or a request is replayed.
+   * @default 0
+   */
+  duplicates?: number;
+}
+
+/**
+ * A signed delivery, ready to send.
+ */
+export interface SimulatedDelivery<T extends WebhookEventType = WebhookEventType> {
+  event: WebhookEventOf<T>;
+  body: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * The receiver's response to one delivery.
+ */
+export interface SimulatedResponse {
+  status: number;
+
+  /** Response body, parsed as JSON when possible */
+  body: unknown;
+}
+
+/**
+ * Result of {@link WebhookSimulator.send}.
+ */
+export interface SimulatedSendResult<T extends WebhookEventType = WebhookEventType> {
+  /** The event that was delivered */
+  event: WebhookEventOf<T>;
+
+  /** One response per delivery: the original first, then any duplicates */
+  responses: SimulatedResponse[];
+}
+
+// =============================================================================
+// Payload Builders
+// =============================================================================
+
+function randomHex(byteLength: number): string {
+  const bytes = getRandomValues(new Uint8Array(byteLength));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function randomId(prefix: string): string {
+  return `${prefix}_${randomHex(12)}`;
+}
+
+function randomTxHash(): string {
+  return `0x${randomHex(32)}`;
+}
+
+/**
+ * Realistic default payloads. Typed as a complete map so adding an event
+ * type without a builder fails to compile.
+ */
+const PAYLOAD_BUILDERS: { [T in WebhookEventType]: () => WebhookEventDataMap[T] } = {
+  'customer.balance.low': () => ({
+    customerId: randomId('cust'),
+    balanceUsdc: '0.850000',
+    thresholdUsdc: '1.000000',
+  }),
+  'usage.recorded': () => ({
+    usageEventId: randomId('usage'),
+    customerId: randomId('cust'),
+    meter: 'api_calls',
+    quantity: '1',
+    metadata: null,
+  }),
+  'charge.succeeded': () => ({
+    chargeId: randomId('chg'),
+    usageEventId: randomId('usage'),
+    customerId: randomId('cust'),
+    meter: 'api_calls',
+    quantity: '1',
+    amountUsdc: '0.001000',
+    txHash: randomTxHash(),
+    status: 'CONFIRMED',
+    failureReason: null,
+  }),
+  'charge.failed': () => ({
+    chargeId: randomId('chg'),
+    usageEventId: randomId('usage'),
+    customerId: randomId('cust'),
+    meter: 'api_calls',
+    quantity: '1',
+    amountUsdc: '0.001000',
+    txHash: null,
+    status: 'FAILED',
+    failureReason: 'Insufficient balance',
+  }),
+  'customer.deposit.confirmed': () => ({
+    customerId: randomId('cust'),
+    amountUsdc: '25.000000',
+    txHash: randomTxHash(),
+    balanceUsdc: '25.850000',
+  }),
+  'customer.withdraw.confirmed': () => ({
+    customerId: randomId('cust'),
+    amountUsdc: '10.000000',
+    txHash: randomTxHash(),
+    balanceUsdc: '15.850000',
+  }),
+  'customer.usage_cap.reached': () => ({
+    customerId: randomId('cust'),
+    meter: 'api_calls',
+    cap: '10000',
+    current: '10000',
+    period: 'DAILY',
+  }),
+  'webhook.endpoint.unhealthy': () => ({
+    webhookId: randomId('wh'),
+    url: 'https://example.com/webhooks/drip',
+    healthStatus: 'UNHEALTHY',
+    consecutiveFailures: 10,
+  }),
+  'customer.created': () => {
+    const now = new Date().toISOString();
+    return {
+      id: randomId('cust'),
+      externalCustomerId: 'user_123',
+      onchainAddress: `0x${randomHex(20)}`,
+      isInternal: false,
+      status: 'ACTIVE',
+      metadata: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+  },
+  'api_key.created': () => ({
+    apiKeyId: randomId('key'),
+    name: 'Production',
+    keyPrefix: 'sk_live_abc',
+  }),
+  'pricing_plan.updated': () => ({
+    pricingPlanId: randomId('plan'),
+    name: 'API Calls',
+    unitType: 'api_calls',
+    unitPriceUsd: '0.001',
+  }),
+  'transaction.created': () => transactionData('CREATED'),
+  'transaction.pending': () => transactionData('PENDING'),
+  'transaction.confirmed': () => transactionData('CONFIRMED'),
+  'transaction.failed': () => ({ ...transactionData('FAILED'), failureReason: 'Transaction reverted' }),
+};
+
+function transactionData(
+  status: WebhookEventDataMap['transaction.created']['status'],
+): WebhookEventDataMap['transaction.created'] {
+  return {
+    transactionId: randomId('tx'),
+    customerId: randomId('cust'),
+    amountUsdc: '1.000000',
+    txHash: status === 'CREATED' ? null : randomTxHash(),
+    status,
+    failureReason: null,
+  };
+}
+
+// =============================================================================
+// Simulator
+// =============================================================================
+
+/**
+ * Builds, signs and delivers webhook events locally.
+ */
+export class WebhookSimulator {
+  private readonly secret: string | string[];
+  private readonly target: string | WebhookRequestHandler;
+  private readonly fetchImpl: FetchLike;
+
+  constructor(options: WebhookSimulatorOptions) {
+    this.secret = options.secret;
+    this.target = options.target;
+    this.fetchImpl = options.fetch ?? ((url, init) => fetch(url, init));
+  }
+
+  /**
+   * Every event type the simulator can produce.
+   */
+  get eventTypes(): WebhookEventType[] {
+    return Object.keys(PAYLOAD_BUILDERS) as WebhookEventType[];
+  }
+
+  /**
+   * Build an event with a realistic payload.
+   *
+   * @param type - Event type
+   * @param data - Fields to override in the generated payload
+   * @param eventId - Event ID (random by default)
+   */
+  buildEvent<T extends WebhookEventType>(
+    type: T,
+    data: Partial<WebhookEventDataMap[T]> = {},
+    eventId: string = randomId('evt'),
+  ): WebhookEventOf<T> {
+    const builder = PAYLOAD_BUILDERS[type] as () => WebhookEventDataMap[T];
+    return {
+      id: eventId,
+      type,
+      createdAt: new Date().toISOString(),
+      data: { ...builder(), ...data },
+    };
+  }
+
+  /**
+   * Build and sign a delivery without sending it.
+   */
+  buildDelivery<T extends WebhookEventType>(
+    type: T,
+    options: SimulateDeliveryOptions<T> = {},
+  ): SimulatedDelivery<T> {
+    return this.sign(this.buildEvent(type, options.data, options.eventId), options);
+  }
+
+  /**
+   * Build, sign and deliver an event.
+   *
+   * @param type - Event type
+   * @param options - Payload overrides and failure modes
+   * @returns The event and the receiver's response to each delivery
+   */
+  async send<T extends WebhookEventType>(
+    type: T,
+    options: SimulateDeliveryOptions<T> = {},
+  ): Promise<SimulatedSendResult<T>> {
+    return this.sendEvent(this.buildEvent(type, options.data, options.eventId), options);
+  }
+
+  /**
+   * Sign and deliver an event you built yourself.
+   */
+  async sendEvent<T extends WebhookEventType>(
+    event: WebhookEventOf<T>,
+    options: Omit<SimulateDeliveryOptions<T>, 'data' | 'eventId'> = {},
+  ): Promise<SimulatedSendResult<T>> {
+    const delivery = this.sign(event, options);
+    const responses: SimulatedResponse[] = [];
+
+    // Sequential, so duplicates arrive after the original has been handled
+    for (let i = 0; i <= (options.duplicates ?? 0); i++) {
+      responses.push(await this.deliver(delivery));
+    }
+
+    return { event, responses };
+  }
+
+  private sign<T extends WebhookEventType>(
+    event: WebhookEventOf<T>,
+    options: Omit<SimulateDeliveryOptions<T>, 'data' | 'eventId'>,
+  ): SimulatedDelivery<T> {
+    const body = JSON.stringify(event);
+    const timestamp = Math.floor(Date.now() / 1000) - (options.staleBySeconds ?? 0);
+    const secret = options.badSignature ? randomId('whsec_invalid') : this.secret;
+
+    return {
+      event,
+      body,
+      headers: {
+        'content-type': 'application/json',
+        'user-agent': 'Drip-Webhook-Simulator',
+        'x-drip-signature': signWebhookPayload(body, secret, timestamp),
+        'x-drip-delivery-id': options.deliveryId ?? randomId('dlv'),
+        'x-drip-event-type': event.type,
+      },
+    };
+  }
+
+  private async deliver(delivery: SimulatedDelivery): Promise<SimulatedResponse> {
+    const init: RequestInit = { method: 'POST', headers: delivery.headers, body: delivery.body };
+
+    const response = typeof this.target === 'string'
+      ? await this.fetchImpl(this.target, init)
+      : await this.target(new Request('http://localhost/webhooks/drip', init));
+
+    const text = await response.text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON; keep the text
+    }
+
+    return { status: response.status, body };
+  }
+}
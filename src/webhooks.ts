@@ -0,0 +1,591 @@
+/**
+ * Typed webhook events for the Drip SDK.
+ *
+ * {@link constructWebhookEvent} verifies the `x-drip-signature` header,
+ * parses the body and returns a {@link WebhookEvent}: a union discriminated
+ * on `type`, so switching on the event type narrows `data` to the right
+ * payload shape.
+ *
+ * @example
+ * ```typescript
+ * const event = Drip.constructWebhookEvent(
+ *   req.body, // raw body (string or Buffer)
+ *   req.headers['x-drip-signature'],
+ *   process.env.DRIP_WEBHOOK_SECRET!,
+ * );
+ *
+ * switch (event.type) {
+ *   case 'charge.failed':
+ *     await notifyBilling(event.data.customerId, event.data.failureReason);
+ *     break;
+ *   case 'customer.balance.low':
+ *     await promptTopUp(event.data.customerId, event.data.balanceUsdc);
+ *     break;
+ * }
+ * ```
+ */
+
+import { hmacSha256Hex, subtle, timingSafeEqualString } from './runtime.js';
+import { DripError, WebhookSignatureError, type WebhookSignatureErrorReason } from './errors.js';
+import type { ChargeStatus, Customer, WebhookEventType } from './index.js';
+import type { WebhookDelivery, WebhookReplayGuard } from './webhook-replay.js';
+
+// =============================================================================
+// Payload Types
+// =============================================================================
+
+/**
+ * Payload of `charge.succeeded` and `charge.failed` events.
+ */
+export interface WebhookChargeData {
+  /** Charge ID */
+  chargeId: string;
+
+  /** Usage event that produced the charge */
+  usageEventId: string;
+
+  /** Customer ID */
+  customerId: string;
+
+  /** Meter (usage type) that was charged */
+  meter: string;
+
+  /** Quantity charged */
+  quantity: string;
+
+  /** Amount in USDC */
+  amountUsdc: string;
+
+  /** Transaction hash (null if never submitted) */
+  txHash: string | null;
+
+  /** Charge status at the time of the event */
+  status: ChargeStatus;
+
+  /** Failure reason (set for `charge.failed`) */
+  failureReason: string | null;
+}
+
+/**
+ * Payload of `customer.balance.low` events.
+ */
+export interface WebhookBalanceData {
+  /** Customer ID */
+  customerId: string;
+
+  /** Current balance in USDC */
+  balanceUsdc: string;
+
+  /** Configured low-balance threshold in USDC */
+  thresholdUsdc: string;
+}
+
+/**
+ * Payload of `usage.recorded` events.
+ */
+export interface WebhookUsageData {
+  /** Usage event ID */
+  usageEventId: string;
+
+  /** Customer ID */
+  customerId: string;
+
+  /** Meter (usage type) */
+  meter: string;
+
+  /** Quantity recorded */
+  quantity: string;
+
+  /** Custom metadata attached to the usage event */
+  metadata: Record<string, unknown> | null;
+}
+
+/**
+ * Payload of `customer.deposit.confirmed` and `customer.withdraw.confirmed` events.
+ */
+export interface WebhookBalanceTransferData {
+  /** Customer ID */
+  customerId: string;
+
+  /** Amount deposited or withdrawn in USDC */
+  amountUsdc: string;
+
+  /** Transaction hash */
+  txHash: string;
+
+  /** Balance after the transfer in USDC */
+  balanceUsdc: string;
+}
+
+/**
+ * Payload of `customer.usage_cap.reached` events.
+ */
+export interface WebhookUsageCapData {
+  /** Customer ID */
+  customerId: string;
+
+  /** Meter the cap applies to (null for a spend cap across all meters) */
+  meter: string | null;
+
+  /** Configured cap */
+  cap: string;
+
+  /** Usage in the current period */
+  current: string;
+
+  /** Cap period */
+  period: 'DAILY' | 'MONTHLY';
+}
+
+/**
+ * Payload of `webhook.endpoint.unhealthy` events.
+ */
+export interface WebhookEndpointHealthData {
+  /** Webhook ID */
+  webhookId: string;
+
+  /** Webhook endpoint URL */
+  url: string;
+
+  /** Health status */
+  healthStatus: 'HEALTHY' | 'DEGRADED' | 'UNHEALTHY';
+
+  /** Number of consecutive delivery failures */
+  consecutiveFailures: number;
+}
+
+/**
+ * Payload of `api_key.created` events.
+ */
+export interface WebhookApiKeyData {
+  /** API key ID */
+  apiKeyId: string;
+
+  /** Key name */
+  name: string;
+
+  /** Visible key prefix (e.g. `sk_live_abc`) */
+  keyPrefix: string;
+}
+
+/**
+ * Payload of `pricing_plan.updated` events.
+ */
+export interface WebhookPricingPlanData {
+  /** Pricing plan ID */
+  pricingPlanId: string;
+
+  /** Plan name */
+  name: string;
+
+  /** Meter (usage type) the plan prices */
+  unitType: string;
+
+  /** Price per unit in USD */
+  unitPriceUsd: string;
+}
+
+/**
+ * Payload of `transaction.*` events.
+ */
+export interface WebhookTransactionData {
+  /** Transaction ID */
+  transactionId: string;
+
+  /** Customer ID (null for business-level transactions) */
+  customerId: string | null;
+
+  /** Amount in USDC */
+  amountUsdc: string;
+
+  /** Transaction hash (null until submitted) */
+  txHash: string | null;
+
+  /** Transaction status at the time of the event */
+  status: 'CREATED' | 'PENDING' | 'CONFIRMED' | 'FAILED';
+
+  /** Failure reason (set for `transaction.failed`) */
+  failureReason: string | null;
+}
+
+/**
+ * Maps each webhook event type to its `data` payload.
+ */
+export interface WebhookEventDataMap {
+  'customer.balance.low': WebhookBalanceData;
+  'usage.recorded': WebhookUsageData;
+  'charge.succeeded': WebhookChargeData;
+  'charge.failed': WebhookChargeData;
+  'customer.deposit.confirmed': WebhookBalanceTransferData;
+  'customer.withdraw.confirmed': WebhookBalanceTransferData;
+  'customer.usage_cap.reached': WebhookUsageCapData;
+  'webhook.endpoint.unhealthy': WebhookEndpointHealthData;
+  'customer.created': Customer;
+  'api_key.created': WebhookApiKeyData;
+  'pricing_plan.updated': WebhookPricingPlanData;
+  'transaction.created': WebhookTransactionData;
+  'transaction.pending': WebhookTransactionData;
+  'transaction.confirmed': WebhookTransactionData;
+  'transaction.failed': WebhookTransactionData;
+}
+
+// =============================================================================
+// Event Types
+// =============================================================================
+
+/**
+ * A webhook event of a specific type.
+ */
+export interface WebhookEventOf<T extends WebhookEventType> {
+  /** Unique event ID (stable across delivery retries) */
+  id: string;
+
+  /** Event type */
+  type: T;
+
+  /** ISO timestamp of when the event occurred */
+  createdAt: string;
+
+  /** Event payload */
+  data: WebhookEventDataMap[T];
+}
+
+/**
+ * Any webhook event. Switch on `type` to narrow `data`.
+ */
+export type WebhookEvent = { [T in WebhookEventType]: WebhookEventOf<T> }[WebhookEventType];
+
+/**
+ * Parsed `x-drip-signature` header.
+ */
+export interface WebhookSignatureHeader {
+  /** Unix timestamp (seconds) the delivery was signed at */
+  timestamp: number;
+
+  /**
+   * Hex-encoded `v1` signatures. There is more than one while the endpoint's
+   * secret is being rotated (one per active secret).
+   */
+  signatures: string[];
+}
+
+/**
+ * Outcome of checking a webhook signature against one or more secrets.
+ */
+export interface WebhookVerificationResult {
+  /** Whether any `v1` signature matched any secret */
+  valid: boolean;
+
+  /**
+   * Index (into the secrets you passed) of the secret that matched, or null.
+   * A match on anything other than your newest secret means Drip is still
+   * signing with an old one.
+   */
+  matchedSecretIndex: number | null;
+
+  /** Timestamp the delivery was signed at (null if the header could not be parsed) */
+  timestamp: number | null;
+
+  /** Why verification failed (undefined when valid) */
+  reason?: WebhookSignatureErrorReason;
+}
+
+/**
+ * Options for webhook signature verification.
+ */
+export interface WebhookVerifyOptions {
+  /**
+   * Maximum age of the signature, in seconds.
+   * @default 300
+   */
+  tolerance?: number;
+
+  /**
+   * Reject deliveries that were already accepted (reason `replayed`): the
+   * same signature within the tolerance window, or the same `deliveryId`
+   * within the guard's `deliveryIdTtlMs`. Only signatures that verify are
+   * recorded.
+   */
+  replayGuard?: WebhookReplayGuard;
+
+  /**
+   * The `x-drip-delivery-id` header value. Recorded by the replay guard
+   * alongside the signature.
+   */
+  deliveryId?: string | string[] | null;
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+const SIGNATURE_ERROR_MESSAGES: Record<WebhookSignatureErrorReason, string> = {
+  missing_signature: 'Missing x-drip-signature header',
+  invalid_format: 'Signature header must be in the format t=timestamp,v1=signature',
+  timestamp_expired: 'Signature timestamp is outside the tolerance window',
+  signature_mismatch: 'Signature does not match the payload',
+  replayed: 'Delivery was already received',
+};
+
+/**
+ * Parse a `t=timestamp,v1=hexsignature[,v1=hexsignature...]` header.
+ *
+ * @throws {WebhookSignatureError} If the header is missing or malformed
+ */
+export function parseWebhookSignatureHeader(
+  header: string | string[] | undefined | null,
+): WebhookSignatureHeader {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) {
+    throw new WebhookSignatureError('missing_signature', SIGNATURE_ERROR_MESSAGES.missing_signature);
+  }
+
+  const parts = value.split(',').map((p) => p.trim());
+  const timestampPart = parts.find((p) => p.startsWith('t='));
+  const signatures = parts.filter((p) => p.startsWith('v1=')).map((p) => p.slice(3).toLowerCase());
+
+  if (!timestampPart || signatures.length === 0) {
+    throw new WebhookSignatureError('invalid_format', SIGNATURE_ERROR_MESSAGES.invalid_format);
+  }
+
+  const timestamp = Number(timestampPart.slice(2));
+
+  if (!Number.isInteger(timestamp) || signatures.some((sig) => !/^[0-9a-f]+$/.test(sig))) {
+    throw new WebhookSignatureError('invalid_format', SIGNATURE_ERROR_MESSAGES.invalid_format);
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Parse the header and enforce the timestamp tolerance.
+ */
+function readSignatureHeader(
+  header: string | string[] | undefined | null,
+  tolerance: number,
+): WebhookSignatureHeader {
+  const parsed = parseWebhookSignatureHeader(header);
+
+  const now = Math.floor(Date.now() / 1000);
+  if (Math.abs(now - parsed.timestamp) > tolerance) {
+    throw new WebhookSignatureError('timestamp_expired', SIGNATURE_ERROR_MESSAGES.timestamp_expired);
+  }
+
+  return parsed;
+}
+
+/**
+ * Find the first secret whose expected signature matches any provided signature.
+ */
+function findMatchingSecret(expected: string[], provided: string[]): number | null {
+  for (let i = 0; i < expected.length; i++) {
+    // Compare against every provided signature so timing doesn't reveal which one matched
+    let matched = false;
+    for (const signature of provided) {
+      matched = timingSafeEqualString(signature, expected[i]!) || matched;
+    }
+    if (matched) {
+      return i;
+    }
+  }
+  return null;
+}
+
+function toSecretList(secret: string | string[]): string[] {
+  return (Array.isArray(secret) ? secret : [secret]).filter(Boolean);
+}
+
+function toPayloadString(payload: string | Uint8Array): string {
+  return typeof payload === 'string' ? payload : new TextDecoder().decode(payload);
+}
+
+/**
+ * Accept either a tolerance in seconds (the original signature) or an options object.
+ */
+export function toVerifyOptions(options: number | WebhookVerifyOptions | undefined): WebhookVerifyOptions {
+  return typeof options === 'number' ? { tolerance: options } : options ?? {};
+}
+
+function toDelivery(parsed: WebhookSignatureHeader, options: WebhookVerifyOptions): WebhookDelivery {
+  const deliveryId = Array.isArray(options.deliveryId) ? options.deliveryId[0] : options.deliveryId;
+  return { ...parsed, deliveryId: deliveryId ?? undefined };
+}
+
+function replayedResult(
+  parsed: WebhookSignatureHeader,
+  result: WebhookVerificationResult,
+): WebhookVerificationResult {
+  return { ...result, valid: false, timestamp: parsed.timestamp, reason: 'replayed' };
+}
+
+function failedVerification(error: unknown): WebhookVerificationResult {
+  if (error instanceof WebhookSignatureError) {
+    return { valid: false, matchedSecretIndex: null, timestamp: null, reason: error.reason };
+  }
+  throw error;
+}
+
+function toVerificationResult(
+  parsed: WebhookSignatureHeader,
+  matchedSecretIndex: number | null,
+): WebhookVerificationResult {
+  if (matchedSecretIndex === null) {
+    return {
+      valid: false,
+      matchedSecretIndex: null,
+      timestamp: parsed.timestamp,
+      reason: 'signature_mismatch',
+    };
+  }
+  return { valid: true, matchedSecretIndex, timestamp: parsed.timestamp };
+}
+
+/**
+ * Check a webhook signature against one or more secrets, synchronously.
+ *
+ * @param payload - The raw request body
+ * @param header - The `x-drip-signature` header value
+ * @param secret - Secret or secrets to try, newest first
+ * @param options - Tolerance and replay protection. A replay guard must use a
+ *   synchronous store (e.g. `MemoryWebhookReplayStore`).
+ */
+export function checkWebhookSignatureSync(
+  payload: string | Uint8Array,
+  header: string | string[] | undefined | null,
+  secret: string | string[],
+  options: WebhookVerifyOptions = {},
+): WebhookVerificationResult {
+  const tolerance = options.tolerance ?? 300;
+  let parsed: WebhookSignatureHeader;
+  try {
+    parsed = readSignatureHeader(header, tolerance);
+  } catch (error) {
+    return failedVerification(error);
+  }
+
+  const signedPayload = `${parsed.timestamp}.${toPayloadString(payload)}`;
+  const expected = toSecretList(secret).map((candidate) => hmacSha256Hex(candidate, signedPayload));
+
+  const result = toVerificationResult(parsed, findMatchingSecret(expected, parsed.signatures));
+  if (result.valid && options.replayGuard && !options.replayGuard.claimSync(toDelivery(parsed, options), tolerance)) {
+    return replayedResult(parsed, result);
+  }
+  return result;
+}
+
+/**
+ * Check a webhook signature against one or more secrets using the Web Crypto API.
+ *
+ * @param payload - The raw request body
+ * @param header - The `x-drip-signature` header value
+ * @param secret - Secret or secrets to try, newest first
+ * @param options - Tolerance and replay protection
+ */
+export async function checkWebhookSignature(
+  payload: string | Uint8Array,
+  header: string | string[] | undefined | null,
+  secret: string | string[],
+  options: WebhookVerifyOptions = {},
+): Promise<WebhookVerificationResult> {
+  const tolerance = options.tolerance ?? 300;
+  let parsed: WebhookSignatureHeader;
+  try {
+    parsed = readSignatureHeader(header, tolerance);
+  } catch (error) {
+    return failedVerification(error);
+  }
+
+  const encoder = new TextEncoder();
+  const signedPayload = encoder.encode(`${parsed.timestamp}.${toPayloadString(payload)}`);
+  const expected = await Promise.all(
+    toSecretList(secret).map(async (candidate) => {
+      const key = await subtle.importKey(
+        'raw',
+        encoder.encode(candidate),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign'],
+      );
+      const signature = await subtle.sign('HMAC', key, signedPayload);
+      return Array.from(new Uint8Array(signature))
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+    }),
+  );
+
+  const result = toVerificationResult(parsed, findMatchingSecret(expected, parsed.signatures));
+  if (result.valid && options.replayGuard && !(await options.replayGuard.claim(toDelivery(parsed, options), tolerance))) {
+    return replayedResult(parsed, result);
+  }
+  return result;
+}
+
+/**
+ * Build an `x-drip-signature` header value, with one `v1` entry per secret.
+ *
+ * @param payload - The webhook payload (JSON string)
+ * @param secret - Secret or secrets to sign with
+ * @param timestamp - Unix timestamp in seconds (defaults to now)
+ */
+export function signWebhookPayload(
+  payload: string,
+  secret: string | string[],
+  timestamp?: number,
+): string {
+  const ts = timestamp ?? Math.floor(Date.now() / 1000);
+  const signatures = toSecretList(secret).map(
+    (candidate) => `v1=${hmacSha256Hex(candidate, `${ts}.${payload}`)}`,
+  );
+
+  return [`t=${ts}`, ...signatures].join(',');
+}
+
+/**
+ * Verify a webhook delivery and parse it into a typed event.
+ *
+ * @param rawBody - The raw request body, exactly as received
+ * @param signatureHeader - The `x-drip-signature` header value
+ * @param secret - Your webhook secret, or every active secret while rotating
+ * @param options - Maximum signature age in seconds (default 300), or verify options.
+ *   A replay guard must use a synchronous store.
+ * @returns The parsed event
+ * @throws {WebhookSignatureError} If the signature is missing, malformed, expired, wrong or replayed
+ * @throws {DripError} With code `INVALID_WEBHOOK_PAYLOAD` if the verified body is not a webhook event
+ */
+export function constructWebhookEvent(
+  rawBody: string | Uint8Array,
+  signatureHeader: string | string[] | undefined | null,
+  secret: string | string[],
+  options: number | WebhookVerifyOptions = 300,
+): WebhookEvent {
+  if (toSecretList(secret).length === 0) {
+    throw new DripError('A webhook secret is required to verify deliveries', 0, 'WEBHOOK_SECRET_MISSING');
+  }
+
+  const payload = toPayloadString(rawBody);
+  const verification = checkWebhookSignatureSync(payload, signatureHeader, secret, toVerifyOptions(options));
+
+  if (!verification.valid) {
+    const reason = verification.reason ?? 'signature_mismatch';
+    throw new WebhookSignatureError(reason, SIGNATURE_ERROR_MESSAGES[reason]);
+  }
+
+  let event: unknown;
+  try {
+    event = JSON.parse(payload);
+  } catch (error) {
+    throw new DripError('Webhook body is not valid JSON', 400, 'INVALID_WEBHOOK_PAYLOAD', { cause: error });
+  }
+
+  if (
+    typeof event !== 'object' ||
+    event === null ||
+    typeof (event as { type?: unknown }).type !== 'string' ||
+    typeof (event as { data?: unknown }).data !== 'object' ||
+    (event as { data?: unknown }).data === null
+  ) {
+    throw new DripError('Webhook body is missing `type` or `data`', 400, 'INVALID_WEBHOOK_PAYLOAD');
+  }
+
+  return event as WebhookEvent;
+}
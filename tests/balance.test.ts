@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { checkBalance } from '../src/middleware/core.js';
+import { withDrip } from '../src/middleware/next.js';
+import { billingApi } from './helpers.js';
+
+function nextRequest(): Request {
+  return new Request('http://localhost/api/generate', {
+    method: 'POST',
+    headers: { 'x-drip-customer-id': 'cust_1' },
+  });
+}
+
+describe('requireBalance', () => {
+  it('reuses the cached balance less what was charged', async () => {
+    const { drip, requests } = billingApi('0.002000');
+    const handler = vi.fn(async () => Response.json({ ok: true }));
+    const route = withDrip({ drip, meter: 'api_calls', quantity: 1, requireBalance: true }, handler);
+
+    const first = await route(nextRequest());
+    const second = await route(nextRequest());
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(402);
+    expect(await second.json()).toMatchObject({
+      code: 'PAYMENT_REQUIRED',
+      details: { balance: '0.000500', required: '0.001500', shortfall: '0.001000' },
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(requests.filter((r) => r.path === '/customers/cust_1/balance')).toHaveLength(1);
+  });
+
+  it('lets a request through when the balance exactly covers it', async () => {
+    const { drip } = billingApi('0.001500');
+
+    const response = await withDrip({ drip, meter: 'api_calls', quantity: 1, requireBalance: true }, async () => Response.json({}))(nextRequest());
+
+    expect(response.status).toBe(200);
+  });
+
+  it('checks against minimumUsdc instead of the request price', async () => {
+    const { drip } = billingApi('0.500000');
+    const handler = vi.fn(async () => Response.json({}));
+
+    const response = await withDrip({
+      drip,
+      meter: 'api_calls',
+      quantity: 1,
+      requireBalance: { minimumUsdc: '1.00' },
+    }, handler)(nextRequest());
+
+    expect(response.status).toBe(402);
+    expect(await response.json()).toMatchObject({ details: { balance: '0.500000', required: '1.00', shortfall: '0.500000' } });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('checkBalance', () => {
+  it('fetches the balance again once the cache entry expires', async () => {
+    vi.useFakeTimers();
+    try {
+      const { drip, requests } = billingApi('5.000000');
+
+      await checkBalance(drip, 'cust_1', '1', 1000);
+      await checkBalance(drip, 'cust_1', '1', 1000);
+      vi.advanceTimersByTime(1000);
+      const result = await checkBalance(drip, 'cust_1', '6', 1000);
+
+      expect(requests.filter((r) => r.path === '/customers/cust_1/balance')).toHaveLength(2);
+      expect(result).toEqual({ sufficient: false, balance: '5.000000', required: '6', shortfall: '1.000000' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
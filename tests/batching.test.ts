@@ -0,0 +1,134 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RequestBatcher } from '../src/index.js';
+import { chargeResponse, mockClient } from './helpers.js';
+
+describe('RequestBatcher', () => {
+  it('sends a batch once maxBatchSize items are queued', async () => {
+    const send = vi.fn(async (items: number[]) => items.map((n) => ({ ok: true as const, value: n * 2 })));
+    const batcher = new RequestBatcher(send, { maxBatchSize: 3, maxWaitMs: 10_000 });
+
+    const results = await Promise.all([batcher.add(1), batcher.add(2), batcher.add(3)]);
+
+    expect(results).toEqual([2, 4, 6]);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith([1, 2, 3]);
+  });
+
+  it('sends a partial batch after maxWaitMs', async () => {
+    const send = vi.fn(async (items: string[]) => items.map((value) => ({ ok: true as const, value })));
+    const batcher = new RequestBatcher(send, { maxBatchSize: 100, maxWaitMs: 5 });
+
+    await expect(batcher.add('a')).resolves.toBe('a');
+    expect(send).toHaveBeenCalledWith(['a']);
+  });
+
+  it('settles each caller with its own outcome', async () => {
+    const batcher = new RequestBatcher(async (items: number[]) => items.map((n) => (
+      n % 2 === 0 ? { ok: true as const, value: n } : { ok: false as const, error: new Error(`odd ${n}`) }
+    )), { maxBatchSize: 2 });
+
+    const [even, odd] = await Promise.allSettled([batcher.add(2), batcher.add(3)]);
+
+    expect(even).toEqual({ status: 'fulfilled', value: 2 });
+    expect(odd).toMatchObject({ status: 'rejected', reason: { message: 'odd 3' } });
+  });
+
+  it('rejects every caller when the whole batch fails', async () => {
+    const batcher = new RequestBatcher(async () => {
+      throw new Error('network down');
+    }, { maxBatchSize: 2 });
+
+    const outcomes = await Promise.allSettled([batcher.add(1), batcher.add(2)]);
+
+    expect(outcomes.map((o) => o.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('flushes queued items on demand', async () => {
+    const send = vi.fn(async (items: number[]) => items.map((value) => ({ ok: true as const, value })));
+    const batcher = new RequestBatcher(send, { maxBatchSize: 100, maxWaitMs: 60_000 });
+
+    const pending = batcher.add(7);
+    await batcher.flush();
+
+    await expect(pending).resolves.toBe(7);
+  });
+});
+
+describe('client batching', () => {
+  it('sends one batch request per endpoint carrying every item', async () => {
+    const { drip, requests } = mockClient(({ path, json }) => {
+      const items = json!.items as Array<Record<string, unknown>>;
+      return {
+        body: {
+          results: items.map((item) => (
+            path === '/usage/batch'
+              ? chargeResponse({ id: `chg_${item.quantity}` })
+              : { success: true, usageEventId: `ue_${item.quantity}`, quantity: item.quantity }
+          )),
+        },
+      };
+    }, { batching: { maxBatchSize: 10, maxWaitMs: 5 } });
+
+    const [first, second, usage] = await Promise.all([
+      drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1 }),
+      drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 2 }),
+      drip.trackUsage({ customerId: 'cust_1', meter: 'tokens', quantity: 3 }),
+    ]);
+
+    expect(first.charge.id).toBe('chg_1');
+    expect(second.charge.id).toBe('chg_2');
+    expect(usage.usageEventId).toBe('ue_3');
+    expect(requests.map((r) => r.path).sort()).toEqual(['/usage/batch', '/usage/internal/batch']);
+    const charges = requests.find((r) => r.path === '/usage/batch')!;
+    expect((charges.json!.items as Array<Record<string, unknown>>).map((item) => item.quantity)).toEqual([1, 2]);
+  });
+
+  it('rejects only the batched call that failed', async () => {
+    const { drip, requests } = mockClient(({ json }) => ({
+      body: {
+        results: (json!.items as Array<Record<string, unknown>>).map((item) => (
+          item.quantity === 2
+            ? { success: false, error: 'Insufficient balance', code: 'INSUFFICIENT_BALANCE', statusCode: 402 }
+            : chargeResponse()
+        )),
+      },
+    }), { batching: { maxBatchSize: 2, maxWaitMs: 1000 } });
+
+    const [ok, failed] = await Promise.allSettled([
+      drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1 }),
+      drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 2 }),
+    ]);
+
+    expect(requests).toHaveLength(1);
+    expect(ok.status).toBe('fulfilled');
+    expect(failed).toMatchObject({ status: 'rejected', reason: { statusCode: 402, code: 'INSUFFICIENT_BALANCE' } });
+  });
+
+  it('rejects items missing from the batch response', async () => {
+    const { drip } = mockClient(() => ({ body: { results: [chargeResponse()] } }), {
+      batching: { maxBatchSize: 2, maxWaitMs: 1000 },
+    });
+
+    const [ok, missing] = await Promise.allSettled([
+      drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1 }),
+      drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 2 }),
+    ]);
+
+    expect(ok.status).toBe('fulfilled');
+    expect(missing).toMatchObject({ status: 'rejected', reason: { code: 'BATCH_RESULT_MISSING' } });
+  });
+
+  it('sends held calls on flushBatches()', async () => {
+    const { drip, requests } = mockClient(() => ({ body: { results: [chargeResponse()] } }), {
+      batching: { maxBatchSize: 100, maxWaitMs: 60_000 },
+    });
+
+    const pending = drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1 });
+    expect(requests).toHaveLength(0);
+
+    await drip.flushBatches();
+    await pending;
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.path).toBe('/usage/batch');
+  });
+});
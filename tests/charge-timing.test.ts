@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { dripMiddleware } from '../src/middleware/express.js';
+import { withDrip } from '../src/middleware/next.js';
+import { billingApi, chargeRequests, errorResponse, expressExchange } from './helpers.js';
+
+function nextRequest(headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/api/generate', {
+    method: 'POST',
+    headers: { 'x-drip-customer-id': 'cust_1', ...headers },
+  });
+}
+
+describe('withDrip chargeTiming (Next.js)', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('charges before the handler by default', async () => {
+    const { drip, requests } = billingApi();
+    const handler = vi.fn(async () => {
+      expect(chargeRequests(requests)).toHaveLength(1);
+      return Response.json({ ok: true });
+    });
+
+    const response = await withDrip({ drip, meter: 'api_calls', quantity: 2 }, handler)(nextRequest());
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(chargeRequests(requests)).toMatchObject([{ customerId: 'cust_1', usageType: 'api_calls', quantity: 2 }]);
+  });
+
+  it('with "after", charges only successful responses', async () => {
+    const { drip, requests } = billingApi();
+    let status = 500;
+    const route = withDrip({ drip, meter: 'api_calls', quantity: 1, chargeTiming: 'after' }, async (_req, context) => {
+      expect(chargeRequests(requests)).toHaveLength(0);
+      expect(context.charge.charge.status).toBe('PENDING');
+      return new Response(null, { status });
+    });
+
+    await route(nextRequest());
+    expect(chargeRequests(requests)).toHaveLength(0);
+
+    status = 201;
+    await route(nextRequest());
+    expect(chargeRequests(requests)).toHaveLength(1);
+  });
+
+  it('with "reserve", answers 402 before the handler when the balance is short', async () => {
+    vi.stubEnv('DRIP_RECIPIENT_ADDRESS', '0x1111111111111111111111111111111111111111');
+    const { drip, requests } = billingApi('0.001000');
+    const handler = vi.fn(async () => Response.json({ ok: true }));
+
+    const response = await withDrip({ drip, meter: 'api_calls', quantity: 1, chargeTiming: 'reserve' }, handler)(nextRequest());
+
+    expect(response.status).toBe(402);
+    expect(handler).not.toHaveBeenCalled();
+    expect(chargeRequests(requests)).toHaveLength(0);
+  });
+
+  it('with "reserve", charges after a successful handler', async () => {
+    const { drip, requests } = billingApi();
+    const route = withDrip({ drip, meter: 'api_calls', quantity: 1, chargeTiming: 'reserve' }, async () => {
+      expect(chargeRequests(requests)).toHaveLength(0);
+      return Response.json({ ok: true });
+    });
+
+    await route(nextRequest());
+
+    expect(requests.map((r) => r.path)).toEqual(['/pricing-plans', '/customers/cust_1/balance', '/usage']);
+  });
+
+  it('still charges a response completed after shutdown began', async () => {
+    const { drip, requests } = billingApi();
+    const route = withDrip({ drip, meter: 'api_calls', quantity: 1, chargeTiming: 'after' }, async () => Response.json({}));
+
+    await drip.shutdown();
+    await route(nextRequest());
+
+    expect(chargeRequests(requests)).toHaveLength(1);
+  });
+
+  it('reports a failed charge through onError', async () => {
+    const { drip } = billingApi(undefined, () => errorResponse(400, 'VALIDATION_ERROR'));
+    const onError = vi.fn();
+
+    const response = await withDrip({ drip, meter: 'api_calls', quantity: 1, chargeTiming: 'after', onError }, async () => Response.json({}))(nextRequest());
+
+    expect(response.status).toBe(200);
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0]![0]).toMatchObject({ statusCode: 400, code: 'VALIDATION_ERROR' });
+  });
+
+  it('without onError, lists a failed charge in the shutdown report', async () => {
+    const { drip } = billingApi(undefined, () => errorResponse(400, 'VALIDATION_ERROR'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      await withDrip({ drip, meter: 'api_calls', quantity: 1, chargeTiming: 'after' }, async () => Response.json({}))(nextRequest());
+      const report = await drip.shutdown();
+
+      expect(report.errors).toMatchObject([{ code: 'DEFERRED_CHARGE_FAILED' }]);
+      expect(consoleError).not.toHaveBeenCalled();
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+});
+
+describe('dripMiddleware chargeTiming (Express)', () => {
+  it('with "after", charges once a 2xx response has been sent', async () => {
+    const { drip, requests } = billingApi();
+    const middleware = dripMiddleware({ drip, meter: 'api_calls', quantity: 1, chargeTiming: 'after' });
+
+    const failed = expressExchange();
+    await middleware(failed.req, failed.res, vi.fn());
+    failed.res.status(500).json({ error: 'boom' });
+
+    const succeeded = expressExchange();
+    const next = vi.fn();
+    await middleware(succeeded.req, succeeded.res, next);
+    expect(next).toHaveBeenCalledOnce();
+    expect(chargeRequests(requests)).toHaveLength(0);
+    succeeded.res.json({ ok: true });
+    await drip.shutdown();
+
+    expect(chargeRequests(requests)).toMatchObject([{ customerId: 'cust_1', quantity: 1 }]);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { DripChargeFailedError, DripError, DripTimeoutError } from '../src/index.js';
+import { chargeResponse, mockClient, type MockRequest } from './helpers.js';
+
+const fastPolling = { pollIntervalMs: 1, maxPollIntervalMs: 2 };
+
+/**
+ * An API whose charge `chg_1` reports each of `statuses` in turn on
+ * `/charges/chg_1/status`, then stays on the last one.
+ */
+function chargeApi(statuses: string[], failureReason: string | null = null) {
+  let polls = 0;
+  return mockClient(({ path }: MockRequest) => {
+    if (path === '/usage') {
+      return { body: chargeResponse({ status: 'PENDING' }) };
+    }
+    if (path === '/charges/chg_1/status') {
+      const status = statuses[Math.min(polls, statuses.length - 1)];
+      polls += 1;
+      return { body: { id: 'chg_1', status, txHash: null, confirmedAt: null, failureReason } };
+    }
+    if (path === '/charges/chg_1') {
+      return { body: { id: 'chg_1', status: 'CONFIRMED', txHash: '0xfeed', blockNumber: '42' } };
+    }
+    throw new Error(`Unexpected request to ${path}`);
+  });
+}
+
+describe('waitForCharge', () => {
+  it('polls until the charge is confirmed and returns the full charge', async () => {
+    const { drip, requests } = chargeApi(['PENDING', 'PENDING', 'CONFIRMED']);
+
+    const charge = await drip.waitForCharge('chg_1', fastPolling);
+
+    expect(charge).toMatchObject({ status: 'CONFIRMED', txHash: '0xfeed', blockNumber: '42' });
+    expect(requests.map((r) => r.path)).toEqual([
+      '/charges/chg_1/status',
+      '/charges/chg_1/status',
+      '/charges/chg_1/status',
+      '/charges/chg_1',
+    ]);
+  });
+
+  it('throws DripChargeFailedError with the failure reason', async () => {
+    const { drip } = chargeApi(['PENDING', 'FAILED'], 'insufficient allowance');
+
+    const error = await drip.waitForCharge('chg_1', fastPolling).catch((e: unknown) => e) as DripChargeFailedError;
+
+    expect(error).toBeInstanceOf(DripChargeFailedError);
+    expect(error).toMatchObject({ chargeId: 'chg_1', failureReason: 'insufficient allowance', code: 'CHARGE_FAILED' });
+  });
+
+  it('throws DripTimeoutError when the charge does not settle in time', async () => {
+    const { drip } = chargeApi(['PENDING']);
+
+    const error = await drip.waitForCharge('chg_1', { ...fastPolling, timeoutMs: 20 }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DripTimeoutError);
+    expect((error as DripTimeoutError).timeoutMs).toBe(20);
+  });
+
+  it('stops with ABORTED when the signal is aborted', async () => {
+    const { drip } = chargeApi(['PENDING']);
+    const controller = new AbortController();
+
+    const waiting = drip.waitForCharge('chg_1', { pollIntervalMs: 10_000, signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+    const error = await waiting.catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DripError);
+    expect((error as DripError).code).toBe('ABORTED');
+  });
+});
+
+describe('charge waitForConfirmation', () => {
+  it('returns the charge with its settled status, txHash and block', async () => {
+    const { drip } = chargeApi(['PENDING', 'CONFIRMED']);
+
+    const result = await drip.charge({
+      customerId: 'cust_1', meter: 'api_calls', quantity: 1, waitForConfirmation: fastPolling,
+    });
+
+    expect(result.charge).toMatchObject({ id: 'chg_1', status: 'CONFIRMED', txHash: '0xfeed', blockNumber: '42' });
+  });
+
+  it('does not poll without waitForConfirmation', async () => {
+    const { drip, requests } = chargeApi(['CONFIRMED']);
+
+    const result = await drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1 });
+
+    expect(result.charge.status).toBe('PENDING');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('throws for a charge that failed immediately', async () => {
+    const { drip } = mockClient(({ path }) => (
+      path === '/usage'
+        ? { body: chargeResponse({ status: 'FAILED' }) }
+        : { body: { id: 'chg_1', status: 'FAILED', txHash: null, confirmedAt: null, failureReason: 'reverted' } }
+    ));
+
+    await expect(drip.charge({
+      customerId: 'cust_1', meter: 'api_calls', quantity: 1, waitForConfirmation: true,
+    })).rejects.toBeInstanceOf(DripChargeFailedError);
+  });
+});
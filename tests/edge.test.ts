@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { dripMiddleware, withDrip, type DripContext, type HonoContext } from '../src/edge.js';
+import { billingApi, chargeRequests, errorResponse } from './helpers.js';
+
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+function edgeRequest(): Request {
+  return new Request('https://worker.test/api/generate', {
+    method: 'POST',
+    headers: { 'x-drip-customer-id': 'cust_1' },
+  });
+}
+
+/**
+ * Run `task` the way a Cloudflare Worker without `nodejs_compat` would:
+ * with no global `process`.
+ */
+async function withoutProcess<T>(task: () => Promise<T>): Promise<T> {
+  vi.stubGlobal('process', undefined);
+  try {
+    return await task();
+  } finally {
+    vi.unstubAllGlobals();
+  }
+}
+
+describe('withDrip (edge)', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('charges and passes the Drip context to the handler', async () => {
+    const { drip, requests } = billingApi();
+
+    const response = await withDrip({ drip, meter: 'api_calls', quantity: 2 }, async (_request, context) => (
+      Response.json({ customerId: context.customerId, charged: context.charge.charge.amountUsdc })
+    ))(edgeRequest());
+
+    expect(await response.json()).toEqual({ customerId: 'cust_1', charged: '0.003000' });
+    expect(chargeRequests(requests)).toMatchObject([{ quantity: 2 }]);
+  });
+
+  it('issues a payment request to the configured recipient without process.env', async () => {
+    const { drip } = billingApi(undefined, () => errorResponse(402, 'INSUFFICIENT_BALANCE', 'Insufficient balance'));
+    const handler = vi.fn(async () => Response.json({}));
+    const route = withDrip({ drip, meter: 'api_calls', quantity: 1, recipient: RECIPIENT }, handler);
+
+    const response = await withoutProcess(() => route(edgeRequest()));
+
+    expect(response.status).toBe(402);
+    expect(response.headers.get('X-Payment-Recipient')).toBe(RECIPIENT);
+    expect(await response.json()).toMatchObject({ paymentRequest: { recipient: RECIPIENT, amount: '0.001500' } });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('prefers the recipient option over DRIP_RECIPIENT_ADDRESS', async () => {
+    vi.stubEnv('DRIP_RECIPIENT_ADDRESS', '0x2222222222222222222222222222222222222222');
+    const { drip } = billingApi(undefined, () => errorResponse(402, 'INSUFFICIENT_BALANCE'));
+
+    const response = await withDrip({ drip, meter: 'api_calls', quantity: 1, recipient: RECIPIENT }, async () => Response.json({}))(edgeRequest());
+
+    expect(response.headers.get('X-Payment-Recipient')).toBe(RECIPIENT);
+  });
+
+  it('answers a declined charge with a configuration error when no recipient is set', async () => {
+    const { drip } = billingApi(undefined, () => errorResponse(402, 'INSUFFICIENT_BALANCE'));
+    const route = withDrip({ drip, meter: 'api_calls', quantity: 1 }, async () => Response.json({}));
+
+    const response = await withoutProcess(() => route(edgeRequest()));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ code: 'CONFIGURATION_ERROR' });
+  });
+
+  it('makes deferred charges through the client, even after shutdown began', async () => {
+    const { drip, requests } = billingApi();
+    const route = withDrip({ drip, meter: 'api_calls', quantity: 1, chargeTiming: 'after' }, async () => Response.json({}));
+
+    await drip.shutdown();
+    await route(edgeRequest());
+
+    expect(chargeRequests(requests)).toHaveLength(1);
+  });
+});
+
+describe('dripMiddleware (Hono)', () => {
+  function honoContext(request: Request) {
+    const variables: { drip?: DripContext } = {};
+    const c: HonoContext = {
+      req: { raw: request },
+      res: new Response(null, { status: 404 }),
+      set: (_key, value) => {
+        variables.drip = value;
+      },
+    };
+    return { c, variables };
+  }
+
+  it('sets the drip context variable and charges after a 2xx response', async () => {
+    const { drip, requests } = billingApi();
+    const middleware = dripMiddleware({ drip, meter: 'api_calls', quantity: 1, chargeTiming: 'after' });
+
+    const failed = honoContext(edgeRequest());
+    await middleware(failed.c, async () => {
+      failed.c.res = new Response(null, { status: 500 });
+    });
+    const succeeded = honoContext(edgeRequest());
+    await middleware(succeeded.c, async () => {
+      expect(succeeded.variables.drip).toMatchObject({ customerId: 'cust_1' });
+      succeeded.c.res = Response.json({ ok: true });
+    });
+
+    expect(chargeRequests(requests)).toHaveLength(1);
+  });
+
+  it('returns the 402 instead of calling the next handler', async () => {
+    const { drip } = billingApi(undefined, () => errorResponse(402, 'INSUFFICIENT_BALANCE'));
+    const next = vi.fn(async () => undefined);
+
+    const response = await dripMiddleware({ drip, meter: 'api_calls', quantity: 1, recipient: RECIPIENT })(honoContext(edgeRequest()).c, next);
+
+    expect(response).toBeInstanceOf(Response);
+    expect((response as Response).status).toBe(402);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
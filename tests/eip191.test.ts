@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  hashPersonalMessage,
+  keccak256,
+  recoverAddress,
+  recoverPersonalMessageSigner,
+} from '../src/middleware/eip191.js';
+import { TEST_ACCOUNT, publicKeyOf, signPersonalMessage } from './helpers.js';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+describe('Keccak-256', () => {
+  it.each([
+    ['', 'c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470'],
+    ['abc', '4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45'],
+    ['The quick brown fox jumps over the lazy dog', '4d741b6f1eb29cb2a9b9911c82f56fa8d73b04959d3d9d222895df6c0b28aa15'],
+  ])('hashes %j', (input, digest) => {
+    expect(hex(keccak256(new TextEncoder().encode(input)))).toBe(digest);
+  });
+
+  it('absorbs messages longer than one 136-byte block', () => {
+    const long = new TextEncoder().encode('a'.repeat(300));
+    const digest = hex(keccak256(long));
+    expect(digest).toHaveLength(64);
+    expect(digest).not.toBe(hex(keccak256(long.subarray(0, 136))));
+  });
+
+  it('derives the published address of a known key', () => {
+    // Ethereum address = last 20 bytes of keccak256(uncompressed public key)
+    const address = `0x${hex(keccak256(publicKeyOf(TEST_ACCOUNT.privateKey)).subarray(12))}`;
+    expect(address).toBe(TEST_ACCOUNT.address);
+  });
+});
+
+describe('EIP-191 signer recovery', () => {
+  it('prefixes messages the way personal_sign does', () => {
+    const prefixed = new TextEncoder().encode('\x19Ethereum Signed Message:\n5hello');
+    expect(hex(hashPersonalMessage('hello'))).toBe(hex(keccak256(prefixed)));
+  });
+
+  it('recovers the signer of a personal_sign signature', () => {
+    for (const message of ['hello', 'Drip x402 payment\namount: 0.01', '']) {
+      const signature = signPersonalMessage(TEST_ACCOUNT.privateKey, message);
+      expect(recoverPersonalMessageSigner(message, signature)).toBe(TEST_ACCOUNT.address);
+    }
+  });
+
+  it('accepts recovery IDs 0/1 as well as 27/28', () => {
+    const signature = signPersonalMessage(TEST_ACCOUNT.privateKey, 'hello');
+    const v = parseInt(signature.slice(-2), 16) - 27;
+    const raw = `${signature.slice(0, -2)}0${v}`;
+    expect(recoverAddress(hashPersonalMessage('hello'), raw)).toBe(TEST_ACCOUNT.address);
+  });
+
+  it('recovers a different address for a different message or flipped recovery ID', () => {
+    const signature = signPersonalMessage(TEST_ACCOUNT.privateKey, 'hello');
+    expect(recoverPersonalMessageSigner('hello!', signature)).not.toBe(TEST_ACCOUNT.address);
+
+    const flipped = `${signature.slice(0, -2)}${signature.endsWith('1b') ? '1c' : '1b'}`;
+    expect(recoverPersonalMessageSigner('hello', flipped)).not.toBe(TEST_ACCOUNT.address);
+  });
+
+  it('rejects malformed signatures', () => {
+    const hash = hashPersonalMessage('hello');
+    const signature = signPersonalMessage(TEST_ACCOUNT.privateKey, 'hello');
+
+    expect(recoverAddress(hash, '0x1234')).toBeNull();
+    expect(recoverAddress(hash, 'not hex')).toBeNull();
+    expect(recoverAddress(hash, `${signature.slice(0, -2)}1d`)).toBeNull();
+    expect(recoverAddress(hash, `0x${'00'.repeat(64)}1b`)).toBeNull();
+    expect(recoverAddress(hash.subarray(0, 31), signature)).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DripAuthenticationError,
+  DripError,
+  DripInsufficientBalanceError,
+  DripPermissionError,
+  DripRateLimitError,
+  DripResponseParseError,
+  DripValidationError,
+} from '../src/index.js';
+import { errorResponse, mockClient } from './helpers.js';
+
+describe('typed errors', () => {
+  it.each([
+    [400, DripValidationError],
+    [422, DripValidationError],
+    [401, DripAuthenticationError],
+    [402, DripInsufficientBalanceError],
+    [403, DripPermissionError],
+    [429, DripRateLimitError],
+  ])('maps status %i to its error class', async (status, ErrorClass) => {
+    const { drip } = mockClient(() => errorResponse(status, 'SOME_CODE', 'Nope'));
+
+    const error = await drip.getCustomer('cust_1').catch((e: unknown) => e) as DripError;
+
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toBeInstanceOf(DripError);
+    expect(error.statusCode).toBe(status);
+    expect(error.code).toBe('SOME_CODE');
+    expect(error.message).toBe('Nope');
+  });
+
+  it('falls back to DripError for other statuses and keeps the request ID', async () => {
+    const { drip } = mockClient(() => ({ status: 503, headers: { 'x-request-id': 'req_9' }, body: '<html>Bad gateway</html>' }));
+
+    const error = await drip.getCustomer('cust_1').catch((e: unknown) => e) as DripError;
+
+    expect(error.constructor).toBe(DripError);
+    expect(error.statusCode).toBe(503);
+    expect(error.message).toBe('Request failed');
+    expect(error.requestId).toBe('req_9');
+  });
+
+  it('parses validation issues', async () => {
+    const { drip } = mockClient(() => ({
+      status: 400,
+      body: { error: 'Invalid input', issues: [{ path: ['metadata', 'plan'], message: 'Required' }] },
+    }));
+
+    const error = await drip.getCustomer('cust_1').catch((e: unknown) => e) as DripValidationError;
+
+    expect(error.issues).toEqual([{ field: 'metadata.plan', message: 'Required', code: undefined }]);
+  });
+
+  it('parses insufficient balance details from the body', async () => {
+    const { drip } = mockClient(() => ({
+      status: 402,
+      body: { error: 'Insufficient balance', required: '1.50', balance: '0.25', shortfall: '1.25' },
+    }));
+
+    const error = await drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1 })
+      .catch((e: unknown) => e) as DripInsufficientBalanceError;
+
+    expect(error).toMatchObject({
+      requiredAmount: '1.50',
+      requiredAmountSource: 'body',
+      availableBalance: '0.25',
+      shortfall: '1.25',
+    });
+  });
+
+  it('reads Retry-After into DripRateLimitError', async () => {
+    const { drip } = mockClient(() => ({ status: 429, headers: { 'retry-after': '2' }, body: { error: 'Slow down' } }));
+
+    const error = await drip.getCustomer('cust_1').catch((e: unknown) => e) as DripRateLimitError;
+
+    expect(error.retryAfterMs).toBe(2000);
+  });
+
+  it('raises DripResponseParseError for unparseable success bodies', async () => {
+    const { drip } = mockClient(() => ({ status: 200, body: 'not json' }));
+
+    const error = await drip.getCustomer('cust_1').catch((e: unknown) => e) as DripResponseParseError;
+
+    expect(error).toBeInstanceOf(DripResponseParseError);
+    expect(error.code).toBe('INVALID_RESPONSE');
+    expect(error.bodySnippet).toBe('not json');
+  });
+});
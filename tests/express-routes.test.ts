@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DripMiddlewareError, dripMiddleware, type ExpressDripRoutesConfig } from '../src/express.js';
+import { billingApi, chargeRequests, expressExchange } from './helpers.js';
+
+describe('dripMiddleware routes table (Express)', () => {
+  async function send(middleware: ReturnType<typeof dripMiddleware>, method: string, path: string) {
+    const { req, res, sent } = expressExchange({ method, path });
+    const next = vi.fn();
+    await middleware(req, res, next);
+    return { req, sent, next };
+  }
+
+  function routed(config: Omit<ExpressDripRoutesConfig, 'drip'>) {
+    const api = billingApi();
+    return { ...api, middleware: dripMiddleware({ drip: api.drip, ...config }) };
+  }
+
+  it('prices each route from its entry, merged over the top-level options', async () => {
+    const { middleware, requests } = routed({
+      meter: 'api_calls',
+      quantity: 1,
+      routes: {
+        'POST /api/images': { meter: 'images', quantity: 4 },
+        'POST /api/chat/:model': { quantity: 10 },
+        '/api/*': {},
+      },
+    });
+
+    await send(middleware, 'POST', '/api/images');
+    await send(middleware, 'POST', '/api/chat/small');
+    await send(middleware, 'DELETE', '/api/documents/doc_1');
+
+    expect(chargeRequests(requests)).toMatchObject([
+      { usageType: 'images', quantity: 4 },
+      { usageType: 'api_calls', quantity: 10 },
+      { usageType: 'api_calls', quantity: 1 },
+    ]);
+  });
+
+  it('matches the method, whole path and `:name` segments, first match winning', async () => {
+    const { middleware, requests } = routed({
+      meter: 'api_calls',
+      routes: {
+        'GET /api/chat/:model': { quantity: 1 },
+        'POST /api/chat/:model': { quantity: 2 },
+        '/api/*': { quantity: 3 },
+      },
+    });
+
+    await send(middleware, 'HEAD', '/api/chat/small');
+    await send(middleware, 'POST', '/api/chat/small');
+    await send(middleware, 'POST', '/api/chat/small/history');
+    await send(middleware, 'POST', '/api/chatter');
+
+    expect(chargeRequests(requests).map((c) => c.quantity)).toEqual([1, 2, 3, 3]);
+  });
+
+  it('attaches the Drip context and calls next() for a billed route', async () => {
+    const { middleware } = routed({ routes: { 'POST /api/generate': { meter: 'api_calls', quantity: 1 } } });
+
+    const { req, next } = await send(middleware, 'POST', '/api/generate');
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(req).toMatchObject({ drip: { customerId: 'cust_1', charge: { success: true } } });
+  });
+
+  it('passes free and unmatched routes through without billing', async () => {
+    const { middleware, requests } = routed({
+      meter: 'api_calls',
+      quantity: 1,
+      routes: { 'GET /health': 'free', '/api/*': {} },
+    });
+
+    const free = await send(middleware, 'GET', '/health');
+    const unmatched = await send(middleware, 'GET', '/docs');
+
+    expect(free.next).toHaveBeenCalledOnce();
+    expect(unmatched.next).toHaveBeenCalledOnce();
+    expect(free.req).not.toHaveProperty('drip');
+    expect(chargeRequests(requests)).toHaveLength(0);
+  });
+
+  it('responds 404 to unmatched routes with unmatchedRoutes "reject"', async () => {
+    const { middleware, requests } = routed({
+      meter: 'api_calls',
+      quantity: 1,
+      routes: { '/api/*': {} },
+      unmatchedRoutes: 'reject',
+    });
+
+    const { sent, next } = await send(middleware, 'GET', '/docs');
+
+    expect(sent).toMatchObject({ status: 404, body: { code: 'ROUTE_NOT_FOUND' } });
+    expect(next).not.toHaveBeenCalled();
+    expect(chargeRequests(requests)).toHaveLength(0);
+  });
+
+  it('throws a configuration error for a route without a meter or quantity', () => {
+    const { drip } = billingApi();
+
+    expect(() => dripMiddleware({ drip, meter: 'api_calls', routes: { 'POST /api/generate': {} } }))
+      .toThrow(DripMiddlewareError);
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  dripPlugin,
+  getDripContext,
+  type FastifyDripPluginOptions,
+  type FastifyDripRouteConfig,
+  type FastifyHook,
+  type FastifyInstance,
+  type FastifyPayloadHook,
+  type FastifyReply,
+  type FastifyRequest,
+} from '../src/fastify.js';
+import { billingApi, chargeRequests, errorResponse } from './helpers.js';
+
+interface Route {
+  drip?: FastifyDripRouteConfig;
+  status?: number;
+  handler?: (request: FastifyRequest) => unknown;
+}
+
+/**
+ * A Fastify instance with the plugin registered. `inject()` runs a request
+ * through the plugin's hooks in Fastify's order: preHandler, the handler,
+ * preSerialization, onSend, then onResponse once the reply has been sent.
+ */
+async function fastifyApp(options: FastifyDripPluginOptions) {
+  const hooks: Record<string, Array<FastifyHook | FastifyPayloadHook>> = {};
+  const instance: FastifyInstance = {
+    decorateRequest: () => undefined,
+    hasRequestDecorator: () => false,
+    addHook(name: string, hook: FastifyHook | FastifyPayloadHook) {
+      (hooks[name] ??= []).push(hook);
+    },
+  };
+  await dripPlugin(instance, options);
+
+  async function inject(route: Route) {
+    const request: FastifyRequest = {
+      method: 'POST',
+      url: '/api/generate',
+      headers: { 'x-drip-customer-id': 'cust_1' },
+      query: {},
+      params: {},
+      routeOptions: { config: route.drip ? { drip: route.drip } : {} },
+    };
+    const sent: { headers: Record<string, string>; payload?: unknown } = { headers: {} };
+    const reply: FastifyReply = {
+      statusCode: 200,
+      sent: false,
+      code(statusCode) {
+        reply.statusCode = statusCode;
+        return reply;
+      },
+      headers(values) {
+        Object.assign(sent.headers, values);
+        return reply;
+      },
+      send(payload) {
+        sent.payload = payload;
+        reply.sent = true;
+        return reply;
+      },
+    };
+
+    for (const hook of hooks.preHandler ?? []) {
+      await (hook as FastifyHook)(request, reply);
+      if (reply.sent) break;
+    }
+    if (!reply.sent) {
+      let payload = await (route.handler ?? (() => ({ ok: true })))(request);
+      reply.code(route.status ?? 200);
+      for (const name of ['preSerialization', 'onSend']) {
+        for (const hook of hooks[name] ?? []) {
+          payload = await (hook as FastifyPayloadHook)(request, reply, payload);
+        }
+      }
+      reply.send(payload);
+    }
+    for (const hook of hooks.onResponse ?? []) {
+      await (hook as FastifyHook)(request, reply);
+    }
+
+    return { request, status: reply.statusCode, ...sent };
+  }
+
+  return { inject };
+}
+
+describe('dripPlugin (Fastify)', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('bills routes with config.drip before the handler and decorates the request', async () => {
+    const { drip, requests } = billingApi();
+    const app = await fastifyApp({ drip });
+
+    const unbilled = await app.inject({});
+    const billed = await app.inject({
+      drip: { meter: 'api_calls', quantity: 2 },
+      handler: () => {
+        expect(chargeRequests(requests)).toHaveLength(1);
+        return { ok: true };
+      },
+    });
+
+    expect(unbilled.status).toBe(200);
+    expect(billed.status).toBe(200);
+    expect(getDripContext(billed.request)).toMatchObject({ customerId: 'cust_1', charge: { success: true } });
+    expect(chargeRequests(requests)).toMatchObject([{ customerId: 'cust_1', usageType: 'api_calls', quantity: 2 }]);
+  });
+
+  it('replies 402 with a payment request when the charge is declined', async () => {
+    vi.stubEnv('DRIP_RECIPIENT_ADDRESS', '0x1111111111111111111111111111111111111111');
+    const { drip } = billingApi(undefined, () => errorResponse(402, 'INSUFFICIENT_BALANCE', 'Insufficient balance'));
+    const app = await fastifyApp({ drip });
+    const handler = vi.fn();
+
+    const response = await app.inject({ drip: { meter: 'api_calls', quantity: 3 }, handler });
+
+    expect(response.status).toBe(402);
+    expect(response.headers).toMatchObject({ 'X-Payment-Required': 'true', 'X-Payment-Amount': '0.004500' });
+    expect(response.payload).toMatchObject({ code: 'PAYMENT_REQUIRED', paymentRequest: { amount: '0.004500' } });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('with chargeTiming "after", charges in onResponse for 2xx replies only', async () => {
+    const { drip, requests } = billingApi();
+    const app = await fastifyApp({ drip, chargeTiming: 'after' });
+
+    await app.inject({ drip: { meter: 'api_calls', quantity: 1 }, status: 500 });
+    await app.inject({
+      drip: { meter: 'api_calls', quantity: 1 },
+      handler: () => {
+        expect(chargeRequests(requests)).toHaveLength(0);
+        return { ok: true };
+      },
+    });
+    await drip.shutdown();
+
+    expect(chargeRequests(requests)).toHaveLength(1);
+  });
+
+  it('charges the quantity read from the reply payload', async () => {
+    const { drip, requests } = billingApi();
+    const app = await fastifyApp({ drip });
+
+    await app.inject({
+      drip: { meter: 'api_calls', quantity: 1, quantityFromResponse: (payload) => (payload as { tokens: number }).tokens },
+      handler: () => ({ tokens: 64 }),
+    });
+    await drip.shutdown();
+
+    expect(chargeRequests(requests)).toMatchObject([{ quantity: 64 }]);
+  });
+
+  it('makes the deferred charge through the client even after shutdown began', async () => {
+    const { drip, requests } = billingApi();
+    const app = await fastifyApp({ drip, chargeTiming: 'after' });
+
+    await drip.shutdown();
+    await app.inject({ drip: { meter: 'api_calls', quantity: 1 } });
+    await drip.shutdown();
+
+    expect(chargeRequests(requests)).toHaveLength(1);
+  });
+
+  it('reports a failed deferred charge through onError', async () => {
+    const { drip } = billingApi(undefined, () => errorResponse(400, 'VALIDATION_ERROR'));
+    const onError = vi.fn();
+    const app = await fastifyApp({ drip, chargeTiming: 'after', onError });
+
+    const response = await app.inject({ drip: { meter: 'api_calls', quantity: 1 } });
+    await drip.shutdown();
+
+    expect(response.status).toBe(200);
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0]![0]).toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+});
@@ -0,0 +1,234 @@
+import { buildSchema, execute, parse, type ExecutionResult } from 'graphql';
+import { describe, expect, it } from 'vitest';
+import {
+  dripApolloPlugin,
+  getDripContext,
+  useDrip,
+  type ApolloRequestContext,
+  type GraphQLDripConfig,
+} from '../src/graphql.js';
+import { billingApi, chargeRequests, errorResponse } from './helpers.js';
+
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+const typeDefs = `
+  type Query {
+    search(q: String!): [Result!]!
+    status: String!
+  }
+  type Result {
+    title: String!
+    summary: String!
+  }
+`;
+
+const rootValue = {
+  search: () => [{ title: 'a', summary: 'A' }, { title: 'b', summary: 'B' }],
+  status: () => 'ok',
+};
+
+function graphqlRequest(headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/graphql', {
+    method: 'POST',
+    headers: { 'x-drip-customer-id': 'cust_1', ...headers },
+  });
+}
+
+/**
+ * Execute `source` with the envelop plugin's hooks around graphql-js
+ * `execute`, as envelop does.
+ */
+async function executeWithEnvelop(
+  config: GraphQLDripConfig,
+  source: string,
+  request: Request = graphqlRequest(),
+  plugin = useDrip(config),
+): Promise<ExecutionResult> {
+  const schema = buildSchema(typeDefs);
+  plugin.onSchemaChange({ schema });
+
+  const contextValue = { request };
+  const args = { schema, document: parse(source), rootValue, contextValue };
+  let result: ExecutionResult | undefined;
+
+  const hooks = await plugin.onExecute({
+    args,
+    setResultAndStopExecution: (stopped) => {
+      result = stopped;
+    },
+  });
+  if (result) {
+    return result;
+  }
+
+  result = await execute(args);
+  await hooks?.onExecuteDone({
+    result,
+    setResult: (replaced) => {
+      result = replaced;
+    },
+  });
+  return result;
+}
+
+describe('useDrip (envelop)', () => {
+  it('charges the operation and each resolved field from the meter maps', async () => {
+    const { drip, requests } = billingApi();
+
+    const result = await executeWithEnvelop({
+      drip,
+      meter: 'api_calls',
+      operations: { Search: 2 },
+      fields: { 'Result.summary': { meter: 'llm_tokens', quantity: 10 } },
+    }, 'query Search { search(q: "x") { title summary } }');
+
+    expect(result.errors).toBeUndefined();
+    expect(chargeRequests(requests)).toMatchObject([
+      { usageType: 'llm_tokens', quantity: 20 },
+      { usageType: 'api_calls', quantity: 2 },
+    ]);
+  });
+
+  it('does not charge operations that are not in the maps', async () => {
+    const { drip, requests } = billingApi();
+
+    await executeWithEnvelop({ drip, meter: 'api_calls', operations: { Search: 2 } }, 'query Status { status }');
+
+    expect(chargeRequests(requests)).toHaveLength(0);
+  });
+
+  it('exposes the Drip context to resolvers through getDripContext', async () => {
+    const { drip } = billingApi();
+    const seen: unknown[] = [];
+    const plugin = useDrip({ drip, meter: 'api_calls', defaultOperationCost: 1 });
+    const schema = buildSchema(typeDefs);
+    plugin.onSchemaChange({ schema });
+    const contextValue = { request: graphqlRequest() };
+    const args = {
+      schema,
+      document: parse('{ status }'),
+      rootValue: {
+        status: (_args: unknown, context: unknown) => {
+          seen.push(getDripContext(context));
+          return 'ok';
+        },
+      },
+      contextValue,
+    };
+
+    const hooks = await plugin.onExecute({ args, setResultAndStopExecution: () => undefined });
+    await hooks?.onExecuteDone({ result: await execute(args), setResult: () => undefined });
+
+    expect(seen).toMatchObject([{ customerId: 'cust_1' }]);
+  });
+
+  it('reuses the idempotency key only for the same client request ID', async () => {
+    const { drip, requests } = billingApi();
+    const config = { drip, meter: 'api_calls', defaultOperationCost: 1 };
+
+    await executeWithEnvelop(config, 'query Status { status }', graphqlRequest({ 'idempotency-key': 'req_1' }));
+    await executeWithEnvelop(config, 'query Status { status }', graphqlRequest({ 'idempotency-key': 'req_1' }));
+    await executeWithEnvelop(config, 'query Status { status }');
+    await executeWithEnvelop(config, 'query Status { status }');
+
+    const [first, retry, unkeyed, unkeyedAgain] = chargeRequests(requests).map((c) => c.idempotencyKey);
+    expect(retry).toBe(first);
+    expect(unkeyed).not.toBe(first);
+    expect(unkeyedAgain).not.toBe(unkeyed);
+  });
+
+  it('replaces the result with a PAYMENT_REQUIRED error when the charge is declined', async () => {
+    const { drip } = billingApi(undefined, () => errorResponse(402, 'INSUFFICIENT_BALANCE', 'Insufficient balance'));
+
+    const result = await executeWithEnvelop(
+      { drip, meter: 'api_calls', operations: { Search: 2 }, recipient: RECIPIENT },
+      'query Search { search(q: "x") { title } }',
+    );
+
+    expect(result.data).toBeUndefined();
+    expect(result.errors?.[0]?.extensions).toMatchObject({
+      code: 'PAYMENT_REQUIRED',
+      paymentRequest: { amount: '0.003000', recipient: RECIPIENT },
+      http: { status: 402 },
+    });
+  });
+});
+
+describe('dripApolloPlugin', () => {
+  /**
+   * Run one operation through the plugin's hooks in Apollo's order, resolving
+   * `fields` (by coordinate) in between.
+   */
+  async function runApollo(
+    config: GraphQLDripConfig,
+    operationName: string,
+    fields: string[],
+    headers: Record<string, string> = {},
+  ) {
+    const requestContext: ApolloRequestContext<object> = {
+      contextValue: {},
+      operationName,
+      request: {
+        http: {
+          method: 'POST',
+          search: '',
+          headers: new Map(Object.entries({ 'x-drip-customer-id': 'cust_1', ...headers })),
+        },
+      },
+      response: {
+        http: { headers: new Map() },
+        body: { kind: 'single', singleResult: { data: { ok: true } } },
+      },
+    };
+
+    const hooks = await dripApolloPlugin(config).requestDidStart(requestContext);
+    await hooks.didResolveOperation(requestContext);
+    const execution = await hooks.executionDidStart(requestContext);
+    for (const coordinate of fields) {
+      const [parentType, fieldName] = coordinate.split('.');
+      const info = { parentType: { name: parentType }, fieldName } as Parameters<typeof execution.willResolveField>[0]['info'];
+      execution.willResolveField({ info })(null);
+    }
+    await hooks.willSendResponse(requestContext);
+    return requestContext;
+  }
+
+  it('charges the operation and resolved fields before the response is sent', async () => {
+    const { drip, requests } = billingApi();
+
+    await runApollo(
+      { drip, meter: 'api_calls', operations: { Search: 2 }, fields: { 'Result.summary': 3 } },
+      'Search',
+      ['Query.search', 'Result.summary', 'Result.summary'],
+    );
+
+    expect(chargeRequests(requests)).toMatchObject([{ usageType: 'api_calls', quantity: 8 }]);
+  });
+
+  it('charges two identical requests without request ID headers twice', async () => {
+    const { drip, requests } = billingApi();
+    const config = { drip, meter: 'api_calls', operations: { Search: 1 } };
+
+    await runApollo(config, 'Search', []);
+    await runApollo(config, 'Search', []);
+    await runApollo(config, 'Search', [], { 'x-request-id': 'req_1' });
+    await runApollo(config, 'Search', [], { 'x-request-id': 'req_1' });
+
+    const [first, second, keyed, retry] = chargeRequests(requests).map((c) => c.idempotencyKey);
+    expect(chargeRequests(requests)).toHaveLength(4);
+    expect(second).not.toBe(first);
+    expect(retry).toBe(keyed);
+  });
+
+  it('responds 402 with the payment request when the charge is declined', async () => {
+    const { drip } = billingApi(undefined, () => errorResponse(402, 'INSUFFICIENT_BALANCE', 'Insufficient balance'));
+
+    const { response } = await runApollo({ drip, meter: 'api_calls', operations: { Search: 1 }, recipient: RECIPIENT }, 'Search', []);
+
+    expect(response.http.status).toBe(402);
+    expect(response.http.headers.get('X-Payment-Recipient')).toBe(RECIPIENT);
+    expect(response.body).toMatchObject({
+      singleResult: { errors: [{ extensions: { code: 'PAYMENT_REQUIRED', paymentRequest: { amount: '0.001500' } } }] },
+    });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Test helpers: an in-memory Drip API behind a transport, an Express
+ * request/response pair, and an EIP-191 signer for x402 payment proofs.
+ */
+
+import { Drip, type DripConfig, type DripTransportRequest, type DripTransportResponse } from '../src/index.js';
+import type { ExpressRequest, ExpressResponse } from '../src/middleware/express.js';
+import { hashPersonalMessage } from '../src/middleware/eip191.js';
+import { sha256 } from '../src/sha256.js';
+
+// ============================================================================
+// Mock API
+// ============================================================================
+
+/**
+ * A request as seen by a mock API route: the transport request with its
+ * JSON body parsed.
+ */
+export interface MockRequest extends DripTransportRequest {
+  json: Record<string, unknown> | undefined;
+}
+
+export interface MockReply {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export type MockHandler = (request: MockRequest) => MockReply | Promise<MockReply>;
+
+/**
+ * A Drip client whose transport answers from `handler`, and the requests it
+ * has sent.
+ */
+export function mockClient(handler: MockHandler, config: DripConfig = {}): { drip: Drip; requests: MockRequest[] } {
+  const requests: MockRequest[] = [];
+  const drip = new Drip({
+    apiKey: 'sk_test_123',
+    baseUrl: 'https://api.drip.test/v1',
+    transport: async (request): Promise<DripTransportResponse> => {
+      const mockRequest = { ...request, json: request.body ? JSON.parse(request.body) : undefined };
+      requests.push(mockRequest);
+      const reply = await handler(mockRequest);
+      return {
+        status: reply.status ?? 200,
+        headers: reply.headers ?? {},
+        body: reply.body === undefined ? '' : typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body),
+      };
+    },
+    ...config,
+  });
+  return { drip, requests };
+}
+
+/**
+ * Successful `POST /usage` response for a charge.
+ */
+export function chargeResponse(overrides: { id?: string; status?: string; amountUsdc?: string; isDuplicate?: boolean } = {}) {
+  return {
+    success: true,
+    usageEventId: 'ue_1',
+    isDuplicate: overrides.isDuplicate ?? false,
+    charge: {
+      id: overrides.id ?? 'chg_1',
+      amountUsdc: overrides.amountUsdc ?? '0.010000',
+      amountToken: '10000',
+      txHash: '0xabc',
+      status: overrides.status ?? 'CONFIRMED',
+    },
+  };
+}
+
+/**
+ * Error response body in the API's format.
+ */
+export function errorResponse(status: number, code: string, message = code): MockReply {
+  return { status, body: { error: message, code } };
+}
+
+/**
+ * An API pricing `api_calls` at 0.0015 USDC, where cust_1 has `available`
+ * USDC and every charge succeeds unless `usage` answers it.
+ */
+export function billingApi(available = '100.000000', usage?: MockHandler) {
+  return mockClient(async (request) => {
+    switch (request.path) {
+      case '/pricing-plans':
+        return {
+          body: { data: [{ id: 'plan_1', name: 'API calls', unitType: 'api_calls', unitPriceUsd: '0.0015', isActive: true }], count: 1 },
+        };
+      case '/customers/cust_1/balance':
+        return { body: { customerId: 'cust_1', balanceUsdc: available, availableUsdc: available, pendingChargesUsdc: '0' } };
+      case '/usage':
+        return usage
+          ? usage(request)
+          : { body: chargeResponse({ amountUsdc: (Number(request.json!.quantity) * 0.0015).toFixed(6) }) };
+      default:
+        throw new Error(`Unexpected request to ${request.path}`);
+    }
+  });
+}
+
+/**
+ * Bodies of the charges (`POST /usage`) among `requests`.
+ */
+export function chargeRequests(requests: MockRequest[]): Array<Record<string, unknown>> {
+  return requests.filter((r) => r.path === '/usage').map((r) => r.json!);
+}
+
+// ============================================================================
+// Express
+// ============================================================================
+
+/**
+ * What an {@link expressExchange} response was sent with.
+ */
+export interface SentResponse {
+  status: number;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * A request for cust_1 and a response for Express middleware. Sending the
+ * response with `json()` or `send()` emits `finish`, as Express does once the
+ * response has been written.
+ */
+export function expressExchange(options: { method?: string; path?: string; headers?: Record<string, string> } = {}) {
+  const path = options.path ?? '/api/generate';
+  const req: ExpressRequest = {
+    method: options.method ?? 'POST',
+    url: path,
+    originalUrl: path,
+    path,
+    headers: { 'x-drip-customer-id': 'cust_1', ...options.headers },
+    query: {},
+    params: {},
+  };
+
+  const sent: SentResponse = { status: 200, headers: {} };
+  const finishListeners: Array<() => void> = [];
+  const finish = (body: unknown) => {
+    sent.body = body;
+    finishListeners.forEach((listener) => listener());
+  };
+  const res: ExpressResponse = {
+    statusCode: 200,
+    status(code) {
+      res.statusCode = code;
+      sent.status = code;
+      return res;
+    },
+    set(headers) {
+      Object.assign(sent.headers, headers);
+      return res;
+    },
+    json: finish,
+    send: finish,
+    on(_event, listener) {
+      finishListeners.push(listener);
+      return res;
+    },
+  };
+
+  return { req, res, sent };
+}
+
+// ============================================================================
+// secp256k1 Signing
+// ============================================================================
+
+const P = 2n ** 256n - 2n ** 32n - 977n;
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const G = {
+  x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+};
+
+type Point = { x: bigint; y: bigint } | null;
+
+function mod(a: bigint, m: bigint): bigint {
+  const result = a % m;
+  return result >= 0n ? result : result + m;
+}
+
+function invert(a: bigint, m: bigint): bigint {
+  let [low, high] = [mod(a, m), m];
+  let [lm, hm] = [1n, 0n];
+  while (low > 1n) {
+    const ratio = high / low;
+    [lm, hm] = [hm - lm * ratio, lm];
+    [low, high] = [high - low * ratio, low];
+  }
+  return mod(lm, m);
+}
+
+function add(a: Point, b: Point): Point {
+  if (!a) return b;
+  if (!b) return a;
+  if (a.x === b.x && mod(a.y + b.y, P) === 0n) return null;
+  const slope = a.x === b.x
+    ? mod(3n * a.x * a.x * invert(2n * a.y, P), P)
+    : mod((b.y - a.y) * invert(b.x - a.x, P), P);
+  const x = mod(slope * slope - a.x - b.x, P);
+  return { x, y: mod(slope * (a.x - x) - a.y, P) };
+}
+
+function multiply(point: Point, scalar: bigint): Point {
+  let result: Point = null;
+  let addend = point;
+  for (let k = scalar; k > 0n; k >>= 1n) {
+    if (k & 1n) result = add(result, addend);
+    addend = add(addend, addend);
+  }
+  return result;
+}
+
+function toBigInt(bytes: Uint8Array): bigint {
+  return BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`);
+}
+
+function hex32(value: bigint): string {
+  return value.toString(16).padStart(64, '0');
+}
+
+/**
+ * Uncompressed public key (x || y, 64 bytes) of a private key.
+ */
+export function publicKeyOf(privateKey: string): Uint8Array {
+  const point = multiply(G, BigInt(privateKey))!;
+  return Buffer.from(hex32(point.x) + hex32(point.y), 'hex');
+}
+
+/**
+ * Sign a message with EIP-191 `personal_sign`, returning `r || s || v`.
+ * The nonce is derived from the key and hash, so signatures are stable.
+ */
+export function signPersonalMessage(privateKey: string, message: string): string {
+  const d = BigInt(privateKey);
+  const hash = hashPersonalMessage(message);
+  const z = toBigInt(hash);
+  const k = mod(toBigInt(sha256(Buffer.from(hex32(d) + Buffer.from(hash).toString('hex'), 'hex'))), N - 1n) + 1n;
+
+  const R = multiply(G, k)!;
+  const r = mod(R.x, N);
+  let s = mod(invert(k, N) * (z + r * d), N);
+  let recoveryId = Number(R.y & 1n);
+  if (s > N / 2n) {
+    s = N - s;
+    recoveryId ^= 1;
+  }
+  return `0x${hex32(r)}${hex32(s)}${(27 + recoveryId).toString(16)}`;
+}
+
+/**
+ * Hardhat's first development account, a widely published key pair.
+ */
+export const TEST_ACCOUNT = {
+  privateKey: '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+  address: '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266',
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Drip, DripAuthenticationError, DripError, createDefaultResilienceConfig } from '../src/index.js';
+import { chargeResponse, errorResponse, mockClient } from './helpers.js';
+
+describe('interceptors', () => {
+  it('lets request interceptors modify the request', async () => {
+    const { drip, requests } = mockClient(() => ({ body: chargeResponse() }), {
+      onRequest: (request) => ({
+        ...request,
+        headers: { ...request.headers, 'X-Tenant': 'acme' },
+        body: { ...(request.body as object), metadata: { tenant: 'acme' } },
+      }),
+    });
+
+    await drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1 });
+
+    expect(requests[0]!.headers['X-Tenant']).toBe('acme');
+    expect(requests[0]!.json!.metadata).toEqual({ tenant: 'acme' });
+  });
+
+  it('passes request bodies through untouched when no interceptor is registered', async () => {
+    const { drip, requests } = mockClient(() => ({ body: chargeResponse() }));
+    await drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1, idempotencyKey: 'k' });
+    expect(requests[0]!.body).toBe('{"customerId":"cust_1","usageType":"api_calls","quantity":1,"idempotencyKey":"k"}');
+  });
+
+  it('runs interceptors in order and lets response interceptors replace the result', async () => {
+    const order: string[] = [];
+    const { drip } = mockClient(() => ({ body: { id: 'cust_1' } }), {
+      onRequest: [() => { order.push('request 1'); }, () => { order.push('request 2'); }],
+      onResponse: (response) => {
+        order.push(`response ${response.status}`);
+        return { ...response, body: { id: 'cust_2' } };
+      },
+    });
+
+    const customer = await drip.getCustomer('cust_1');
+
+    expect(order).toEqual(['request 1', 'request 2', 'response 200']);
+    expect(customer.id).toBe('cust_2');
+  });
+
+  it('calls error interceptors with the typed error, and ignores their failures', async () => {
+    const onError = vi.fn(() => {
+      throw new Error('interceptor bug');
+    });
+    const { drip } = mockClient(() => errorResponse(401, 'UNAUTHORIZED', 'Invalid API key'), { onError });
+
+    await expect(drip.getCustomer('cust_1')).rejects.toBeInstanceOf(DripAuthenticationError);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+      status: 401,
+      error: expect.any(DripAuthenticationError),
+      request: expect.objectContaining({ path: '/customers/cust_1' }),
+    }));
+  });
+
+  it('turns a throwing request interceptor into a non-retryable INTERCEPTOR_ERROR', async () => {
+    const transport = vi.fn();
+    const drip = new Drip({
+      apiKey: 'sk_test_123',
+      transport,
+      resilience: { retry: { ...createDefaultResilienceConfig().retry, maxRetries: 3, baseDelayMs: 1 } },
+      onRequest: () => {
+        throw new Error('no token');
+      },
+    });
+
+    const error = await drip.getCustomer('cust_1').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DripError);
+    expect((error as DripError).code).toBe('INTERCEPTOR_ERROR');
+    expect((error as DripError).message).toBe('no token');
+    expect(transport).not.toHaveBeenCalled();
+  });
+});
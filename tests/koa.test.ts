@@ -0,0 +1,131 @@
+import { EventEmitter } from 'node:events';
+import { describe, expect, it, vi } from 'vitest';
+import { dripMiddleware, getDripContext, type KoaContext } from '../src/koa.js';
+import { billingApi, chargeRequests, errorResponse } from './helpers.js';
+
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+/**
+ * A Koa context for `POST /api/generate`. `finish()` emits the response's
+ * `finish` event, as Node does once Koa has written the body.
+ */
+function koaContext(headers: Record<string, string> = { 'x-drip-customer-id': 'cust_1' }) {
+  const res = new EventEmitter();
+  const sentHeaders: Record<string, string> = {};
+  const ctx: KoaContext = {
+    method: 'POST',
+    url: '/api/generate',
+    path: '/api/generate',
+    headers,
+    query: {},
+    request: { method: 'POST' },
+    state: {},
+    status: 404,
+    body: undefined,
+    set(fields) {
+      Object.assign(sentHeaders, fields);
+    },
+    res,
+  };
+  return { ctx, sentHeaders, finish: () => res.emit('finish') };
+}
+
+describe('dripMiddleware (Koa)', () => {
+  it('charges before calling next() and puts the context on ctx.state.drip', async () => {
+    const { drip, requests } = billingApi();
+    const { ctx } = koaContext();
+    const next = vi.fn(async () => {
+      expect(chargeRequests(requests)).toHaveLength(1);
+      ctx.status = 200;
+    });
+
+    await dripMiddleware({ drip, meter: 'api_calls', quantity: 2 })(ctx, next);
+
+    expect(next).toHaveBeenCalledOnce();
+    expect(getDripContext(ctx)).toMatchObject({ customerId: 'cust_1', charge: { success: true } });
+    expect(chargeRequests(requests)).toMatchObject([{ customerId: 'cust_1', usageType: 'api_calls', quantity: 2 }]);
+  });
+
+  it('responds 402 with a payment request instead of calling next()', async () => {
+    const { drip } = billingApi(undefined, () => errorResponse(402, 'INSUFFICIENT_BALANCE', 'Insufficient balance'));
+    const { ctx, sentHeaders } = koaContext();
+    const next = vi.fn(async () => undefined);
+
+    await dripMiddleware({ drip, meter: 'api_calls', quantity: 3, recipient: RECIPIENT })(ctx, next);
+
+    expect(ctx.status).toBe(402);
+    expect(sentHeaders).toMatchObject({ 'X-Payment-Required': 'true', 'X-Payment-Amount': '0.004500' });
+    expect(ctx.body).toMatchObject({ code: 'PAYMENT_REQUIRED', paymentRequest: { amount: '0.004500' } });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('lets errorHandler take over a declined charge', async () => {
+    const { drip } = billingApi(undefined, () => errorResponse(402, 'INSUFFICIENT_BALANCE'));
+    const { ctx } = koaContext();
+    const errorHandler = vi.fn((_error, handled: KoaContext) => {
+      handled.status = 403;
+      return true;
+    });
+
+    await dripMiddleware({ drip, meter: 'api_calls', quantity: 1, recipient: RECIPIENT, errorHandler })(ctx, vi.fn());
+
+    expect(ctx.status).toBe(403);
+    expect(errorHandler.mock.calls[0]![0]).toMatchObject({ code: 'PAYMENT_REQUIRED' });
+  });
+
+  it('with chargeTiming "after", charges once a 2xx response has finished', async () => {
+    const { drip, requests } = billingApi();
+    const middleware = dripMiddleware({ drip, meter: 'api_calls', quantity: 1, chargeTiming: 'after' });
+
+    const failed = koaContext();
+    await middleware(failed.ctx, async () => {
+      failed.ctx.status = 500;
+    });
+    failed.finish();
+
+    const succeeded = koaContext();
+    await middleware(succeeded.ctx, async () => {
+      succeeded.ctx.status = 200;
+      succeeded.ctx.body = { ok: true };
+    });
+    expect(chargeRequests(requests)).toHaveLength(0);
+    succeeded.finish();
+    await drip.shutdown();
+
+    expect(chargeRequests(requests)).toMatchObject([{ customerId: 'cust_1', quantity: 1 }]);
+  });
+
+  it('charges the quantity read from ctx.body', async () => {
+    const { drip, requests } = billingApi();
+    const { ctx, finish } = koaContext();
+
+    await dripMiddleware({
+      drip,
+      meter: 'api_calls',
+      quantity: 1,
+      quantityFromResponse: (body) => (body as { tokens: number }).tokens,
+    })(ctx, async () => {
+      ctx.status = 200;
+      ctx.body = { tokens: 48 };
+    });
+    finish();
+    await drip.shutdown();
+
+    expect(chargeRequests(requests)).toMatchObject([{ quantity: 48 }]);
+  });
+
+  it('reports a failed deferred charge through onError', async () => {
+    const { drip } = billingApi(undefined, () => errorResponse(400, 'VALIDATION_ERROR'));
+    const onError = vi.fn();
+    const { ctx, finish } = koaContext();
+
+    await dripMiddleware({ drip, meter: 'api_calls', quantity: 1, chargeTiming: 'after', onError })(ctx, async () => {
+      ctx.status = 200;
+    });
+    finish();
+    await drip.shutdown();
+
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0]).toEqual([expect.objectContaining({ code: 'VALIDATION_ERROR' }), ctx]);
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { generatePaymentRequest } from '../src/middleware/core.js';
+import { MemoryPaymentNonceStore, rememberPaymentRequest, verifyPaymentProof } from '../src/middleware/x402.js';
+import type { IssuedPaymentRequest, X402PaymentProof, X402PaymentRequest } from '../src/middleware/types.js';
+import { mockClient } from './helpers.js';
+
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+function issued(nonce: string, customerId = 'cust_1'): IssuedPaymentRequest {
+  return {
+    amount: '0.010000',
+    recipient: RECIPIENT,
+    usageId: `0x${'ab'.repeat(32)}`,
+    description: 'api_calls usage charge',
+    expiresAt: Math.floor(Date.now() / 1000) + 300,
+    nonce,
+    timestamp: Math.floor(Date.now() / 1000),
+    customerId,
+  };
+}
+
+function proofFor(paymentRequest: X402PaymentRequest, overrides: Partial<X402PaymentProof> = {}): X402PaymentProof {
+  return {
+    signature: `0x${'00'.repeat(65)}`,
+    sessionKeyId: `0x${'22'.repeat(32)}`,
+    smartAccount: '0x3333333333333333333333333333333333333333',
+    timestamp: Math.floor(Date.now() / 1000),
+    amount: paymentRequest.amount,
+    recipient: paymentRequest.recipient,
+    usageId: paymentRequest.usageId,
+    nonce: paymentRequest.nonce,
+    ...overrides,
+  };
+}
+
+describe('MemoryPaymentNonceStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns a saved request until it is consumed, once', () => {
+    const store = new MemoryPaymentNonceStore();
+    store.save(issued('n1'), 60_000);
+
+    expect(store.get('n1')).toMatchObject({ nonce: 'n1', customerId: 'cust_1' });
+    expect(store.get('n1')).not.toBeNull();
+    expect(store.consume('n1')).toBe(true);
+    expect(store.consume('n1')).toBe(false);
+    expect(store.get('n1')).toBeNull();
+  });
+
+  it('forgets requests after their TTL', () => {
+    vi.useFakeTimers();
+    const store = new MemoryPaymentNonceStore();
+    store.save(issued('n1'), 1000);
+
+    vi.advanceTimersByTime(1001);
+
+    expect(store.get('n1')).toBeNull();
+  });
+
+  it('evicts the oldest requests beyond maxEntries', () => {
+    const store = new MemoryPaymentNonceStore(2);
+    store.save(issued('n1'), 60_000);
+    store.save(issued('n2'), 60_000);
+    store.save(issued('n3'), 60_000);
+
+    expect(store.size).toBe(2);
+    expect(store.get('n1')).toBeNull();
+    expect(store.get('n3')).not.toBeNull();
+  });
+});
+
+describe('verifyPaymentProof', () => {
+  const { drip } = mockClient(() => {
+    throw new Error('The verifier is stubbed, so no API call is expected');
+  });
+  const verifier = async () => ({ valid: true });
+
+  async function issue(store: MemoryPaymentNonceStore, customerId = 'cust_1'): Promise<X402PaymentRequest> {
+    const { paymentRequest } = generatePaymentRequest({ amount: '0.010000', recipient: RECIPIENT, usageId: 'op_1' });
+    await rememberPaymentRequest(store, paymentRequest, customerId);
+    return paymentRequest;
+  }
+
+  it('accepts a proof for an issued nonce without consuming it', async () => {
+    const store = new MemoryPaymentNonceStore();
+    const paymentRequest = await issue(store);
+
+    const result = await verifyPaymentProof(proofFor(paymentRequest), { customerId: 'cust_1', drip }, { store, verifier });
+
+    expect(result).toMatchObject({ valid: true, paymentRequest: { nonce: paymentRequest.nonce, customerId: 'cust_1' } });
+    expect(store.get(paymentRequest.nonce)).not.toBeNull();
+  });
+
+  it('rejects a nonce it never issued or that was consumed', async () => {
+    const store = new MemoryPaymentNonceStore();
+    const paymentRequest = await issue(store);
+    store.consume(paymentRequest.nonce);
+
+    const consumed = await verifyPaymentProof(proofFor(paymentRequest), { customerId: 'cust_1', drip }, { store, verifier });
+    const unknown = await verifyPaymentProof(
+      proofFor({ ...paymentRequest, nonce: '1700000000-deadbeef' }),
+      { customerId: 'cust_1', drip },
+      { store, verifier },
+    );
+
+    expect(consumed).toEqual({ valid: false, reason: 'Unknown or already used payment nonce' });
+    expect(unknown).toEqual({ valid: false, reason: 'Unknown or already used payment nonce' });
+  });
+
+  it.each([
+    ['issued to another customer', {}, 'cust_2', 'Payment request was issued to a different customer'],
+    ['paid to another recipient', { recipient: '0x4444444444444444444444444444444444444444' }, 'cust_1',
+      'Payment recipient does not match the payment request'],
+    ['for another usage ID', { usageId: 'op_2' }, 'cust_1', 'Payment usage ID does not match the payment request'],
+  ])('rejects a proof %s', async (_case, overrides, customerId, reason) => {
+    const store = new MemoryPaymentNonceStore();
+    const paymentRequest = await issue(store);
+
+    const result = await verifyPaymentProof(proofFor(paymentRequest, overrides), { customerId, drip }, { store, verifier });
+
+    expect(result).toEqual({ valid: false, reason });
+  });
+
+  it('rejects a proof for an expired request', async () => {
+    const store = new MemoryPaymentNonceStore();
+    const paymentRequest = issued('n1');
+    store.save({ ...paymentRequest, expiresAt: Math.floor(Date.now() / 1000) - 1 }, 60_000);
+
+    const result = await verifyPaymentProof(proofFor(paymentRequest), { customerId: 'cust_1', drip }, { store, verifier });
+
+    expect(result).toEqual({ valid: false, reason: 'Payment request has expired' });
+  });
+});
@@ -0,0 +1,112 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { DripError, DripNetworkError, FileOutboxStorage, MemoryOutboxStorage, type Drip } from '../src/index.js';
+import { isTransientFailure } from '../src/outbox.js';
+import { chargeResponse, errorResponse, mockClient, type MockReply } from './helpers.js';
+
+const clients: Drip[] = [];
+
+afterEach(() => {
+  for (const drip of clients.splice(0)) {
+    drip.outbox?.stop();
+  }
+});
+
+/**
+ * A client whose API replies with `reply()` and whose outbox only delivers on `flush()`.
+ */
+function outboxClient(reply: () => MockReply, storage = new MemoryOutboxStorage()) {
+  const client = mockClient(reply, { outbox: { storage, drainIntervalMs: 0, maxAttempts: 3 } });
+  clients.push(client.drip);
+  return client;
+}
+
+describe('isTransientFailure', () => {
+  it('treats network failures, 5xx and 429 as transient', () => {
+    expect(isTransientFailure(new DripNetworkError('down'))).toBe(true);
+    expect(isTransientFailure(new DripError('oops', 503))).toBe(true);
+    expect(isTransientFailure(new DripError('slow', 429))).toBe(true);
+    expect(isTransientFailure(new DripError('bad', 400))).toBe(false);
+    expect(isTransientFailure(new Error('bug'))).toBe(false);
+  });
+});
+
+describe('outbox', () => {
+  it('queues a charge the API could not take, and replays it with the same idempotency key', async () => {
+    let apiUp = false;
+    const { drip, requests } = outboxClient(() => (apiUp ? { body: chargeResponse() } : errorResponse(503, 'UNAVAILABLE')));
+
+    const result = await drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 2, idempotencyKey: 'chg_key' });
+
+    expect(result.queued).toBe(true);
+    expect(result.charge.status).toBe('PENDING');
+    const [entry] = await drip.outbox!.pending();
+    expect(entry).toMatchObject({ kind: 'charge', path: '/usage', idempotencyKey: 'chg_key', attempts: 1, lastStatus: 503 });
+
+    apiUp = true;
+    const flushed = await drip.outbox!.flush();
+
+    expect(flushed).toEqual({ delivered: 1, failed: 0, deadLettered: 0, remaining: 0 });
+    expect(requests.map((r) => r.json?.idempotencyKey)).toEqual(['chg_key', 'chg_key']);
+    expect(await drip.outbox!.pending()).toEqual([]);
+  });
+
+  it('throws instead of queueing when the API rejects the request', async () => {
+    const { drip } = outboxClient(() => errorResponse(400, 'VALIDATION_ERROR'));
+
+    await expect(drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1 })).rejects.toMatchObject({ statusCode: 400 });
+    expect(await drip.outbox!.pending()).toEqual([]);
+  });
+
+  it('dead-letters entries that keep failing or are rejected on replay', async () => {
+    let status = 503;
+    const { drip } = outboxClient(() => errorResponse(status, 'ERROR'));
+
+    await drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1, idempotencyKey: 'a' });
+    await drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1, idempotencyKey: 'b' });
+
+    expect(await drip.outbox!.flush()).toMatchObject({ failed: 2, deadLettered: 0, remaining: 2 });
+    expect(await drip.outbox!.flush()).toMatchObject({ failed: 0, deadLettered: 2, remaining: 0 });
+    expect((await drip.outbox!.deadLetters()).map((e) => e.idempotencyKey)).toEqual(['a', 'b']);
+
+    status = 400;
+    expect(await drip.outbox!.requeueDeadLetter('charge:a')).toBe(true);
+    expect(await drip.outbox!.flush()).toMatchObject({ deadLettered: 1 });
+
+    await drip.outbox!.discardDeadLetter('charge:a');
+    await drip.outbox!.discardDeadLetter('charge:b');
+    expect(await drip.outbox!.deadLetters()).toEqual([]);
+  });
+});
+
+describe('FileOutboxStorage', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) {
+      await rm(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it('persists entries across instances', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'drip-outbox-'));
+    const filePath = join(dir, 'nested', 'outbox.json');
+    const entry = {
+      id: 'charge:k', kind: 'charge' as const, path: '/usage', body: '{}', idempotencyKey: 'k',
+      attempts: 1, createdAt: 1, nextAttemptAt: 2,
+    };
+
+    const storage = new FileOutboxStorage(filePath);
+    expect(await storage.getAll('pending')).toEqual([]);
+    await storage.put('pending', entry);
+
+    expect(JSON.parse(await readFile(filePath, 'utf8')).pending['charge:k']).toEqual(entry);
+    expect(await new FileOutboxStorage(filePath).getAll('pending')).toEqual([entry]);
+
+    await storage.remove('pending', 'charge:k');
+    expect(await new FileOutboxStorage(filePath).getAll('pending')).toEqual([]);
+  });
+});
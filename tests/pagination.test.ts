@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { DripError } from '../src/index.js';
+import { paginateByCursor, paginateByOffset } from '../src/pagination.js';
+import { mockClient } from './helpers.js';
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+const numbers = Array.from({ length: 7 }, (_, i) => i);
+
+describe('paginateByOffset', () => {
+  it('fetches pages until a short page', async () => {
+    const offsets: number[] = [];
+    const items = await collect(paginateByOffset(async (offset, limit) => {
+      offsets.push(offset);
+      return { data: numbers.slice(offset, offset + limit) };
+    }, { pageSize: 3 }));
+
+    expect(items).toEqual(numbers);
+    expect(offsets).toEqual([0, 3, 6]);
+  });
+
+  it('starts at offset and stops at maxItems without fetching more', async () => {
+    let calls = 0;
+    const items = await collect(paginateByOffset(async (offset, limit) => {
+      calls += 1;
+      return { data: numbers.slice(offset, offset + limit) };
+    }, { pageSize: 2, offset: 1, maxItems: 3 }));
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(calls).toBe(2);
+  });
+
+  it('stops when the API ignores the offset and repeats a page', async () => {
+    let calls = 0;
+    const items = await collect(paginateByOffset(async () => {
+      calls += 1;
+      return { data: [1, 2] };
+    }, { pageSize: 2 }));
+
+    expect(items).toEqual([1, 2]);
+    expect(calls).toBe(2);
+  });
+
+  it.each([0, -1, 1.5, NaN])('rejects page size %s', async (pageSize) => {
+    const error = await collect(paginateByOffset(async () => ({ data: [] }), { pageSize })).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(DripError);
+    expect((error as DripError).code).toBe('INVALID_PAGE_SIZE');
+  });
+});
+
+describe('paginateByCursor', () => {
+  it('follows cursors until hasMore is false', async () => {
+    const cursors: Array<string | undefined> = [];
+    const items = await collect(paginateByCursor(async (cursor) => {
+      cursors.push(cursor);
+      const page = cursor === undefined ? 0 : Number(cursor);
+      return { items: [page * 10, page * 10 + 1], nextCursor: String(page + 1), hasMore: page < 2 };
+    }));
+
+    expect(items).toEqual([0, 1, 10, 11, 20, 21]);
+    expect(cursors).toEqual([undefined, '1', '2']);
+  });
+
+  it('stops when the API returns the same cursor again', async () => {
+    let calls = 0;
+    const items = await collect(paginateByCursor(async () => {
+      calls += 1;
+      return { items: [calls], nextCursor: 'same', hasMore: true };
+    }));
+
+    expect(items).toEqual([1, 2]);
+    expect(calls).toBe(2);
+  });
+});
+
+describe('client iterators', () => {
+  it('iterates customers with filters, capping pages at 100', async () => {
+    const customers = Array.from({ length: 150 }, (_, i) => ({ id: `cust_${i}` }));
+    const { drip, requests } = mockClient(({ url }) => {
+      const params = new URL(url).searchParams;
+      const offset = Number(params.get('offset') ?? 0);
+      const limit = Number(params.get('limit'));
+      return { body: { data: customers.slice(offset, offset + limit), count: customers.length } };
+    });
+
+    const ids = (await collect(drip.customers.iterate({ status: 'ACTIVE', pageSize: 500 }))).map((c) => c.id);
+
+    expect(ids).toHaveLength(150);
+    expect(requests.map((r) => r.path)).toEqual([
+      '/customers?limit=100&status=ACTIVE',
+      '/customers?limit=100&status=ACTIVE&offset=100',
+    ]);
+  });
+
+  it('iterates a run timeline by cursor', async () => {
+    const { drip, requests } = mockClient(({ url }) => {
+      const cursor = new URL(url).searchParams.get('cursor');
+      return {
+        body: cursor
+          ? { events: [{ id: 'evt_2' }], nextCursor: null, hasMore: false }
+          : { events: [{ id: 'evt_1' }], nextCursor: 'c1', hasMore: true },
+      };
+    });
+
+    const events = await collect(drip.runs.iterateTimeline('run_1', { pageSize: 1 }));
+
+    expect(events.map((e) => e.id)).toEqual(['evt_1', 'evt_2']);
+    expect(requests.map((r) => r.path)).toEqual(['/runs/run_1/timeline?limit=1', '/runs/run_1/timeline?limit=1&cursor=c1']);
+  });
+});
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { processRequest, type ProcessRequestFailure } from '../src/middleware/core.js';
+import type { GenericRequest, WithDripConfig } from '../src/middleware/types.js';
+import { billingApi, errorResponse, mockClient, type MockReply } from './helpers.js';
+
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+function apiRequest(): GenericRequest {
+  return { method: 'POST', url: '/api/generate', headers: { 'x-drip-customer-id': 'cust_1' } };
+}
+
+/** Make a request the API declines and return its 402 result. */
+async function paymentRequired(config: WithDripConfig<GenericRequest>): Promise<ProcessRequestFailure> {
+  const result = await processRequest(apiRequest(), config) as ProcessRequestFailure;
+  expect(result.error).toMatchObject({ code: 'PAYMENT_REQUIRED', statusCode: 402 });
+  return result;
+}
+
+describe('x402 payment amounts', () => {
+  beforeEach(() => {
+    vi.stubEnv('DRIP_RECIPIENT_ADDRESS', RECIPIENT);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  function declined(reply: MockReply) {
+    return billingApi(undefined, () => reply).drip;
+  }
+
+  it('prices the request from the meter, with a line item', async () => {
+    const drip = declined(errorResponse(402, 'INSUFFICIENT_BALANCE', 'Insufficient balance'));
+
+    const result = await paymentRequired({ drip, meter: 'api_calls', quantity: 3 });
+
+    expect(result.paymentRequired!.headers).toMatchObject({
+      'X-Payment-Required': 'true',
+      'X-Payment-Amount': '0.004500',
+      'X-Payment-Recipient': RECIPIENT,
+    });
+    expect(result.paymentRequired!.paymentRequest.lineItems).toEqual([
+      { meter: 'api_calls', quantity: 3, unitPriceUsd: '0.0015', amount: '0.004500' },
+    ]);
+  });
+
+  it('uses the amount in the 402 response body', async () => {
+    const drip = declined({ status: 402, body: { error: 'Insufficient balance', code: 'INSUFFICIENT_BALANCE', required: '0.250000' } });
+
+    const result = await paymentRequired({ drip, meter: 'api_calls', quantity: 3 });
+
+    expect(result.paymentRequired!.paymentRequest).toMatchObject({
+      amount: '0.250000',
+      lineItems: [{ meter: 'api_calls', quantity: 3, amount: '0.250000' }],
+    });
+  });
+
+  it('ignores amounts in the error message text', async () => {
+    const drip = declined(errorResponse(402, 'INSUFFICIENT_BALANCE', 'Insufficient balance, amount: 99.00'));
+
+    const result = await paymentRequired({ drip, meter: 'api_calls', quantity: 3 });
+
+    expect(result.paymentRequired!.paymentRequest.amount).toBe('0.004500');
+  });
+
+  it('falls back to an estimate when meter pricing is unavailable', async () => {
+    const { drip } = mockClient(({ path }) => (
+      path === '/pricing-plans' ? errorResponse(404, 'NOT_FOUND') : errorResponse(402, 'INSUFFICIENT_BALANCE')
+    ));
+
+    const result = await paymentRequired({ drip, meter: 'api_calls', quantity: 3 });
+
+    expect(result.paymentRequired!.paymentRequest.amount).toBe('0.000300');
+  });
+
+  it('looks the meter price up once per client', async () => {
+    const { drip, requests } = billingApi(undefined, () => errorResponse(402, 'INSUFFICIENT_BALANCE'));
+    const config = { drip, meter: 'api_calls', quantity: 1 };
+
+    await paymentRequired(config);
+    await paymentRequired(config);
+
+    expect(requests.filter((r) => r.path === '/pricing-plans')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DripRateLimitError,
+  RateLimiter,
+  ResilienceManager,
+  createDefaultResilienceConfig,
+  parseRateLimitHeaders,
+} from '../src/index.js';
+import { errorResponse, mockClient } from './helpers.js';
+
+const fastRetry = { ...createDefaultResilienceConfig().retry, baseDelayMs: 1, maxDelayMs: 5, jitter: 0 };
+
+describe('parseRateLimitHeaders', () => {
+  it('returns null without rate-limit headers', () => {
+    expect(parseRateLimitHeaders({ 'content-type': 'application/json' })).toBeNull();
+  });
+
+  it('reads limit, remaining, reset seconds and Retry-After', () => {
+    expect(parseRateLimitHeaders({
+      'x-ratelimit-limit': '100',
+      'x-ratelimit-remaining': '5',
+      'x-ratelimit-reset': '30',
+      'retry-after': '2',
+    })).toEqual({ limit: 100, remaining: 5, resetMs: 30000, retryAfterMs: 2000 });
+  });
+
+  it('treats large reset values as epoch timestamps', () => {
+    const inTenSeconds = Math.floor(Date.now() / 1000) + 10;
+    const info = parseRateLimitHeaders({ 'x-ratelimit-reset': String(inTenSeconds) })!;
+    expect(info.resetMs).toBeGreaterThan(8000);
+    expect(info.resetMs).toBeLessThanOrEqual(10000);
+  });
+});
+
+describe('RateLimiter.updateFromServer', () => {
+  it('halves the rate once for a burst of Retry-After responses', () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, burstSize: 100 });
+
+    limiter.updateFromServer({ limit: null, remaining: null, resetMs: null, retryAfterMs: 1000 });
+    limiter.pause(1000);
+    limiter.updateFromServer({ limit: null, remaining: null, resetMs: null, retryAfterMs: 1000 });
+
+    expect(limiter.effectiveRequestsPerSecond).toBe(50);
+  });
+
+  it('pauses until the reset when the budget is exhausted', () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, burstSize: 100 });
+
+    limiter.updateFromServer({ limit: 100, remaining: 0, resetMs: 5000, retryAfterMs: null });
+
+    expect(limiter.pausedForMs).toBeGreaterThan(4000);
+    expect(limiter.effectiveRequestsPerSecond).toBe(50);
+  });
+
+  it('does not pause for resets longer than the cap', () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, burstSize: 100 });
+
+    limiter.updateFromServer({ limit: 100, remaining: 0, resetMs: 3_600_000, retryAfterMs: null }, 60000);
+
+    expect(limiter.pausedForMs).toBe(0);
+  });
+
+  it('slows down to what fits before the reset when the budget is low', () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, burstSize: 100 });
+
+    limiter.updateFromServer({ limit: 1000, remaining: 20, resetMs: 10000, retryAfterMs: null });
+
+    expect(limiter.effectiveRequestsPerSecond).toBe(2);
+  });
+
+  it('ignores server headers when not adaptive', () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 100, burstSize: 100, adaptive: false });
+
+    limiter.updateFromServer({ limit: 100, remaining: 0, resetMs: 5000, retryAfterMs: null });
+
+    expect(limiter.pausedForMs).toBe(0);
+    expect(limiter.effectiveRequestsPerSecond).toBe(100);
+  });
+});
+
+describe('ResilienceManager', () => {
+  it('waits at least Retry-After before retrying a 429', async () => {
+    let attempts = 0;
+    const { drip, requests } = mockClient(() => {
+      attempts += 1;
+      return attempts === 1
+        ? { ...errorResponse(429, 'RATE_LIMITED'), headers: { 'retry-after': '0.2' } }
+        : { body: { id: 'cust_1' } };
+    }, { resilience: { retry: fastRetry } });
+
+    const start = Date.now();
+    const customer = await drip.getCustomer('cust_1');
+
+    expect(customer.id).toBe('cust_1');
+    expect(requests).toHaveLength(2);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+  });
+
+  it('does not retry when Retry-After exceeds maxRetryAfterMs', async () => {
+    const { drip, requests } = mockClient(
+      () => ({ ...errorResponse(429, 'RATE_LIMITED'), headers: { 'retry-after': '120' } }),
+      { resilience: { retry: { ...fastRetry, maxRetryAfterMs: 1000 } } },
+    );
+
+    const error = await drip.getCustomer('cust_1').catch((e: unknown) => e) as DripRateLimitError;
+
+    expect(error).toBeInstanceOf(DripRateLimitError);
+    expect(error.retryAfterMs).toBe(120000);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('retries server errors with backoff, then gives up', async () => {
+    const { drip, requests } = mockClient(() => errorResponse(503, 'UNAVAILABLE'), {
+      resilience: { retry: { ...fastRetry, maxRetries: 2 } },
+    });
+
+    await expect(drip.getCustomer('cust_1')).rejects.toMatchObject({ statusCode: 503 });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('tells the retried attempt its retry count', async () => {
+    const retryCounts: number[] = [];
+    const manager = new ResilienceManager({ retry: fastRetry });
+
+    await manager.execute(async (retryCount) => {
+      retryCounts.push(retryCount);
+      if (retryCount < 2) {
+        throw new DripRateLimitError('Slow down', 0);
+      }
+    });
+
+    expect(retryCounts).toEqual([0, 1, 2]);
+  });
+});
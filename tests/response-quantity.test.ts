@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+import { dripMiddleware } from '../src/middleware/express.js';
+import { withDrip, type NextDripConfig } from '../src/middleware/next.js';
+import { billingApi, chargeRequests, expressExchange } from './helpers.js';
+
+function nextRequest(): Request {
+  return new Request('http://localhost/api/generate', {
+    method: 'POST',
+    headers: { 'x-drip-customer-id': 'cust_1' },
+  });
+}
+
+describe('quantityFromResponse (Next.js)', () => {
+  it('charges the quantity read from the response, before the body ends', async () => {
+    const { drip, requests } = billingApi();
+    const config: NextDripConfig = {
+      drip,
+      meter: 'api_calls',
+      quantity: 1,
+      quantityFromResponse: async (response) => ((await response.json()) as { tokens: number }).tokens,
+    };
+
+    const response = await withDrip(config, async () => Response.json({ tokens: 42 }))(nextRequest());
+
+    expect(await response.json()).toEqual({ tokens: 42 });
+    expect(chargeRequests(requests)).toMatchObject([{ quantity: 42 }]);
+  });
+
+  it('meters a streamed body chunk by chunk', async () => {
+    const { drip, requests } = billingApi();
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const part of ['Hello', ', ', 'world']) controller.enqueue(encoder.encode(part));
+        controller.close();
+      },
+    });
+
+    const response = await withDrip({
+      drip,
+      meter: 'api_calls',
+      quantity: 1,
+      quantityFromChunk: (chunk) => chunk.byteLength,
+    }, async () => new Response(body))(nextRequest());
+
+    expect(chargeRequests(requests)).toHaveLength(0);
+    expect(await response.text()).toBe('Hello, world');
+    expect(chargeRequests(requests)).toMatchObject([{ quantity: 12 }]);
+  });
+
+  it('charges only what was delivered when the client cancels the stream', async () => {
+    const { drip, requests } = billingApi();
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(encoder.encode('chunk'));
+      },
+    });
+
+    const response = await withDrip({
+      drip,
+      meter: 'api_calls',
+      quantity: 1,
+      quantityFromChunk: () => 1,
+    }, async () => new Response(body))(nextRequest());
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.read();
+    await reader.cancel();
+
+    expect(chargeRequests(requests)).toMatchObject([{ quantity: 2 }]);
+  });
+
+  it('rejects response metering with chargeTiming "before"', async () => {
+    const { drip } = billingApi();
+    const handler = vi.fn(async () => Response.json({}));
+
+    const response = await withDrip({
+      drip,
+      meter: 'api_calls',
+      quantity: 1,
+      chargeTiming: 'before',
+      quantityFromResponse: () => 1,
+    }, handler)(nextRequest());
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ code: 'CONFIGURATION_ERROR' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
+
+describe('quantityFromResponse (Express)', () => {
+  it('charges the quantity read from the body passed to res.json()', async () => {
+    const { drip, requests } = billingApi();
+    const middleware = dripMiddleware({
+      drip,
+      meter: 'api_calls',
+      quantity: 1,
+      quantityFromResponse: (body) => (body as { tokens: number }).tokens,
+    });
+    const { req, res } = expressExchange();
+
+    await middleware(req, res, vi.fn());
+    res.json({ tokens: 17 });
+    await drip.shutdown();
+
+    expect(chargeRequests(requests)).toMatchObject([{ quantity: 17 }]);
+  });
+
+  it('skips the charge when the response has nothing to bill', async () => {
+    const { drip, requests } = billingApi();
+    const middleware = dripMiddleware({ drip, meter: 'api_calls', quantity: 1, quantityFromResponse: () => 0 });
+    const { req, res } = expressExchange();
+
+    await middleware(req, res, vi.fn());
+    res.json({});
+    await drip.shutdown();
+
+    expect(chargeRequests(requests)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { hmacSha256Hex as jsHmacSha256Hex, sha256Hex as jsSha256Hex } from '../src/sha256.js';
+import * as nodeRuntime from '../src/runtime.js';
+import * as edgeRuntime from '../src/runtime.edge.js';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const bytes = (value: string) => new Uint8Array(Buffer.from(value, 'hex'));
+const repeat = (byte: string, count: number) => bytes(byte.repeat(count));
+
+// FIPS 180-2 / NIST CAVP examples
+const SHA256_VECTORS: Array<[string, string]> = [
+  ['', 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'],
+  ['abc', 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'],
+  [
+    'abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq',
+    '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+  ],
+  [
+    'abcdefghbcdefghicdefghijdefghijkefghijklfghijklmghijklmnhijklmnoijklmnopjklmnopqklmnopqrlmnopqrsmnopqrstnopqrstu',
+    'cf5b16a778af8380036ce59e7b0492370b249b11e8f07a51afac45037afee9d1',
+  ],
+  ['a'.repeat(1_000_000), 'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0'],
+];
+
+// RFC 4231 test cases 1-4, 6 and 7 (case 5 truncates the output)
+const HMAC_VECTORS: Array<[string, Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>, string]> = [
+  ['1', repeat('0b', 20), new TextEncoder().encode('Hi There'),
+    'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7'],
+  ['2', new TextEncoder().encode('Jefe'), new TextEncoder().encode('what do ya want for nothing?'),
+    '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'],
+  ['3', repeat('aa', 20), repeat('dd', 50),
+    '773ea91e36800e46854db8ebd09181a72959098b3ef8c122d9635514ced565fe'],
+  ['4', bytes('0102030405060708090a0b0c0d0e0f10111213141516171819'), repeat('cd', 50),
+    '82558a389a443c0ea4cc819899f2083a85f0faa3e578f8077a2e3ff46729665b'],
+  ['6', repeat('aa', 131), new TextEncoder().encode('Test Using Larger Than Block-Size Key - Hash Key First'),
+    '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54'],
+  ['7', repeat('aa', 131), new TextEncoder().encode(
+    'This is a test using a larger than block-size key and a larger than block-size data. '
+    + 'The key needs to be hashed before being used by the HMAC algorithm.',
+  ), '9b09ffa71b942fcb27635fbcd5b0e944bfdc63644f0713938a7f51535c3a35e2'],
+];
+
+describe('SHA-256', () => {
+  const implementations = [
+    ['sha256.ts', jsSha256Hex],
+    ['runtime (Node)', nodeRuntime.sha256Hex],
+    ['runtime (edge)', edgeRuntime.sha256Hex],
+  ] as const;
+
+  for (const [name, sha256Hex] of implementations) {
+    it.each(SHA256_VECTORS.map(([input, digest]) => [input.length, input, digest]))(
+      `${name}: digests a %i character message`,
+      (_length, input, digest) => {
+        expect(sha256Hex(input)).toBe(digest);
+      },
+    );
+  }
+
+  it('pads messages around the 55/56 byte block boundary', () => {
+    for (const length of [55, 56, 63, 64, 65, 119, 120]) {
+      const input = 'x'.repeat(length);
+      expect(jsSha256Hex(input)).toBe(nodeRuntime.sha256Hex(input));
+    }
+  });
+
+  it('hashes strings as UTF-8', () => {
+    expect(jsSha256Hex('héllo ✓')).toBe(jsSha256Hex(new TextEncoder().encode('héllo ✓')));
+    expect(jsSha256Hex('héllo ✓')).toBe(nodeRuntime.sha256Hex('héllo ✓'));
+  });
+});
+
+describe('HMAC-SHA256', () => {
+  const implementations = [
+    ['sha256.ts', jsHmacSha256Hex],
+    ['runtime (Node)', nodeRuntime.hmacSha256Hex],
+  ] as const;
+
+  for (const [name, hmacSha256Hex] of implementations) {
+    it.each(HMAC_VECTORS)(`${name}: RFC 4231 test case %s`, (_case, key, data, mac) => {
+      expect(hmacSha256Hex(key, data)).toBe(mac);
+    });
+  }
+
+  it.each(HMAC_VECTORS)('Web Crypto agrees on RFC 4231 test case %s', async (_case, key, data, mac) => {
+    const cryptoKey = await nodeRuntime.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    expect(hex(new Uint8Array(await nodeRuntime.subtle.sign('HMAC', cryptoKey, data)))).toBe(mac);
+  });
+});
+
+describe('timingSafeEqualString', () => {
+  for (const [name, runtime] of [['Node', nodeRuntime], ['edge', edgeRuntime]] as const) {
+    it(`${name}: compares strings of equal and different lengths`, () => {
+      expect(runtime.timingSafeEqualString('abc123', 'abc123')).toBe(true);
+      expect(runtime.timingSafeEqualString('abc123', 'abc124')).toBe(false);
+      expect(runtime.timingSafeEqualString('abc', 'abcd')).toBe(false);
+      expect(runtime.timingSafeEqualString('', '')).toBe(true);
+    });
+  }
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DripError, registerShutdownHandlers } from '../src/index.js';
+import { chargeResponse, errorResponse, mockClient } from './helpers.js';
+
+describe('Drip.shutdown', () => {
+  it('waits for in-flight requests and rejects new calls', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => { release = resolve; });
+    const { drip } = mockClient(async () => {
+      await gate;
+      return { body: chargeResponse() };
+    });
+
+    const inFlight = drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1 });
+    const shutdown = drip.shutdown({ timeoutMs: 5000 });
+
+    const rejected = await drip.getCustomer('cust_1').catch((e: unknown) => e);
+    expect(rejected).toBeInstanceOf(DripError);
+    expect((rejected as DripError).code).toBe('CLIENT_SHUTDOWN');
+
+    release();
+    await expect(inFlight).resolves.toMatchObject({ success: true });
+    await expect(shutdown).resolves.toMatchObject({ completed: true, droppedRequests: 0 });
+    expect(drip.shutdown()).toBe(shutdown);
+  });
+
+  it('sends batched calls and flushes stream meters', async () => {
+    const { drip, requests } = mockClient(({ json }) => ({
+      body: { results: (json!.items as unknown[]).map(() => chargeResponse()) },
+    }), {
+      batching: { maxBatchSize: 100, maxWaitMs: 60_000 },
+    });
+
+    const batched = drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1 });
+    const meter = drip.createStreamMeter({ customerId: 'cust_1', meter: 'tokens' });
+    meter.addSync(42);
+
+    const report = await drip.shutdown();
+
+    await batched;
+    expect(report).toMatchObject({ completed: true, flushedMeters: 1, unflushedMeters: [], droppedBatchItems: 0 });
+    const items = requests.flatMap((r) => r.json!.items as Array<Record<string, unknown>>);
+    expect(items.map((item) => [item.usageType, item.quantity]).sort()).toEqual([['api_calls', 1], ['tokens', 42]]);
+  });
+
+  it('reports meters that could not be charged', async () => {
+    const { drip } = mockClient(() => errorResponse(400, 'VALIDATION_ERROR'));
+    const meter = drip.createStreamMeter({ customerId: 'cust_1', meter: 'tokens' });
+    meter.addSync(5);
+
+    const report = await drip.shutdown();
+
+    expect(report.unflushedMeters).toEqual([{ customerId: 'cust_1', meter: 'tokens', quantity: 5 }]);
+    expect(report.errors).toHaveLength(1);
+  });
+
+  it('waits for background work registered with runInBackground', async () => {
+    const { drip, requests } = mockClient(() => ({ body: chargeResponse() }));
+
+    void drip.runInBackground(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      await drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 1 });
+    });
+
+    const report = await drip.shutdown();
+
+    expect(report.completed).toBe(true);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('gives up after timeoutMs and reports what is still in flight', async () => {
+    const { drip } = mockClient(() => new Promise(() => undefined), { timeout: 60_000 });
+    void drip.getCustomer('cust_1').catch(() => undefined);
+
+    const report = await drip.shutdown({ timeoutMs: 20 });
+
+    expect(report).toMatchObject({ completed: false, droppedRequests: 1 });
+  });
+});
+
+describe('registerShutdownHandlers', () => {
+  it('shuts clients down on a signal and reports to onShutdown', async () => {
+    const report = { completed: true } as never;
+    const client = { shutdown: vi.fn(async () => report) };
+    const onShutdown = vi.fn();
+
+    const unregister = registerShutdownHandlers(client, { signals: ['SIGUSR2'], exit: false, onShutdown });
+    process.emit('SIGUSR2', 'SIGUSR2');
+    await vi.waitFor(() => expect(onShutdown).toHaveBeenCalledWith([report]));
+
+    expect(client.shutdown).toHaveBeenCalledTimes(1);
+    expect(process.listenerCount('SIGUSR2')).toBe(0);
+    unregister();
+  });
+});
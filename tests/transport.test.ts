@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DripNetworkError, DripTimeoutError, createFetchTransport } from '../src/index.js';
+import { chargeResponse, mockClient } from './helpers.js';
+
+describe('transport', () => {
+  it('sends normalized requests through the configured transport', async () => {
+    const { drip, requests } = mockClient(() => ({ body: chargeResponse() }));
+
+    const result = await drip.charge({ customerId: 'cust_1', meter: 'api_calls', quantity: 3, idempotencyKey: 'key_1' });
+
+    expect(result.charge.id).toBe('chg_1');
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request).toMatchObject({
+      method: 'POST',
+      path: '/usage',
+      url: 'https://api.drip.test/v1/usage',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer sk_test_123' },
+      json: { customerId: 'cust_1', usageType: 'api_calls', quantity: 3, idempotencyKey: 'key_1' },
+    });
+    expect(request!.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('adapts a fetch implementation with createFetchTransport', async () => {
+    const fetchImpl = vi.fn(async (_url: string, _init: RequestInit) => new Response(
+      JSON.stringify({ id: 'cust_1' }),
+      { status: 200, headers: { 'X-Request-Id': 'req_1' } },
+    ));
+    const transport = createFetchTransport(fetchImpl);
+
+    const response = await transport({
+      method: 'GET',
+      url: 'https://api.drip.test/v1/customers/cust_1',
+      path: '/customers/cust_1',
+      headers: { Authorization: 'Bearer sk_test_123' },
+      signal: new AbortController().signal,
+    });
+
+    expect(fetchImpl).toHaveBeenCalledWith('https://api.drip.test/v1/customers/cust_1', expect.objectContaining({ method: 'GET' }));
+    expect(response).toEqual({ status: 200, headers: { 'content-type': 'text/plain;charset=UTF-8', 'x-request-id': 'req_1' }, body: '{"id":"cust_1"}' });
+  });
+
+  it('returns an empty body for 204 responses', async () => {
+    const transport = createFetchTransport(async () => new Response(null, { status: 204 }));
+    const response = await transport({ method: 'DELETE', url: 'https://x', path: '/', headers: {}, signal: new AbortController().signal });
+    expect(response.body).toBe('');
+  });
+
+  it('reports a transport abort as a timeout', async () => {
+    const { drip } = mockClient(({ signal }) => new Promise((_resolve, reject) => {
+      signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    }), { timeout: 10 });
+
+    await expect(drip.getCustomer('cust_1')).rejects.toBeInstanceOf(DripTimeoutError);
+  });
+
+  it('wraps transport failures in DripNetworkError', async () => {
+    const { drip } = mockClient(() => {
+      throw new TypeError('fetch failed');
+    });
+
+    const error = await drip.getCustomer('cust_1').catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(DripNetworkError);
+    expect((error as DripNetworkError).cause).toBeInstanceOf(TypeError);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { DripTRPCError, dripMiddleware, getDripErrorData } from '../src/trpc.js';
+import { billingApi, chargeRequests, errorResponse } from './helpers.js';
+
+function trpcRequest(headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/trpc/documents', {
+    method: 'POST',
+    headers: { 'x-drip-customer-id': 'cust_1', ...headers },
+  });
+}
+
+function call(
+  middleware: ReturnType<typeof dripMiddleware>,
+  path: string,
+  req: Request = trpcRequest(),
+  ok = true,
+) {
+  return middleware({ ctx: { req }, path, type: 'mutation', next: async () => ({ ok }) });
+}
+
+describe('dripMiddleware (tRPC)', () => {
+  it('charges each procedure from the operations map after it succeeds', async () => {
+    const { drip, requests } = billingApi();
+    const middleware = dripMiddleware({
+      drip,
+      meter: 'api_calls',
+      operations: { 'documents.search': 1, 'documents.summarize': { meter: 'llm_tokens', quantity: 50 } },
+    });
+
+    await call(middleware, 'documents.search');
+    await call(middleware, 'documents.summarize');
+    await call(middleware, 'documents.list');
+    await call(middleware, 'documents.search', trpcRequest(), false);
+
+    expect(chargeRequests(requests)).toMatchObject([
+      { usageType: 'api_calls', quantity: 1 },
+      { usageType: 'llm_tokens', quantity: 50 },
+    ]);
+  });
+
+  it('bills unmapped procedures at defaultOperationCost', async () => {
+    const { drip, requests } = billingApi();
+    const middleware = dripMiddleware({ drip, meter: 'api_calls', operations: { 'documents.search': 2 }, defaultOperationCost: 1 });
+
+    await call(middleware, 'documents.list');
+
+    expect(chargeRequests(requests)).toMatchObject([{ usageType: 'api_calls', quantity: 1 }]);
+  });
+
+  it('reuses the idempotency key of a retry sent with the same request ID', async () => {
+    const { drip, requests } = billingApi();
+    const middleware = dripMiddleware({ drip, meter: 'api_calls', defaultOperationCost: 1 });
+
+    await call(middleware, 'documents.search', trpcRequest({ 'x-request-id': 'req_1' }));
+    await call(middleware, 'documents.search', trpcRequest({ 'x-request-id': 'req_1' }));
+    await call(middleware, 'documents.search', trpcRequest({ 'idempotency-key': 'req_1' }));
+    await call(middleware, 'documents.search', trpcRequest({ 'x-request-id': 'req_2' }));
+    await call(middleware, 'documents.delete', trpcRequest({ 'x-request-id': 'req_1' }));
+
+    const [first, retry, sameKey, next, other] = chargeRequests(requests).map((c) => c.idempotencyKey);
+    expect(first).toMatch(/^op_[0-9a-f]{24}$/);
+    expect(retry).toBe(first);
+    expect(sameKey).toBe(first);
+    expect(next).not.toBe(first);
+    expect(other).not.toBe(first);
+  });
+
+  it('charges two identical calls without request ID headers twice', async () => {
+    const { drip, requests } = billingApi();
+    const middleware = dripMiddleware({ drip, meter: 'api_calls', defaultOperationCost: 1 });
+
+    await call(middleware, 'documents.search');
+    await call(middleware, 'documents.search');
+
+    const [first, second] = chargeRequests(requests).map((c) => c.idempotencyKey);
+    expect(first).toMatch(/^op_[0-9a-f]{24}$/);
+    expect(second).not.toBe(first);
+  });
+
+  it('keys the procedures of one batched request apart', async () => {
+    const { drip, requests } = billingApi();
+    const middleware = dripMiddleware({ drip, meter: 'api_calls', defaultOperationCost: 1 });
+    const batch = trpcRequest();
+
+    await call(middleware, 'documents.search', batch);
+    await call(middleware, 'documents.delete', batch);
+    await call(middleware, 'documents.search', batch);
+
+    const [search, remove, searchAgain] = chargeRequests(requests).map((c) => c.idempotencyKey);
+    expect(remove).not.toBe(search);
+    expect(searchAgain).toBe(search);
+  });
+
+  it('throws PAYMENT_REQUIRED with a payment request when the charge is declined', async () => {
+    const { drip } = billingApi(undefined, () => errorResponse(402, 'INSUFFICIENT_BALANCE', 'Insufficient balance'));
+    const middleware = dripMiddleware({
+      drip,
+      meter: 'api_calls',
+      defaultOperationCost: 2,
+      recipient: '0x1111111111111111111111111111111111111111',
+    });
+
+    const error = await call(middleware, 'documents.search').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DripTRPCError);
+    expect((error as DripTRPCError).code).toBe('PAYMENT_REQUIRED');
+    expect(getDripErrorData(error)).toMatchObject({ code: 'PAYMENT_REQUIRED', paymentRequest: { amount: '0.003000' } });
+  });
+});
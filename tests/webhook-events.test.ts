@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { Drip, WebhookSignatureError } from '../src/index.js';
+
+const secret = 'whsec_current';
+const payload = JSON.stringify({ id: 'evt_1', type: 'charge.succeeded', createdAt: '2024-01-01T00:00:00Z', data: { chargeId: 'chg_1' } });
+
+describe('constructWebhookEvent', () => {
+  it('returns the typed event for a valid delivery', () => {
+    const event = Drip.constructWebhookEvent(payload, Drip.generateWebhookSignature(payload, secret), secret);
+
+    expect(event).toMatchObject({ id: 'evt_1', type: 'charge.succeeded', data: { chargeId: 'chg_1' } });
+  });
+
+  it('accepts the raw body as bytes', () => {
+    const header = Drip.generateWebhookSignature(payload, secret);
+
+    expect(Drip.constructWebhookEvent(new TextEncoder().encode(payload), header, secret).id).toBe('evt_1');
+  });
+
+  it('throws WebhookSignatureError with the failure reason', () => {
+    const header = Drip.generateWebhookSignature(payload, 'whsec_wrong');
+
+    const error = (() => {
+      try {
+        return Drip.constructWebhookEvent(payload, header, secret);
+      } catch (e) {
+        return e;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(WebhookSignatureError);
+    expect((error as WebhookSignatureError).reason).toBe('signature_mismatch');
+  });
+
+  it('requires a secret and a webhook-shaped body', () => {
+    const notAnEvent = JSON.stringify({ hello: 'world' });
+
+    expect(() => Drip.constructWebhookEvent(payload, 't=1,v1=ab', '')).toThrow(
+      expect.objectContaining({ code: 'WEBHOOK_SECRET_MISSING' }),
+    );
+    expect(() => Drip.constructWebhookEvent(notAnEvent, Drip.generateWebhookSignature(notAnEvent, secret), secret)).toThrow(
+      expect.objectContaining({ code: 'INVALID_WEBHOOK_PAYLOAD' }),
+    );
+  });
+});
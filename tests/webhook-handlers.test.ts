@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Drip, WebhookSignatureError } from '../src/index.js';
+import { dripWebhookHandler as expressWebhookHandler, type ExpressResponse } from '../src/middleware/express.js';
+import { dripWebhookHandler } from '../src/middleware/next.js';
+
+const secret = 'whsec_current';
+
+function delivery(event: { id: string; type: string; data?: Record<string, unknown> }, signingSecret = secret) {
+  const body = JSON.stringify({ createdAt: '2024-01-01T00:00:00Z', data: {}, ...event });
+  return { body, signature: Drip.generateWebhookSignature(body, signingSecret) };
+}
+
+function webhookRequest({ body, signature }: { body: string; signature: string }): Request {
+  return new Request('https://app.test/api/webhooks/drip', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-drip-signature': signature },
+    body,
+  });
+}
+
+describe('next dripWebhookHandler', () => {
+  it('dispatches a verified event to its typed handler', async () => {
+    const handled = vi.fn();
+    const handler = dripWebhookHandler({ secret, on: { 'charge.succeeded': handled } });
+
+    const response = await handler(webhookRequest(delivery({ id: 'evt_1', type: 'charge.succeeded', data: { chargeId: 'chg_1' } })));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true });
+    expect(handled).toHaveBeenCalledWith(expect.objectContaining({ id: 'evt_1', data: { chargeId: 'chg_1' } }));
+  });
+
+  it('acknowledges event types without a handler', async () => {
+    const handled = vi.fn();
+    const handler = dripWebhookHandler({ secret, on: { 'charge.succeeded': handled } });
+
+    const response = await handler(webhookRequest(delivery({ id: 'evt_2', type: 'customer.balance.low' })));
+
+    expect(response.status).toBe(200);
+    expect(handled).not.toHaveBeenCalled();
+  });
+
+  it('rejects a delivery signed with another secret with 400', async () => {
+    const handled = vi.fn();
+    const onError = vi.fn();
+    const handler = dripWebhookHandler({ secret, on: { 'charge.succeeded': handled }, onError });
+
+    const response = await handler(webhookRequest(delivery({ id: 'evt_3', type: 'charge.succeeded' }, 'whsec_wrong')));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ received: false, reason: 'signature_mismatch' });
+    expect(handled).not.toHaveBeenCalled();
+    expect(onError.mock.calls[0]![0]).toBeInstanceOf(WebhookSignatureError);
+  });
+
+  it('returns 500 when the handler throws, and processes the retry', async () => {
+    const handled = vi.fn().mockRejectedValueOnce(new Error('database down')).mockResolvedValue(undefined);
+    const handler = dripWebhookHandler({ secret, on: { 'charge.succeeded': handled } });
+    const signed = delivery({ id: 'evt_4', type: 'charge.succeeded' });
+
+    const first = await handler(webhookRequest(signed));
+    const retry = await handler(webhookRequest(signed));
+
+    expect(first.status).toBe(500);
+    expect(await first.json()).toMatchObject({ code: 'WEBHOOK_HANDLER_FAILED' });
+    expect(retry.status).toBe(200);
+    expect(handled).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('express dripWebhookHandler', () => {
+  function run(body: unknown, headers: Record<string, string>) {
+    const sent: { status?: number; body?: unknown } = {};
+    const res = {
+      status(code: number) {
+        sent.status = code;
+        return res;
+      },
+      json(payload: unknown) {
+        sent.body = payload;
+      },
+    } as ExpressResponse;
+    const req = { method: 'POST', url: '/webhooks/drip', originalUrl: '/webhooks/drip', path: '/webhooks/drip', headers, query: {}, params: {}, body };
+    return { req, res, sent };
+  }
+
+  it('verifies the raw body from express.raw()', async () => {
+    const handled = vi.fn();
+    const handler = expressWebhookHandler({ secret, on: { 'charge.succeeded': handled } });
+    const { body, signature } = delivery({ id: 'evt_5', type: 'charge.succeeded' });
+    const { req, res, sent } = run(Buffer.from(body), { 'x-drip-signature': signature });
+
+    await handler(req, res, vi.fn());
+
+    expect(sent).toEqual({ status: 200, body: { received: true } });
+    expect(handled).toHaveBeenCalledOnce();
+  });
+
+  it('refuses an already parsed JSON body', async () => {
+    const handler = expressWebhookHandler({ secret, on: {} });
+    const { body, signature } = delivery({ id: 'evt_6', type: 'charge.succeeded' });
+    const { req, res, sent } = run(JSON.parse(body), { 'x-drip-signature': signature });
+
+    await handler(req, res, vi.fn());
+
+    expect(sent.status).toBe(500);
+    expect(sent.body).toMatchObject({ code: 'CONFIGURATION_ERROR' });
+  });
+});
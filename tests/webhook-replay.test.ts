@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  Drip,
+  DripError,
+  MemoryWebhookReplayStore,
+  RedisWebhookReplayStore,
+  WebhookReplayGuard,
+  type RedisLikeClient,
+} from '../src/index.js';
+
+const secret = 'whsec_current';
+const payload = JSON.stringify({ id: 'evt_1', type: 'charge.succeeded', createdAt: '2024-01-01T00:00:00Z', data: { chargeId: 'chg_1' } });
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('WebhookReplayGuard', () => {
+  it('rejects a replayed signature', async () => {
+    const replayGuard = new WebhookReplayGuard();
+    const header = Drip.generateWebhookSignature(payload, secret);
+
+    expect(await Drip.verifyWebhookSignature(payload, header, secret, { replayGuard })).toMatchObject({ valid: true });
+    expect(await Drip.verifyWebhookSignature(payload, header, secret, { replayGuard })).toMatchObject({
+      valid: false,
+      reason: 'replayed',
+    });
+  });
+
+  it('rejects a re-signed redelivery with the same delivery ID', () => {
+    const replayGuard = new WebhookReplayGuard();
+    const first = Drip.generateWebhookSignature(payload, secret, now() - 5);
+    const redelivery = Drip.generateWebhookSignature(payload, secret);
+
+    expect(Drip.verifyWebhookSignatureSync(payload, first, secret, { replayGuard, deliveryId: 'dlv_1' }).valid).toBe(true);
+    expect(Drip.verifyWebhookSignatureSync(payload, redelivery, secret, { replayGuard, deliveryId: 'dlv_1' })).toMatchObject({
+      valid: false,
+      reason: 'replayed',
+    });
+  });
+
+  it('does not record deliveries that fail verification', () => {
+    const replayGuard = new WebhookReplayGuard();
+    const header = Drip.generateWebhookSignature(payload, secret);
+
+    expect(Drip.verifyWebhookSignatureSync(payload, header, 'whsec_wrong', { replayGuard }).valid).toBe(false);
+    expect(Drip.verifyWebhookSignatureSync(payload, header, secret, { replayGuard }).valid).toBe(true);
+  });
+
+  it('forgets delivery IDs after deliveryIdTtlMs and released deliveries', async () => {
+    vi.useFakeTimers();
+    try {
+      const replayGuard = new WebhookReplayGuard({ deliveryIdTtlMs: 1000 });
+      const delivery = { timestamp: now(), signatures: ['aa'], deliveryId: 'dlv_1' };
+      const redelivery = { ...delivery, signatures: ['bb'] };
+
+      expect(await replayGuard.claim(delivery, 300)).toBe(true);
+      expect(await replayGuard.claim(redelivery, 300)).toBe(false);
+      vi.advanceTimersByTime(1001);
+      expect(await replayGuard.claim({ ...delivery, signatures: ['cc'] }, 300)).toBe(true);
+
+      await replayGuard.release(delivery);
+      expect(await replayGuard.claim(delivery, 300)).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('refuses a synchronous claim against an asynchronous store', () => {
+    const client: RedisLikeClient = { set: async () => 'OK', del: async () => 1 };
+    const replayGuard = new WebhookReplayGuard({ store: new RedisWebhookReplayStore(client) });
+    const header = Drip.generateWebhookSignature(payload, secret);
+
+    expect(() => Drip.verifyWebhookSignatureSync(payload, header, secret, { replayGuard })).toThrow(DripError);
+  });
+});
+
+describe('MemoryWebhookReplayStore', () => {
+  it('evicts the oldest keys beyond maxEntries', () => {
+    const store = new MemoryWebhookReplayStore(2);
+
+    expect(store.add('a', 60_000)).toBe(true);
+    expect(store.add('b', 60_000)).toBe(true);
+    expect(store.add('c', 60_000)).toBe(true);
+
+    expect(store.size).toBe(2);
+    expect(store.add('a', 60_000)).toBe(true);
+    expect(store.add('c', 60_000)).toBe(false);
+  });
+});
+
+describe('RedisWebhookReplayStore', () => {
+  it('records keys with SET NX PX under the prefix', async () => {
+    const keys = new Set<string>();
+    const calls: unknown[][] = [];
+    const client: RedisLikeClient = {
+      set: async (key, ...args) => {
+        calls.push([key, ...args]);
+        if (keys.has(key)) return null;
+        keys.add(key);
+        return 'OK';
+      },
+      del: async (key) => keys.delete(key),
+    };
+    const store = new RedisWebhookReplayStore(client, { keyPrefix: 'test:' });
+
+    expect(await store.add('sig:aa', 1500.5)).toBe(true);
+    expect(await store.add('sig:aa', 1500)).toBe(false);
+    await store.delete('sig:aa');
+    expect(await store.add('sig:aa', 1500)).toBe(true);
+    expect(calls[0]).toEqual(['test:sig:aa', '1', 'PX', 1501, 'NX']);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Drip } from '../src/index.js';
+import { parseWebhookSignatureHeader } from '../src/webhooks.js';
+
+const secret = 'whsec_current';
+const oldSecret = 'whsec_previous';
+const payload = JSON.stringify({ id: 'evt_1', type: 'charge.succeeded', createdAt: '2024-01-01T00:00:00Z', data: { chargeId: 'chg_1' } });
+const now = () => Math.floor(Date.now() / 1000);
+
+describe('webhook signatures', () => {
+  it('matches a known HMAC-SHA256 signature', () => {
+    // HMAC-SHA256(key "whsec_test", "1700000000.{}")
+    expect(Drip.generateWebhookSignature('{}', 'whsec_test', 1700000000)).toBe(
+      't=1700000000,v1=35495024f4ef3f94e5a93e22221544c4b75e9a42300cd965ab81cb85cd994e91',
+    );
+  });
+
+  it('verifies synchronously and with Web Crypto', async () => {
+    const header = Drip.generateWebhookSignature(payload, secret);
+
+    expect(Drip.verifyWebhookSignatureSync(payload, header, secret)).toBe(true);
+    expect(await Drip.verifyWebhookSignature(payload, header, secret)).toBe(true);
+    expect(Drip.verifyWebhookSignatureSync(payload, header, 'whsec_wrong')).toBe(false);
+    expect(await Drip.verifyWebhookSignature(`${payload} `, header, secret)).toBe(false);
+  });
+
+  it('rejects signatures outside the tolerance window', async () => {
+    const header = Drip.generateWebhookSignature(payload, secret, now() - 600);
+
+    expect(Drip.verifyWebhookSignatureSync(payload, header, secret)).toBe(false);
+    expect(Drip.verifyWebhookSignatureSync(payload, header, secret, 900)).toBe(true);
+    expect(await Drip.verifyWebhookSignature(payload, header, [secret])).toMatchObject({
+      valid: false,
+      reason: 'timestamp_expired',
+    });
+  });
+
+  it('accepts any active secret while rotating and reports which one matched', async () => {
+    const signedWithOld = Drip.generateWebhookSignature(payload, oldSecret);
+    const signedWithBoth = Drip.generateWebhookSignature(payload, [secret, oldSecret]);
+
+    expect(parseWebhookSignatureHeader(signedWithBoth).signatures).toHaveLength(2);
+    expect(Drip.verifyWebhookSignatureSync(payload, signedWithOld, [secret, oldSecret])).toMatchObject({
+      valid: true,
+      matchedSecretIndex: 1,
+    });
+    expect(await Drip.verifyWebhookSignature(payload, signedWithBoth, [secret, oldSecret])).toMatchObject({
+      valid: true,
+      matchedSecretIndex: 0,
+    });
+    expect(Drip.verifyWebhookSignatureSync(payload, signedWithOld, [secret])).toMatchObject({
+      valid: false,
+      matchedSecretIndex: null,
+      reason: 'signature_mismatch',
+    });
+  });
+
+  it.each([
+    ['', 'missing_signature'],
+    ['v1=abc', 'invalid_format'],
+    ['t=now,v1=abc', 'invalid_format'],
+    [`t=${Math.floor(Date.now() / 1000)},v1=not-hex`, 'invalid_format'],
+  ])('reports %j as %s', (header, reason) => {
+    expect(Drip.verifyWebhookSignatureSync(payload, header, [secret])).toMatchObject({ valid: false, reason });
+  });
+});
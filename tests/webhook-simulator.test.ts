@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Drip, WebhookSignatureError, WebhookSimulator } from '../src/index.js';
+import { dripWebhookHandler } from '../src/middleware/next.js';
+
+const secret = 'whsec_current';
+const oldSecret = 'whsec_previous';
+
+describe('webhook handler with WebhookSimulator', () => {
+  function setup(onCharge: () => void | Promise<void> = () => undefined) {
+    const handled = vi.fn(onCharge);
+    const onError = vi.fn();
+    const handler = dripWebhookHandler({
+      secret: [secret, oldSecret],
+      on: { 'charge.succeeded': handled },
+      onError,
+    });
+    return { handled, onError, simulator: new WebhookSimulator({ secret, target: handler }) };
+  }
+
+  it('dispatches a verified event to its handler', async () => {
+    const { handled, simulator } = setup();
+
+    const { event, responses } = await simulator.send('charge.succeeded', { data: { chargeId: 'chg_42' } });
+
+    expect(responses).toEqual([{ status: 200, body: { received: true } }]);
+    expect(handled).toHaveBeenCalledWith(expect.objectContaining({ id: event.id, data: expect.objectContaining({ chargeId: 'chg_42' }) }));
+  });
+
+  it('acknowledges duplicates without running the handler again', async () => {
+    const { handled, simulator } = setup();
+
+    const { responses } = await simulator.send('charge.succeeded', { duplicates: 2 });
+
+    expect(responses.map((r) => r.body)).toEqual([
+      { received: true },
+      { received: true, duplicate: true },
+      { received: true, duplicate: true },
+    ]);
+    expect(handled).toHaveBeenCalledTimes(1);
+  });
+
+  it('acknowledges event types without a handler', async () => {
+    const { handled, simulator } = setup();
+
+    const { responses } = await simulator.send('customer.balance.low');
+
+    expect(responses[0]!.status).toBe(200);
+    expect(handled).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [{ badSignature: true }, 'signature_mismatch'],
+    [{ staleBySeconds: 600 }, 'timestamp_expired'],
+  ])('rejects %j with 400 %s', async (options, reason) => {
+    const { handled, onError, simulator } = setup();
+
+    const { responses } = await simulator.send('charge.succeeded', options);
+
+    expect(responses[0]).toMatchObject({ status: 400, body: { received: false, reason } });
+    expect(handled).not.toHaveBeenCalled();
+    expect(onError.mock.calls[0]![0]).toBeInstanceOf(WebhookSignatureError);
+  });
+
+  it('returns 500 when the handler throws, and accepts the retry', async () => {
+    let fail = true;
+    const { handled, simulator } = setup(() => {
+      if (fail) throw new Error('database down');
+    });
+    const delivery = { eventId: 'evt_retry', deliveryId: 'dlv_retry' };
+
+    const first = await simulator.send('charge.succeeded', delivery);
+    fail = false;
+    const retry = await simulator.send('charge.succeeded', delivery);
+
+    expect(first.responses[0]).toMatchObject({ status: 500, body: { code: 'WEBHOOK_HANDLER_FAILED' } });
+    expect(retry.responses[0]).toEqual({ status: 200, body: { received: true } });
+    expect(handled).toHaveBeenCalledTimes(2);
+  });
+
+  it('builds a payload for every event type', () => {
+    const simulator = new WebhookSimulator({ secret, target: 'http://localhost' });
+
+    for (const type of simulator.eventTypes) {
+      const delivery = simulator.buildDelivery(type);
+      expect(Drip.constructWebhookEvent(delivery.body, delivery.headers['x-drip-signature'], secret).type).toBe(type);
+      expect(delivery.headers['x-drip-event-type']).toBe(type);
+    }
+  });
+});
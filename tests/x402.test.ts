@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { processRequest, type ProcessRequestFailure } from '../src/middleware/core.js';
+import { MemoryPaymentNonceStore, buildPaymentMessage } from '../src/middleware/x402.js';
+import type { GenericRequest, WithDripConfig, X402PaymentRequest } from '../src/middleware/types.js';
+import { errorResponse, mockClient, signPersonalMessage, TEST_ACCOUNT, type MockReply } from './helpers.js';
+
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+const SESSION_KEY = `0x${'22'.repeat(32)}`;
+
+/** Hardhat's second development account. */
+const OTHER_ACCOUNT = {
+  privateKey: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+  address: '0x70997970c51812dc3a010c7d01b50e0d17dc79c8',
+};
+
+/**
+ * A Drip API where cust_1 is registered to TEST_ACCOUNT and has no balance:
+ * every charge fails with 402, as the balance check doesn't look at metadata.
+ * Usage recorded without a charge succeeds unless `recordUsage` says otherwise.
+ */
+function x402Api(
+  pricing: () => MockReply = () => ({
+    body: { data: [{ id: 'plan_1', name: 'API calls', unitType: 'api_calls', unitPriceUsd: '0.0015', isActive: true }], count: 1 },
+  }),
+  recordUsage: () => MockReply | null = () => null,
+) {
+  return mockClient(({ path, json }) => {
+    switch (path) {
+      case '/pricing-plans':
+        return pricing();
+      case '/customers/cust_1':
+        return { body: { id: 'cust_1', onchainAddress: TEST_ACCOUNT.address } };
+      case '/usage':
+        return errorResponse(402, 'INSUFFICIENT_BALANCE', 'Insufficient balance');
+      case '/usage/internal':
+        return recordUsage() ?? {
+          body: { success: true, usageEventId: 'ue_x402', customerId: 'cust_1', usageType: json!.usageType, quantity: json!.quantity },
+        };
+      default:
+        throw new Error(`Unexpected request to ${path}`);
+    }
+  });
+}
+
+function apiRequest(headers: Record<string, string> = {}): GenericRequest {
+  return { method: 'POST', url: '/api/generate', headers: { 'x-drip-customer-id': 'cust_1', ...headers } };
+}
+
+/**
+ * Sign a payment for `paymentRequest` and return the proof headers.
+ */
+function pay(
+  paymentRequest: X402PaymentRequest,
+  options: { privateKey?: string; smartAccount?: string; amount?: string } = {},
+): Record<string, string> {
+  const proof = {
+    amount: options.amount ?? paymentRequest.amount,
+    recipient: paymentRequest.recipient,
+    usageId: paymentRequest.usageId,
+    nonce: paymentRequest.nonce,
+    timestamp: Math.floor(Date.now() / 1000),
+    sessionKeyId: SESSION_KEY,
+    smartAccount: options.smartAccount ?? TEST_ACCOUNT.address,
+  };
+  return {
+    'x-payment-signature': signPersonalMessage(options.privateKey ?? TEST_ACCOUNT.privateKey, buildPaymentMessage(proof)),
+    'x-payment-session-key': proof.sessionKeyId,
+    'x-payment-smart-account': proof.smartAccount,
+    'x-payment-timestamp': String(proof.timestamp),
+    'x-payment-amount': proof.amount,
+    'x-payment-recipient': proof.recipient,
+    'x-payment-usage-id': proof.usageId,
+    'x-payment-nonce': proof.nonce,
+  };
+}
+
+describe('x402 payment flow', () => {
+  let nonceStore: MemoryPaymentNonceStore;
+
+  beforeEach(() => {
+    vi.stubEnv('DRIP_RECIPIENT_ADDRESS', RECIPIENT);
+    nonceStore = new MemoryPaymentNonceStore();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  function setup(pricing?: () => MockReply, recordUsage?: () => MockReply | null) {
+    const api = x402Api(pricing, recordUsage);
+    const config: WithDripConfig<GenericRequest> = { drip: api.drip, meter: 'api_calls', quantity: 3, nonceStore };
+    return { ...api, config };
+  }
+
+  /** Make the unpaid request and return the 402's payment request. */
+  async function requestPayment(config: WithDripConfig<GenericRequest>): Promise<X402PaymentRequest> {
+    const result = await processRequest(apiRequest(), config) as ProcessRequestFailure;
+    expect(result.success).toBe(false);
+    return result.paymentRequired!.paymentRequest;
+  }
+
+  it('settles a signed proof against the proof, not the balance, once', async () => {
+    const { config, requests } = setup();
+    const paymentRequest = await requestPayment(config);
+    const headers = pay(paymentRequest);
+    const charged = requests.filter((r) => r.path === '/usage').length;
+
+    const result = await processRequest(apiRequest(headers), config);
+
+    expect(result).toMatchObject({
+      success: true,
+      charge: { usageEventId: 'ue_x402', charge: { amountUsdc: '0.004500', status: 'PENDING_SETTLEMENT' } },
+    });
+    expect(requests.filter((r) => r.path === '/usage')).toHaveLength(charged);
+    const settlement = requests.find((r) => r.path === '/usage/internal')!.json!;
+    expect(settlement).toMatchObject({
+      customerId: 'cust_1',
+      idempotencyKey: `x402_${paymentRequest.nonce}`,
+      metadata: { x402: { nonce: paymentRequest.nonce, smartAccount: TEST_ACCOUNT.address, amount: '0.004500' } },
+    });
+
+    const replay = await processRequest(apiRequest(headers), config) as ProcessRequestFailure;
+    expect(replay.error).toMatchObject({ code: 'PAYMENT_VERIFICATION_FAILED', message: 'Unknown or already used payment nonce' });
+  });
+
+  it('keeps the nonce when the usage cannot be recorded', async () => {
+    let recordFails = true;
+    const { config } = setup(undefined, () => (recordFails ? errorResponse(503, 'SERVICE_UNAVAILABLE') : null));
+    const paymentRequest = await requestPayment(config);
+    const headers = pay(paymentRequest);
+
+    const failed = await processRequest(apiRequest(headers), config) as ProcessRequestFailure;
+    recordFails = false;
+    const retry = await processRequest(apiRequest(headers), config);
+
+    expect(failed.error).toMatchObject({ code: 'CHARGE_FAILED', statusCode: 503 });
+    expect(retry).toMatchObject({ success: true, charge: { usageEventId: 'ue_x402' } });
+    expect(nonceStore.size).toBe(0);
+  });
+
+  it.each([
+    [
+      'signed by another key',
+      { privateKey: OTHER_ACCOUNT.privateKey },
+      'Payment was not signed by the customer\'s registered account',
+    ],
+    [
+      'from another account',
+      { privateKey: OTHER_ACCOUNT.privateKey, smartAccount: OTHER_ACCOUNT.address },
+      'Payment is not from the customer\'s registered account',
+    ],
+    [
+      'for less than requested',
+      { amount: '0.004499' },
+      'Payment amount is less than the amount requested',
+    ],
+  ])('rejects a proof %s without burning the nonce', async (_case, options, reason) => {
+    const { config } = setup();
+    const paymentRequest = await requestPayment(config);
+
+    const result = await processRequest(apiRequest(pay(paymentRequest, options)), config) as ProcessRequestFailure;
+
+    expect(result.error).toMatchObject({ code: 'PAYMENT_VERIFICATION_FAILED', statusCode: 402, message: reason });
+    expect(nonceStore.get(paymentRequest.nonce)).not.toBeNull();
+    await expect(processRequest(apiRequest(pay(paymentRequest)), config)).resolves.toMatchObject({ success: true });
+  });
+
+  it('requires DRIP_RECIPIENT_ADDRESS to issue payment requests', async () => {
+    vi.stubEnv('DRIP_RECIPIENT_ADDRESS', '');
+    const { config } = setup();
+
+    const result = await processRequest(apiRequest(), config) as ProcessRequestFailure;
+
+    expect(result.error).toMatchObject({ code: 'CONFIGURATION_ERROR', statusCode: 500 });
+  });
+});
@@ -1,23 +1,52 @@
-import { defineConfig } from 'tsup';
+import { defineConfig, type Options } from 'tsup';
 
-export default defineConfig({
-  entry: [
-    'src/index.ts',
-    'src/core.ts',
-    'src/next.ts',
-    'src/express.ts',
-    'src/middleware.ts',
-    'src/langchain.ts',
-  ],
+const shared: Options = {
   format: ['esm', 'cjs'],
   dts: true,
   sourcemap: true,
-  clean: true,
   minify: true,
   splitting: false,
   treeshake: true,
-  target: 'node18',
   outDir: 'dist',
   shims: true,
   cjsInterop: true,
-});
+};
+
+export default defineConfig([
+  {
+    ...shared,
+    entry: [
+      'src/index.ts',
+      'src/core.ts',
+      'src/next.ts',
+      'src/express.ts',
+      'src/fastify.ts',
+      'src/koa.ts',
+      'src/graphql.ts',
+      'src/trpc.ts',
+      'src/middleware.ts',
+      'src/langchain.ts',
+    ],
+    clean: true,
+    target: 'node18',
+  },
+  {
+    // The edge entry swaps the Node runtime module for the Web API one, so
+    // no Node built-in ends up in the bundle
+    ...shared,
+    entry: ['src/edge.ts'],
+    clean: false,
+    target: 'es2022',
+    platform: 'neutral',
+    esbuildPlugins: [
+      {
+        name: 'edge-runtime',
+        setup(build) {
+          build.onResolve({ filter: /\/runtime\.js$/ }, (args) => ({
+            path: `${args.resolveDir}/${args.path.replace(/\.js$/, '.edge.ts')}`,
+          }));
+        },
+      },
+    ],
+  },
+]);